@@ -314,4 +314,378 @@ INSERT INTO herd_patterns (pattern_name, description, fear_greed_min, fear_greed
 ('DEPRESSION_BOTTOM', 'Maximum fear sustained = accumulation phase', 0, 15, 0.1, -1.0, -0.7, 'LONG', 25),
 ('FOMO_ACCELERATION', 'Sentiment accelerating upward rapidly', 60, 80, 1.0, 0.5, 0.8, 'SHORT', 5),
 ('PANIC_ACCELERATION', 'Sentiment accelerating downward rapidly', 20, 40, -1.0, -0.8, -0.5, 'LONG', 5)
-ON CONFLICT DO NOTHING;
\ No newline at end of file
+ON CONFLICT DO NOTHING;
+-- ============================================
+-- Phase 14: Multi-Exchange Ingestion
+-- Ticks are tagged with the venue they came from
+-- ============================================
+
+ALTER TABLE sentiment_metrics ADD COLUMN IF NOT EXISTS venue VARCHAR(20) DEFAULT 'coinbase';
+
+CREATE INDEX IF NOT EXISTS idx_sentiment_metrics_venue_time ON sentiment_metrics(venue, time DESC);
+
+-- ============================================
+-- Phase 15: OHLCV Candles
+-- Built live from ticks, back-filled from sentiment_metrics
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS candles (
+    ticker VARCHAR(20) NOT NULL,
+    timeframe VARCHAR(5) NOT NULL, -- '1m', '5m', '15m', '1h', '1d'
+    bucket_start TIMESTAMPTZ NOT NULL,
+    open DECIMAL(20, 8) NOT NULL,
+    high DECIMAL(20, 8) NOT NULL,
+    low DECIMAL(20, 8) NOT NULL,
+    close DECIMAL(20, 8) NOT NULL,
+    volume DECIMAL(30, 8) DEFAULT 0,
+    trade_count INTEGER DEFAULT 0,
+    PRIMARY KEY (ticker, timeframe, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candles_tf_bucket ON candles(timeframe, bucket_start DESC);
+
+-- ============================================
+-- Phase 16: Market Data Table
+-- Raw trades move out of sentiment_metrics (where price was stored as
+-- sentiment_score). sentiment_metrics keeps news/social sentiment only.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS market_trades (
+    id BIGSERIAL PRIMARY KEY,
+    ticker VARCHAR(20) NOT NULL,
+    venue VARCHAR(20) NOT NULL DEFAULT 'coinbase',
+    price DECIMAL(20, 8) NOT NULL,
+    size DECIMAL(30, 8) NOT NULL DEFAULT 0,
+    side VARCHAR(4), -- taker side: 'buy' | 'sell'
+    trade_id VARCHAR(64),
+    time TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_trades_ticker_time ON market_trades(ticker, time DESC);
+CREATE INDEX IF NOT EXISTS idx_market_trades_time ON market_trades(time DESC);
+CREATE INDEX IF NOT EXISTS idx_market_trades_venue_time ON market_trades(venue, time DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_trades_venue_trade ON market_trades(venue, ticker, trade_id) WHERE trade_id IS NOT NULL;
+
+-- Sentiment rows are tagged with the scanner that produced them
+ALTER TABLE sentiment_metrics ADD COLUMN IF NOT EXISTS source VARCHAR(20);
+
+-- Every untagged row is a trade tick: move it (safe to re-run)
+WITH moved AS (
+    DELETE FROM sentiment_metrics
+    WHERE source IS NULL
+    RETURNING ticker, COALESCE(venue, 'coinbase') AS venue, sentiment_score, volume, time
+)
+INSERT INTO market_trades (ticker, venue, price, size, time)
+SELECT ticker, venue, sentiment_score, COALESCE(volume, 0), time FROM moved;
+
+DROP INDEX IF EXISTS idx_sentiment_metrics_venue_time;
+ALTER TABLE sentiment_metrics DROP COLUMN IF EXISTS venue;
+
+CREATE INDEX IF NOT EXISTS idx_sentiment_metrics_ticker_time ON sentiment_metrics(ticker, time DESC);
+
+-- ============================================
+-- Phase 17: Asset Registry
+-- One list of tracked assets (seeded by the app on first start)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS assets (
+    symbol VARCHAR(20) PRIMARY KEY,      -- Base symbol: BTC
+    name VARCHAR(100) NOT NULL,
+    product_ids JSONB DEFAULT '{}',      -- Per-venue overrides, e.g. {"binance": "BTCUSDT"}; null = not listed
+    news_keywords TEXT[] DEFAULT '{}',
+    chain_slug VARCHAR(50),              -- DefiLlama chain name
+    has_options BOOLEAN DEFAULT FALSE,   -- Deribit options market
+    enabled BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- Phase 18: Multi-Timeframe Snapshots
+-- force_snapshots is written by the MTF job (1m/5m/15m/1h per ticker)
+-- ============================================
+
+ALTER TABLE force_snapshots ALTER COLUMN ticker TYPE VARCHAR(20);
+ALTER TABLE force_snapshots ALTER COLUMN hijack_force TYPE DOUBLE PRECISION;
+ALTER TABLE force_snapshots ADD COLUMN IF NOT EXISTS trend VARCHAR(5);  -- 'UP', 'DOWN', 'FLAT'
+
+CREATE INDEX IF NOT EXISTS idx_force_snapshots_ticker_recorded ON force_snapshots(ticker, recorded_at DESC);
+
+-- ============================================
+-- Phase 19: Confluence-Gated Entries
+-- Which timeframes agreed at entry, and whether the gate was on
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS mtf_direction VARCHAR(5);               -- 'UP', 'DOWN', 'FLAT'
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS mtf_agreeing TEXT[] DEFAULT '{}';      -- e.g. {1m,5m,15m}
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS confluence_gated BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE hijack_archive ADD COLUMN IF NOT EXISTS mtf_agreeing TEXT[];
+ALTER TABLE hijack_archive ADD COLUMN IF NOT EXISTS confluence_gated BOOLEAN;
+
+-- ============================================
+-- Phase 20: Position Side
+-- Shorts are real positions; everything opened before this was a long
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS side VARCHAR(5);  -- 'LONG', 'SHORT'
+UPDATE paper_trades SET side = 'LONG' WHERE side IS NULL;
+ALTER TABLE paper_trades ALTER COLUMN side SET DEFAULT 'LONG';
+ALTER TABLE paper_trades ALTER COLUMN side SET NOT NULL;
+
+-- ============================================
+-- Phase 21: Paper Account Ledger
+-- Cash is SUM(paper_ledger.amount); the app creates the account (and its
+-- DEPOSIT) on startup and back-fills fills for trades with no account_id
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS paper_accounts (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(20) UNIQUE NOT NULL,
+    starting_balance DECIMAL(20, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS paper_ledger (
+    id SERIAL PRIMARY KEY,
+    account_id INTEGER NOT NULL REFERENCES paper_accounts(id),
+    trade_id INTEGER REFERENCES paper_trades(id),
+    entry_type VARCHAR(10) NOT NULL,     -- 'DEPOSIT', 'FILL', 'FEE', 'FUNDING'
+    ticker VARCHAR(20),
+    amount DECIMAL(20, 8) NOT NULL,      -- Signed cash delta (+ credits the account)
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_ledger_account ON paper_ledger(account_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_paper_ledger_trade ON paper_ledger(trade_id, entry_type);
+
+CREATE TABLE IF NOT EXISTS paper_equity_snapshots (
+    id SERIAL PRIMARY KEY,
+    account_id INTEGER NOT NULL REFERENCES paper_accounts(id),
+    cash DECIMAL(20, 2) NOT NULL,
+    positions_value DECIMAL(20, 2) NOT NULL,   -- Signed (shorts negative)
+    equity DECIMAL(20, 2) NOT NULL,
+    margin_used DECIMAL(20, 2) NOT NULL,
+    open_positions INTEGER NOT NULL,
+    recorded_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_equity_account_recorded ON paper_equity_snapshots(account_id, recorded_at DESC);
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS account_id INTEGER REFERENCES paper_accounts(id);
+
+-- ============================================
+-- Phase 22: Strategy Accounts
+-- One paper account per strategy (SNIPER, AGGRESSIVE, BALANCED, CONSERVATIVE),
+-- created by the app on startup. The single MAIN account becomes SNIPER, which
+-- keeps the pre-account history (sniper and operator trades were not told apart)
+-- ============================================
+
+UPDATE paper_accounts SET name = 'SNIPER'
+WHERE name = 'MAIN' AND NOT EXISTS (SELECT 1 FROM paper_accounts WHERE name = 'SNIPER');
+
+CREATE INDEX IF NOT EXISTS idx_paper_trades_account_status ON paper_trades(account_id, status);
+
+-- ============================================
+-- Phase 23: Execution Costs
+-- entry_price / exit_price are now fill prices after spread and slippage;
+-- the tick they were quoted off is kept alongside. profit is net of fees and
+-- execution cost, gross_profit is tick-to-tick (NULL on older trades)
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS entry_ref_price DECIMAL(20, 8);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS exit_ref_price DECIMAL(20, 8);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS gross_profit DECIMAL(20, 8);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS fees DECIMAL(20, 8) DEFAULT 0;
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS execution_cost DECIMAL(20, 8) DEFAULT 0;
+
+-- ============================================
+-- Phase 24: Paper Orders
+-- Resting simulated orders matched against live ticks. OPEN-intent orders
+-- open / grow a position; CLOSE-intent orders reduce the one in trade_id.
+-- Bracket exit legs wait as PENDING under parent_id; legs sharing an
+-- oco_group cancel each other. Every (partial) execution is a fill row.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS paper_orders (
+    id SERIAL PRIMARY KEY,
+    account_id INTEGER NOT NULL REFERENCES paper_accounts(id),
+    ticker VARCHAR(10) NOT NULL,
+    side VARCHAR(4) NOT NULL,                   -- 'buy', 'sell'
+    order_type VARCHAR(10) NOT NULL,            -- 'MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'
+    intent VARCHAR(5) NOT NULL,                 -- 'OPEN', 'CLOSE'
+    trade_id INTEGER REFERENCES paper_trades(id),
+    quantity DECIMAL(20, 8) NOT NULL,
+    filled_quantity DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    avg_fill_price DECIMAL(20, 8),
+    limit_price DECIMAL(20, 8),
+    stop_price DECIMAL(20, 8),
+    triggered BOOLEAN NOT NULL DEFAULT FALSE,
+    status VARCHAR(16) NOT NULL,                -- 'PENDING', 'OPEN', 'PARTIALLY_FILLED', 'FILLED', 'CANCELED'
+    parent_id INTEGER REFERENCES paper_orders(id),
+    oco_group VARCHAR(36),
+    source VARCHAR(32) NOT NULL DEFAULT 'API',
+    cancel_reason TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_account ON paper_orders(account_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_working ON paper_orders(status)
+    WHERE status IN ('PENDING', 'OPEN', 'PARTIALLY_FILLED');
+
+CREATE TABLE IF NOT EXISTS paper_order_fills (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES paper_orders(id),
+    trade_id INTEGER REFERENCES paper_trades(id),
+    quantity DECIMAL(20, 8) NOT NULL,
+    price DECIMAL(20, 8) NOT NULL,              -- After spread and slippage
+    ref_price DECIMAL(20, 8) NOT NULL,          -- Tick / limit it matched at
+    fee DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    execution_cost DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    liquidity VARCHAR(5) NOT NULL,              -- 'maker', 'taker'
+    filled_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_order_fills_order ON paper_order_fills(order_id);
+
+-- ============================================
+-- Phase 25: Position Sizing
+-- How each strategy entry was sized (fixed, fractional, volatility, kelly)
+-- and why, e.g. "risk 1% of $10000.00 ($100.00) over 2x 15m ATR ..."
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS sizing_method VARCHAR(10);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS sizing_rationale TEXT;
+
+ALTER TABLE paper_orders ADD COLUMN IF NOT EXISTS sizing_method VARCHAR(10);
+ALTER TABLE paper_orders ADD COLUMN IF NOT EXISTS sizing_rationale TEXT;
+
+-- ============================================
+-- Phase 26: Exit Ladders
+-- Scaling out closes part of a position into its own CLOSED row pointing
+-- back at the open one (parent_trade_id), so every leg carries its own P&L
+-- and exit reason. The open row tracks how far up the ladder it is and the
+-- stop the ladder moved (break-even after the first target).
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS parent_trade_id INTEGER REFERENCES paper_trades(id);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS exit_reason VARCHAR(64);
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS ladder_step INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS ladder_base_quantity DECIMAL(20, 8);  -- Size the rung percents apply to
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS stop_price DECIMAL(20, 8);            -- Break-even stop, once armed
+
+CREATE INDEX IF NOT EXISTS idx_paper_trades_parent ON paper_trades(parent_trade_id);
+
+-- ============================================
+-- Phase 27: Live Trades
+-- Real positions opened by LiveTradingService, one row per position (a
+-- partial exit splits the sold part off as its own CLOSED row). Prices and
+-- fees are what the exchange reported for the fills.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS live_trades (
+    id SERIAL PRIMARY KEY,
+    exchange VARCHAR(16) NOT NULL,              -- 'coinbase', 'mock'
+    ticker VARCHAR(20) NOT NULL,
+    product_id VARCHAR(20) NOT NULL,            -- Exchange-native, e.g. BTC-USD
+    quantity DECIMAL(20, 8) NOT NULL,
+    entry_price DECIMAL(20, 8) NOT NULL,        -- Average fill
+    exit_price DECIMAL(20, 8),
+    fees DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    profit DECIMAL(20, 8),                      -- Net of fees
+    status VARCHAR(10) NOT NULL DEFAULT 'OPEN', -- 'OPEN', 'CLOSED'
+    entry_order_id VARCHAR(64),
+    exit_order_id VARCHAR(64),
+    opened_at TIMESTAMP DEFAULT NOW(),
+    closed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_trades_status ON live_trades(status);
+CREATE INDEX IF NOT EXISTS idx_live_trades_closed_at ON live_trades(closed_at DESC);
+
+-- ============================================
+-- Phase 28: Live Order Lifecycle
+-- Every live order, keyed by a deterministic client order id (same intent,
+-- same id: a retry can't insert or send it twice), and every state change it
+-- went through. NEW -> SENT -> ACKED -> PARTIALLY_FILLED -> FILLED, or
+-- CANCELED / REJECTED. On startup, SENT orders are looked up on the exchange.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS live_orders (
+    id SERIAL PRIMARY KEY,
+    client_order_id VARCHAR(64) NOT NULL UNIQUE,
+    exchange VARCHAR(16) NOT NULL,
+    exchange_order_id VARCHAR(64),
+    ticker VARCHAR(20) NOT NULL,
+    product_id VARCHAR(20) NOT NULL,
+    side VARCHAR(4) NOT NULL,                   -- 'buy', 'sell'
+    order_type VARCHAR(10) NOT NULL,            -- 'MARKET', 'LIMIT'
+    intent VARCHAR(5) NOT NULL,                 -- 'OPEN', 'CLOSE'
+    live_trade_id INTEGER REFERENCES live_trades(id),
+    quantity DECIMAL(20, 8) NOT NULL,
+    limit_price DECIMAL(20, 8),
+    state VARCHAR(16) NOT NULL,                 -- 'NEW', 'SENT', 'ACKED', 'PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED'
+    filled_quantity DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    avg_fill_price DECIMAL(20, 8),
+    fees DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    reject_reason TEXT,
+    settled BOOLEAN NOT NULL DEFAULT FALSE,     -- Fills booked into live_trades
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_orders_unfinished ON live_orders(state)
+    WHERE state NOT IN ('FILLED', 'CANCELED', 'REJECTED');
+
+CREATE TABLE IF NOT EXISTS live_order_transitions (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES live_orders(id),
+    from_state VARCHAR(16),                     -- NULL for creation
+    to_state VARCHAR(16) NOT NULL,
+    detail TEXT,
+    filled_quantity DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_order_transitions_order ON live_order_transitions(order_id);
+
+-- ============================================
+-- Phase 29: Live Reconciliation
+-- Reconciliation runs that found our books (live_trades, live_orders) out
+-- of line with the exchange's balances or fills, with the full diff. A run
+-- past tolerance also trips the kill switch.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS live_reconciliations (
+    id SERIAL PRIMARY KEY,
+    exchange VARCHAR(20) NOT NULL,
+    ok BOOLEAN NOT NULL,
+    kill_switch_triggered BOOLEAN NOT NULL DEFAULT FALSE,
+    report JSONB NOT NULL,                      -- Positions, cash and unknown fills diff
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- Phase 30: Per-Timeframe Confluence
+-- Entries whose timeframe agreement came from 1m/5m/15m/1h candles. Earlier
+-- entries read every timeframe off the same ticks (all agreed or none did),
+-- so confluence stats leave them out.
+-- ============================================
+
+ALTER TABLE paper_trades ADD COLUMN IF NOT EXISTS mtf_from_candles BOOLEAN DEFAULT FALSE;
+
+-- ============================================
+-- Phase 31: Live Cash Anchor
+-- The USD balance the exchange account started from, as fixed by the first
+-- reconciliation (exchange USD minus every fill's cash flow so far). Kept
+-- across restarts so drift can't be absorbed by re-anchoring; delete the row
+-- after a deposit or withdrawal to re-anchor.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS live_cash_anchors (
+    exchange VARCHAR(20) PRIMARY KEY,
+    starting_cash NUMERIC(20, 8) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
@@ -1,12 +1,14 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { SentimentService } from '../../modules/sentiment/sentiment.service';
 import { PaperService } from '../../modules/execution/paper.service';
+import { PortfolioService, ACCOUNT_NAMES, isAccountName } from '../../modules/execution/portfolio.service';
+import { PaperOrderService, OrderRequest } from '../../modules/execution/paper-order.service';
 import { NewsService } from '../../modules/news/news.service';
-import { ConfigService } from '../../shared/config.service';
+import { ConfigService, FORCE_MODES, isForceMode } from '../../shared/config.service';
 import { PushNotificationService } from '../../modules/notifications/push.service';
 import { WhaleService } from '../../modules/whale/whale.service';
 import { CorrelationService } from '../../modules/analytics/correlation.service';
-import { BacktestService } from '../../modules/analytics/backtest.service';
+import { BacktestService, BacktestConfig } from '../../modules/analytics/backtest.service';
 import { TwitterService } from '../../modules/sentiment/twitter.service';
 import { MLPredictorService } from '../../modules/analytics/ml-predictor.service';
 import { OnChainService } from '../../modules/analytics/onchain.service';
@@ -14,6 +16,24 @@ import { FearGreedService } from '../../modules/sentiment/fear-greed.service';
 import { OptionsFlowService } from '../../modules/analytics/options-flow.service';
 import { AlertsService } from '../../modules/notifications/alerts.service';
 import { AutoTraderService } from '../../modules/execution/autotrader.service';
+import { CandleService } from '../../modules/analytics/candle.service';
+import { MarketDataModel } from '../../modules/market/market-data.model';
+import { OrderBookService } from '../../modules/ingestor/order-book.service';
+import { Venue } from '../../modules/ingestor/exchange.adapter';
+import { AssetRegistryService, AssetInput } from '../../modules/assets/asset-registry.service';
+import { WorkerTimeoutError } from '../../modules/sentiment/worker-pool.service';
+import { isPriceFilter, PRICE_FILTERS } from '../../shared/signal-filters.util';
+import { isVenue, VENUE_FEES } from '../../shared/execution-cost.util';
+import { isSizingMethod, SIZING_METHODS } from '../../shared/position-sizing.util';
+import { exitLadderError, LadderRung } from '../../shared/exit-ladder.util';
+import { MultiTimeframeService, MtfTimeframe } from '../../modules/sentiment/multi-timeframe.service';
+import { LiveTradingService } from '../../modules/execution/live.service';
+import { LiveOrderService } from '../../modules/execution/live-order.service';
+import { LiveReconcilerService } from '../../modules/execution/live-reconciler.service';
+import { ExchangeError } from '../../modules/execution/exchange.client';
+
+// ?account= on the paper endpoints must name a strategy account
+const ACCOUNT_ERROR = `account must be one of: ${ACCOUNT_NAMES.join(', ')}`;
 
 // ORIGINAL: Single Coin Analysis (Keep for specific queries)
 export const getSentimentAnalysis = async (request: FastifyRequest, reply: FastifyReply) => {
@@ -30,7 +50,13 @@ export const getSentimentAnalysis = async (request: FastifyRequest, reply: Fasti
 // NEW: Multi-Asset Leaderboard (with Narrative Fusion)
 export const getLeaderboard = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-        const leaderboard = await SentimentService.getMarketLeaderboard();
+        const { venue, minutes } = request.query as { venue?: string; minutes?: string };
+
+        // Default: the live streaming board. ?minutes=N recomputes over a custom window.
+        const window = Number(minutes);
+        const leaderboard: any[] = minutes && Number.isFinite(window) && window > 0
+            ? await SentimentService.computeLeaderboard(Math.min(window, 60), venue)
+            : await SentimentService.getMarketLeaderboard(venue);
         
         // ENRICHMENT: Add Narrative Data to each asset
         const enrichedBoard = leaderboard.map((asset: any) => {
@@ -53,27 +79,27 @@ export const getLeaderboard = async (request: FastifyRequest, reply: FastifyRepl
 export const getMarketHeatmap = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
         // We aggregate volume for all coins over the last hour
-        const sql = `
-            SELECT ticker, SUM(volume) as total_vol 
-            FROM sentiment_metrics 
-            WHERE time >= NOW() - INTERVAL '60 minutes'
-            GROUP BY ticker 
-            ORDER BY total_vol DESC 
-            LIMIT 10;
-        `;
-        const result = await require('../../shared/db').query(sql);
-        return reply.send({ success: true, data: result.rows });
+        const heatmap = await MarketDataModel.getVolumeByTicker(60, 10);
+        return reply.send({ success: true, data: heatmap });
     } catch (error) {
         request.log.error(error);
         return reply.status(500).send({ error: 'Failed to generate heatmap.' });
     }
 };
 
-// 4. SNIPER: Paper Trade History
+// 4. SNIPER: Paper Trade History (?account=SNIPER|AGGRESSIVE|BALANCED|CONSERVATIVE)
 export const getPaperTrades = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account } = request.query as { account?: string };
     try {
-        const sql = `SELECT * FROM paper_trades ORDER BY opened_at DESC LIMIT 20`;
-        const result = await require('../../shared/db').query(sql);
+        if (account !== undefined && !isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const sql = `
+            SELECT t.*, a.name AS account FROM paper_trades t
+            LEFT JOIN paper_accounts a ON a.id = t.account_id
+            WHERE ($1::text IS NULL OR a.name = $1)
+            ORDER BY t.opened_at DESC LIMIT 20`;
+        const result = await require('../../shared/db').query(sql, [account || null]);
         return reply.send({ success: true, data: result.rows });
     } catch (error) {
         request.log.error(error);
@@ -81,10 +107,14 @@ export const getPaperTrades = async (request: FastifyRequest, reply: FastifyRepl
     }
 };
 
-// 5. SNIPER: Trading Stats
+// 5. SNIPER: Trading Stats (?account= for one strategy; default all)
 export const getPaperStats = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account } = request.query as { account?: string };
     try {
-        const stats = await PaperService.getStats();
+        if (account !== undefined && !isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const stats = await PaperService.getStats(account);
         return reply.send({ success: true, data: stats });
     } catch (error) {
         request.log.error(error);
@@ -92,10 +122,14 @@ export const getPaperStats = async (request: FastifyRequest, reply: FastifyReply
     }
 };
 
-// 6. P&L History for Charts
+// 6. P&L History for Charts (?account= for one strategy; default all)
 export const getPnLHistory = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account } = request.query as { account?: string };
     try {
-        const history = await PaperService.getPnLHistory();
+        if (account !== undefined && !isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const history = await PaperService.getPnLHistory(account);
         return reply.send({ success: true, data: history });
     } catch (error) {
         request.log.error(error);
@@ -121,7 +155,7 @@ export const exportTradesCSV = async (request: FastifyRequest, reply: FastifyRep
         const sql = `SELECT * FROM paper_trades ORDER BY opened_at DESC`;
         const result = await require('../../shared/db').query(sql);
         
-        const headers = ['id', 'ticker', 'entry_price', 'exit_price', 'quantity', 'profit', 'status', 'hijack_force_at_entry', 'opened_at', 'closed_at'];
+        const headers = ['id', 'ticker', 'side', 'entry_price', 'exit_price', 'quantity', 'profit', 'status', 'hijack_force_at_entry', 'opened_at', 'closed_at'];
         const csv = [
             headers.join(','),
             ...result.rows.map((row: any) => 
@@ -175,19 +209,13 @@ export const exportArchiveCSV = async (request: FastifyRequest, reply: FastifyRe
 export const exportMetricsCSV = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
         const { hours = 24 } = request.query as { hours?: number };
-        const sql = `
-            SELECT ticker, sentiment_score, volume, time 
-            FROM sentiment_metrics 
-            WHERE time >= NOW() - INTERVAL '${Math.min(hours, 168)} hours'
-            ORDER BY time DESC
-        `;
-        const result = await require('../../shared/db').query(sql);
+        const trades = await MarketDataModel.getTradesForExport(Math.min(Number(hours) || 24, 168));
         
-        const headers = ['ticker', 'price', 'volume', 'timestamp'];
+        const headers = ['ticker', 'price', 'size', 'side', 'trade_id', 'venue', 'timestamp'];
         const csv = [
             headers.join(','),
-            ...result.rows.map((row: any) => 
-                [row.ticker, row.sentiment_score, row.volume, row.time].join(',')
+            ...trades.map(t => 
+                [t.ticker, t.price, t.size, t.side || '', t.tradeId || '', t.venue, t.time.toISOString()].join(',')
             )
         ].join('\n');
         
@@ -217,6 +245,26 @@ export const getConfig = async (request: FastifyRequest, reply: FastifyReply) =>
 export const updateConfig = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
         const updates = request.body as any;
+        if (updates?.priceFilter !== undefined && !isPriceFilter(updates.priceFilter)) {
+            return reply.status(400).send({ error: `priceFilter must be one of: ${PRICE_FILTERS.join(', ')}` });
+        }
+        if (updates?.forceMode !== undefined && !isForceMode(updates.forceMode)) {
+            return reply.status(400).send({ error: `forceMode must be one of: ${FORCE_MODES.join(', ')}` });
+        }
+        if (updates?.executionVenue !== undefined && !isVenue(updates.executionVenue)) {
+            return reply.status(400).send({ error: `executionVenue must be one of: ${Object.keys(VENUE_FEES).join(', ')}` });
+        }
+        if (updates?.sizingMethod !== undefined && !isSizingMethod(updates.sizingMethod)) {
+            return reply.status(400).send({ error: `sizingMethod must be one of: ${SIZING_METHODS.join(', ')}` });
+        }
+        if (updates?.sizingAtrTimeframe !== undefined &&
+            (typeof updates.sizingAtrTimeframe !== 'string' || !CandleService.isTimeframe(updates.sizingAtrTimeframe))) {
+            return reply.status(400).send({ error: 'sizingAtrTimeframe must be a candle timeframe' });
+        }
+        if (updates?.exitLadder !== undefined) {
+            const ladderError = exitLadderError(updates.exitLadder);
+            if (ladderError) return reply.status(400).send({ error: ladderError });
+        }
         const config = ConfigService.updateConfig(updates);
         return reply.send({ success: true, data: config, message: 'Config updated' });
     } catch (error) {
@@ -418,42 +466,126 @@ export const runQuickBacktest = async (request: FastifyRequest, reply: FastifyRe
         return reply.send({ success: true, data: result });
     } catch (error) {
         request.log.error(error);
+        if (error instanceof WorkerTimeoutError) {
+            return reply.status(504).send({ error: 'Backtest timed out. Try a shorter window.' });
+        }
         return reply.status(500).send({ error: 'Failed to run backtest.' });
     }
 };
 
-// 24. CUSTOM BACKTEST: Full configuration
+// Request body shared by the custom and filter-comparison backtests
+interface CustomBacktestBody {
+    startDate: string;
+    endDate: string;
+    entryThreshold?: number;
+    exitThreshold?: number;
+    stopLossPercent?: number;
+    takeProfitPercent?: number;
+    tradeSizeUsd?: number;
+    tickers?: string[];
+    venues?: string[];
+    filter?: string;
+    venue?: string;               // Fee schedule (default: executionVenue)
+    halfSpreadBps?: number;
+    slippageBpsPer10k?: number;
+    sizingMethod?: string;        // Position sizing (default: sizingMethod)
+    startingEquity?: number;      // Simulated account for equity-based sizing
+    exitLadder?: LadderRung[];    // Scale-out targets (default: exitLadder)
+    breakEvenAfterFirstTarget?: boolean;
+}
+
+const toBacktestConfig = (config: CustomBacktestBody): BacktestConfig => ({
+    startDate: new Date(config.startDate),
+    endDate: new Date(config.endDate),
+    entryThreshold: config.entryThreshold || 0.08,
+    exitThreshold: config.exitThreshold || 0.01,
+    stopLossPercent: config.stopLossPercent || -2.0,
+    takeProfitPercent: config.takeProfitPercent || 3.0,
+    tradeSizeUsd: config.tradeSizeUsd || 1000,
+    tickers: config.tickers,
+    venues: config.venues,
+    filter: isPriceFilter(config.filter) ? config.filter : undefined,
+    costs: {
+        venue: isVenue(config.venue) ? config.venue : ConfigService.getExecutionVenue(),
+        halfSpreadBps: config.halfSpreadBps ?? ConfigService.getCostModel().halfSpreadBps,
+        slippageBpsPer10k: config.slippageBpsPer10k ?? ConfigService.getCostModel().slippageBpsPer10k
+    },
+    sizing: {
+        ...ConfigService.getSizingConfig(),
+        ...(isSizingMethod(config.sizingMethod) ? { method: config.sizingMethod } : {})
+    },
+    startingEquity: config.startingEquity,
+    exitLadder: {
+        rungs: config.exitLadder ?? ConfigService.getExitLadder().rungs,
+        breakEvenAfterFirst: config.breakEvenAfterFirstTarget ?? ConfigService.getExitLadder().breakEvenAfterFirst
+    }
+});
+
+// Checks shared by the custom and filter-comparison backtests
+const backtestBodyError = (config: CustomBacktestBody): string | null => {
+    if (config.venue !== undefined && !isVenue(config.venue)) {
+        return `venue must be one of: ${Object.keys(VENUE_FEES).join(', ')}`;
+    }
+    for (const key of ['halfSpreadBps', 'slippageBpsPer10k'] as const) {
+        const value = config[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            return `${key} must be a non-negative number`;
+        }
+    }
+    if (config.sizingMethod !== undefined && !isSizingMethod(config.sizingMethod)) {
+        return `sizingMethod must be one of: ${SIZING_METHODS.join(', ')}`;
+    }
+    if (config.startingEquity !== undefined &&
+        (typeof config.startingEquity !== 'number' || !Number.isFinite(config.startingEquity) || config.startingEquity <= 0)) {
+        return 'startingEquity must be a positive number';
+    }
+    if (config.exitLadder !== undefined) {
+        const ladderError = exitLadderError(config.exitLadder);
+        if (ladderError) return ladderError;
+    }
+    return null;
+};
+
+// 24. CUSTOM BACKTEST: Full configuration (optional filter: none|ema|savgol|kalman)
 export const runCustomBacktest = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-        const config = request.body as {
-            startDate: string;
-            endDate: string;
-            entryThreshold?: number;
-            exitThreshold?: number;
-            stopLossPercent?: number;
-            takeProfitPercent?: number;
-            tradeSizeUsd?: number;
-            tickers?: string[];
-        };
-
-        const result = await BacktestService.runBacktest({
-            startDate: new Date(config.startDate),
-            endDate: new Date(config.endDate),
-            entryThreshold: config.entryThreshold || 0.08,
-            exitThreshold: config.exitThreshold || 0.01,
-            stopLossPercent: config.stopLossPercent || -2.0,
-            takeProfitPercent: config.takeProfitPercent || 3.0,
-            tradeSizeUsd: config.tradeSizeUsd || 1000,
-            tickers: config.tickers
-        });
+        const config = request.body as CustomBacktestBody;
+        if (config.filter !== undefined && !isPriceFilter(config.filter)) {
+            return reply.status(400).send({ error: `filter must be one of: ${PRICE_FILTERS.join(', ')}` });
+        }
+        const bodyError = backtestBodyError(config);
+        if (bodyError) return reply.status(400).send({ error: bodyError });
+
+        const result = await BacktestService.runBacktest(toBacktestConfig(config));
 
         return reply.send({ success: true, data: result });
     } catch (error) {
         request.log.error(error);
+        if (error instanceof WorkerTimeoutError) {
+            return reply.status(504).send({ error: 'Backtest timed out. Try a shorter window or fewer tickers.' });
+        }
         return reply.status(500).send({ error: 'Failed to run custom backtest.' });
     }
 };
 
+// 60. FILTER COMPARISON: Same backtest under every price filter (trade count / P&L vs. unfiltered)
+export const compareBacktestFilters = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const config = request.body as CustomBacktestBody;
+        const bodyError = backtestBodyError(config);
+        if (bodyError) return reply.status(400).send({ error: bodyError });
+
+        const result = await BacktestService.compareFilters(toBacktestConfig(config));
+        return reply.send({ success: true, data: result });
+    } catch (error) {
+        request.log.error(error);
+        if (error instanceof WorkerTimeoutError) {
+            return reply.status(504).send({ error: 'Backtest timed out. Try a shorter window or fewer tickers.' });
+        }
+        return reply.status(500).send({ error: 'Failed to compare filters.' });
+    }
+};
+
 // ============= TWITTER SENTIMENT =============
 
 // 25. GET ALL TWITTER SENTIMENT
@@ -734,46 +866,60 @@ export const getTriggeredAlerts = async (request: FastifyRequest, reply: Fastify
 
 // ============ AUTOTRADER BOT ============
 
-// 47. START AUTOTRADER BOT
+// 47. START AUTOTRADER BOT (one per mode; modes run side by side)
 export const startAutoTrader = async (request: FastifyRequest, reply: FastifyReply) => {
-    const { mode = 'BALANCED' } = request.body as { mode?: 'AGGRESSIVE' | 'BALANCED' | 'CONSERVATIVE' };
+    const { mode = 'BALANCED' } = (request.body || {}) as { mode?: string };
     try {
+        if (!AutoTraderService.isMode(mode)) {
+            return reply.status(400).send({ error: 'mode must be one of: AGGRESSIVE, BALANCED, CONSERVATIVE' });
+        }
         const result = AutoTraderService.start(mode);
-        return reply.send({ success: result.success, message: result.message, data: AutoTraderService.getStats() });
+        return reply.send({ success: result.success, message: result.message, data: AutoTraderService.getStats(mode) });
     } catch (error) {
         request.log.error(error);
         return reply.status(500).send({ error: 'Failed to start AutoTrader.' });
     }
 };
 
-// 48. STOP AUTOTRADER BOT
+// 48. STOP AUTOTRADER BOT (body { mode } stops one; no mode stops all)
 export const stopAutoTrader = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { mode } = (request.body || {}) as { mode?: string };
     try {
-        const result = AutoTraderService.stop();
-        return reply.send({ success: result.success, message: result.message, data: AutoTraderService.getStats() });
+        if (mode !== undefined && !AutoTraderService.isMode(mode)) {
+            return reply.status(400).send({ error: 'mode must be one of: AGGRESSIVE, BALANCED, CONSERVATIVE' });
+        }
+        const result = AutoTraderService.stop(mode);
+        return reply.send({ success: result.success, message: result.message, data: AutoTraderService.getStats(mode) });
     } catch (error) {
         request.log.error(error);
         return reply.status(500).send({ error: 'Failed to stop AutoTrader.' });
     }
 };
 
-// 49. GET AUTOTRADER STATUS
+// 49. GET AUTOTRADER STATUS (?mode= picks the bot for stats/config; bots lists all)
 export const getAutoTraderStatus = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { mode } = request.query as { mode?: string };
     try {
-        const stats = AutoTraderService.getStats();
-        const config = AutoTraderService.getConfig();
-        return reply.send({ success: true, data: { stats, config } });
+        if (mode !== undefined && !AutoTraderService.isMode(mode)) {
+            return reply.status(400).send({ error: 'mode must be one of: AGGRESSIVE, BALANCED, CONSERVATIVE' });
+        }
+        const stats = AutoTraderService.getStats(mode);
+        const config = AutoTraderService.getConfig(mode);
+        return reply.send({ success: true, data: { stats, config, bots: AutoTraderService.getBots() } });
     } catch (error) {
         request.log.error(error);
         return reply.status(500).send({ error: 'Failed to get AutoTrader status.' });
     }
 };
 
-// 50. UPDATE AUTOTRADER CONFIG
+// 50. UPDATE AUTOTRADER CONFIG (body.mode picks the bot; default the last started)
 export const updateAutoTraderConfig = async (request: FastifyRequest, reply: FastifyReply) => {
-    const updates = request.body as Record<string, any>;
+    const { mode, ...updates } = (request.body || {}) as Record<string, any>;
     try {
-        const config = AutoTraderService.updateConfig(updates);
+        if (mode !== undefined && !AutoTraderService.isMode(mode)) {
+            return reply.status(400).send({ error: 'mode must be one of: AGGRESSIVE, BALANCED, CONSERVATIVE' });
+        }
+        const config = AutoTraderService.updateConfig(mode || AutoTraderService.getConfig().mode, updates);
         return reply.send({ success: true, data: config });
     } catch (error) {
         request.log.error(error);
@@ -802,4 +948,383 @@ export const getLastSignal = async (request: FastifyRequest, reply: FastifyReply
         request.log.error(error);
         return reply.status(500).send({ error: 'Failed to get last signal.' });
     }
-};
\ No newline at end of file
+};
+
+// ============ CANDLES ============
+
+// 53. GET OHLCV CANDLES FOR CHARTS
+export const getCandles = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { ticker } = request.params as { ticker: string };
+    const { tf = '5m', limit = 300 } = request.query as { tf?: string; limit?: number };
+    try {
+        if (!CandleService.isTimeframe(tf)) {
+            return reply.status(400).send({ error: 'Invalid timeframe. Use one of: 1m, 5m, 15m, 1h, 1d' });
+        }
+        const candles = await CandleService.getCandles(ticker, tf, Math.min(Number(limit) || 300, 1000));
+        return reply.send({ success: true, data: candles });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get candles.' });
+    }
+};
+
+// ============ ORDER BOOK ============
+
+// 54. GET ORDER BOOK METRICS (all tickers, sorted by |imbalance|)
+export const getOrderBooks = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const books = OrderBookService.getAllMetrics();
+        return reply.send({ success: true, data: books });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get order books.' });
+    }
+};
+
+// 55. GET ORDER BOOK METRICS FOR ONE TICKER (?venue=coinbase|kraken)
+export const getOrderBook = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { ticker } = request.params as { ticker: string };
+    const { venue } = request.query as { venue?: Venue };
+    try {
+        const book = OrderBookService.getMetrics(ticker, venue);
+        if (!book) {
+            return reply.status(404).send({ error: `No live order book for ${ticker}` });
+        }
+        return reply.send({ success: true, data: book });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get order book.' });
+    }
+};
+
+// ============ ASSET REGISTRY ============
+
+// 56. LIST ASSETS (enabled and disabled)
+export const getAssets = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        return reply.send({ success: true, data: AssetRegistryService.getAll() });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get assets.' });
+    }
+};
+
+// 57. ADD / UPDATE ASSET (ingestor resubscribes, services pick it up on their next cycle)
+export const upsertAsset = async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = request.body as AssetInput;
+    try {
+        if (!body?.symbol || !/^[A-Za-z0-9]{1,15}$/.test(body.symbol)) {
+            return reply.status(400).send({ error: 'Missing or invalid field: symbol' });
+        }
+        if (body.newsKeywords !== undefined && !Array.isArray(body.newsKeywords)) {
+            return reply.status(400).send({ error: 'newsKeywords must be an array of strings' });
+        }
+        const asset = await AssetRegistryService.upsert(body);
+        return reply.send({ success: true, data: asset });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to save asset.' });
+    }
+};
+
+// 58. DISABLE ASSET
+export const disableAsset = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { symbol } = request.params as { symbol: string };
+    try {
+        const asset = await AssetRegistryService.setEnabled(symbol, false);
+        if (!asset) {
+            return reply.status(404).send({ error: `Unknown asset ${symbol}` });
+        }
+        return reply.send({ success: true, data: asset });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to disable asset.' });
+    }
+};
+
+// 59. RE-ENABLE ASSET
+export const enableAsset = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { symbol } = request.params as { symbol: string };
+    try {
+        const asset = await AssetRegistryService.setEnabled(symbol, true);
+        if (!asset) {
+            return reply.status(404).send({ error: `Unknown asset ${symbol}` });
+        }
+        return reply.send({ success: true, data: asset });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to enable asset.' });
+    }
+};
+
+// ============ MULTI-TIMEFRAME ============
+
+// 61. MTF CONFLUENCE TABLE (1m/5m/15m/1h force and trend per ticker)
+export const getMultiTimeframe = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const summary = await MultiTimeframeService.getMultiTimeframeSummary();
+        return reply.send({ success: true, data: summary });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get multi-timeframe summary.' });
+    }
+};
+
+// 62. MTF HISTORY FOR ONE TICKER (?hours=24&tf=5m)
+export const getMultiTimeframeHistory = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { ticker } = request.params as { ticker: string };
+    const { hours = 24, tf } = request.query as { hours?: number; tf?: string };
+    try {
+        if (tf && !MultiTimeframeService.isTimeframe(tf)) {
+            return reply.status(400).send({ error: 'Invalid timeframe. Use one of: 1m, 5m, 15m, 1h' });
+        }
+        const history = await MultiTimeframeService.getHistory(
+            CandleService.normalizeTicker(ticker),
+            Math.min(Number(hours) || 24, 24 * 7),
+            tf as MtfTimeframe | undefined
+        );
+        return reply.send({ success: true, data: history });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get multi-timeframe history.' });
+    }
+};
+
+// 63. CONFLUENCE GATE STATS (gated vs. ungated win rate, by agreeing timeframes)
+export const getConfluenceStats = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const stats = await PaperService.getConfluenceStats();
+        return reply.send({ success: true, data: stats });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get confluence stats.' });
+    }
+};
+
+// ============ PAPER PORTFOLIO ============
+
+// 64. PORTFOLIO: Cash, equity, margin and marked positions (?account=SNIPER, ?ledger=50 adds recent entries)
+export const getPortfolio = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account = 'SNIPER', ledger } = request.query as { account?: string; ledger?: number };
+    try {
+        if (!isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const portfolio = await PortfolioService.getPortfolio(account);
+        if (!portfolio) {
+            return reply.status(503).send({ error: 'Paper account not loaded.' });
+        }
+        const entries = ledger ? await PortfolioService.getLedger(account, Math.min(Number(ledger) || 50, 500)) : undefined;
+        return reply.send({ success: true, data: { ...portfolio, ledger: entries } });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get portfolio.' });
+    }
+};
+
+// 65. EQUITY CURVE (?account=SNIPER&hours=24)
+export const getEquityCurve = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account = 'SNIPER', hours = 24 } = request.query as { account?: string; hours?: number };
+    try {
+        if (!isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const curve = await PortfolioService.getEquityCurve(account, Math.min(Number(hours) || 24, 24 * 365));
+        return reply.send({ success: true, data: curve });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get equity curve.' });
+    }
+};
+
+// 66. STRATEGY LEADERBOARD: Every paper account ranked by return, with whether it's trading
+export const getStrategyLeaderboard = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const standings = await PortfolioService.getLeaderboard();
+        const bots = AutoTraderService.getBots();
+        const data = standings.map(s => ({
+            ...s,
+            running: s.account === 'SNIPER'
+                ? ConfigService.isPaperTradingAllowed()
+                : bots.find(b => b.mode === s.account)?.stats.isRunning ?? false
+        }));
+        return reply.send({ success: true, data });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get strategy leaderboard.' });
+    }
+};
+
+// ============ PAPER ORDERS ============
+
+// 67. PLACE ORDER: MARKET, LIMIT, STOP, STOP_LIMIT, or OCO on an open position (tradeId).
+// takeProfit / stopLoss on an entry add bracket exit legs.
+export const placePaperOrder = async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Partial<OrderRequest>;
+    try {
+        const account = body.account ?? 'SNIPER';
+        if (!isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const invalid = PaperOrderService.validateOrder(body);
+        if (invalid) {
+            return reply.status(400).send({ error: invalid });
+        }
+        const placement = await PaperOrderService.placeOrder({
+            ...body as OrderRequest,
+            account,
+            ticker: body.ticker!.toUpperCase().replace(/[-/]/g, ''),
+            source: 'API'
+        });
+        if (!placement.accepted) {
+            return reply.status(400).send({ error: placement.reason });
+        }
+        return reply.send({ success: true, data: placement.orders });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to place order.' });
+    }
+};
+
+// 68. ORDERS: Newest first with their fills (?account=SNIPER, ?status=working, ?limit=100)
+export const getPaperOrders = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { account, status, limit } = request.query as { account?: string; status?: string; limit?: number };
+    try {
+        if (account !== undefined && !isAccountName(account)) {
+            return reply.status(400).send({ error: ACCOUNT_ERROR });
+        }
+        const orders = await PaperOrderService.getOrders(account, status === 'working', Math.min(Number(limit) || 100, 500));
+        return reply.send({ success: true, data: orders });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get orders.' });
+    }
+};
+
+// 69. CANCEL ORDER (a bracket entry that hasn't filled takes its exit legs with it)
+export const cancelPaperOrder = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    try {
+        const orderId = Number(id);
+        if (!Number.isInteger(orderId)) {
+            return reply.status(400).send({ error: 'Invalid order id' });
+        }
+        const canceled = await PaperOrderService.cancelOrder(orderId);
+        if (!canceled) {
+            const order = await PaperOrderService.getOrder(orderId);
+            if (!order) {
+                return reply.status(404).send({ error: `Unknown order ${id}` });
+            }
+            return reply.status(409).send({ error: `Order ${id} is already ${order.status}` });
+        }
+        return reply.send({ success: true, data: canceled });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to cancel order.' });
+    }
+};
+
+// 70. LIVE STATUS: Limits, which exchange, and its balances
+export const getLiveStatus = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+        const status = LiveTradingService.getStatus();
+        const balances = status.hasCredentials ? await LiveTradingService.getBalances() : [];
+        return reply.send({ success: true, data: { ...status, balances } });
+    } catch (error) {
+        request.log.error(error);
+        if (error instanceof ExchangeError) {
+            return reply.status(502).send({ error: `Exchange error: ${error.message}` });
+        }
+        return reply.status(500).send({ error: 'Failed to get live status.' });
+    }
+};
+
+// 71. LIVE TRADE: Market buy (size in USD) or sell of the oldest open position.
+// A buy needs a clientOrderKey: resending the same key never buys twice.
+export const placeLiveTrade = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { ticker, side, size, price, clientOrderKey } = (request.body || {}) as {
+        ticker?: string; side?: string; size?: number; price?: number; clientOrderKey?: string
+    };
+    try {
+        if (typeof ticker !== 'string' || !ticker) {
+            return reply.status(400).send({ error: 'ticker is required' });
+        }
+        if (side !== 'buy' && side !== 'sell') {
+            return reply.status(400).send({ error: 'side must be buy or sell' });
+        }
+        if (typeof price !== 'number' || !(price > 0)) {
+            return reply.status(400).send({ error: 'price must be a positive number' });
+        }
+        if (side === 'buy' && (typeof size !== 'number' || !(size > 0))) {
+            return reply.status(400).send({ error: 'size (USD) must be a positive number' });
+        }
+        if (side === 'buy' && (typeof clientOrderKey !== 'string' || !clientOrderKey.trim())) {
+            return reply.status(400).send({ error: 'clientOrderKey is required to buy (the same key is never sent twice)' });
+        }
+        const executed = await LiveTradingService.executeTrade({
+            ticker: ticker.toUpperCase(), side, size: size || 0, price, signalId: clientOrderKey?.trim()
+        });
+        if (!executed) {
+            return reply.status(409).send({ error: 'Live trade not executed (blocked, rejected or unfilled; see logs)' });
+        }
+        return reply.send({ success: true, data: { ticker, side } });
+    } catch (error) {
+        request.log.error(error);
+        if (error instanceof ExchangeError) {
+            return reply.status(502).send({ error: `Exchange error: ${error.message}` });
+        }
+        return reply.status(500).send({ error: 'Failed to place live trade.' });
+    }
+};
+
+// 72. LIVE ORDERS: Newest first, with their lifecycle state (?limit=100)
+export const getLiveOrders = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { limit } = request.query as { limit?: number };
+    try {
+        const orders = await LiveOrderService.getOrders(Math.min(Number(limit) || 100, 500));
+        return reply.send({ success: true, data: orders });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get live orders.' });
+    }
+};
+
+// 73. LIVE ORDER: One order and every state transition it went through
+export const getLiveOrder = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    try {
+        const orderId = Number(id);
+        if (!Number.isInteger(orderId)) {
+            return reply.status(400).send({ error: 'Invalid order id' });
+        }
+        const order = await LiveOrderService.getOrder(orderId);
+        if (!order) {
+            return reply.status(404).send({ error: `Unknown live order ${id}` });
+        }
+        return reply.send({ success: true, data: order });
+    } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: 'Failed to get live order.' });
+    }
+};
+
+// 74. LIVE RECONCILIATION: Latest books-vs-exchange diff and recent mismatches (?refresh=true runs one now)
+export const getLiveReconciliation = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { refresh } = request.query as { refresh?: string };
+    try {
+        if (refresh === 'true') {
+            if (!LiveTradingService.isEnabled() || !LiveTradingService.isReconciled()) {
+                return reply.status(409).send({ error: 'Live trading not enabled or live orders not yet reconciled' });
+            }
+            await LiveReconcilerService.reconcile();
+        }
+        const recent = await LiveReconcilerService.getDiscrepancies();
+        return reply.send({ success: true, data: { latest: LiveReconcilerService.getLatest(), recent } });
+    } catch (error) {
+        request.log.error(error);
+        if (error instanceof ExchangeError) {
+            return reply.status(502).send({ error: `Exchange error: ${error.message}` });
+        }
+        return reply.status(500).send({ error: 'Failed to get live reconciliation.' });
+    }
+};
@@ -7,14 +7,20 @@ import {
     getVapidPublicKey, subscribePush, unsubscribePush, testPushNotification,
     getWhaleAlerts, getWhaleSummary, getWhaleSignal,
     getCorrelationMatrix, getTopCorrelations, getAssetCorrelations, getAntiCorrelations,
-    runQuickBacktest, runCustomBacktest,
+    runQuickBacktest, runCustomBacktest, compareBacktestFilters,
     getTwitterSentiment, getTwitterAssetSentiment, getTwitterTrending,
     getMLPredictions, getMLAssetPrediction, getMLHighConfidence,
     getOnChainMetrics, getOnChainAssetMetrics, getNetworkSummary,
     getFearGreedIndex, getFearGreedHistory, getMarketMood,
     getOptionsMetrics, getOptionsAssetMetrics, getUnusualOptionsFlows, getOptionsMarketSentiment,
     createPriceAlert, getActiveAlerts, getAlertsByTicker, deletePriceAlert, getAlertStats, getTriggeredAlerts,
-    startAutoTrader, stopAutoTrader, getAutoTraderStatus, updateAutoTraderConfig, analyzeAssetSignal, getLastSignal
+    startAutoTrader, stopAutoTrader, getAutoTraderStatus, updateAutoTraderConfig, analyzeAssetSignal, getLastSignal,
+    getCandles, getOrderBooks, getOrderBook,
+    getAssets, upsertAsset, disableAsset, enableAsset,
+    getMultiTimeframe, getMultiTimeframeHistory, getConfluenceStats,
+    getPortfolio, getEquityCurve, getStrategyLeaderboard,
+    placePaperOrder, getPaperOrders, cancelPaperOrder,
+    getLiveStatus, placeLiveTrade, getLiveOrders, getLiveOrder, getLiveReconciliation
 } from '../controllers/sentiment.controller';
 import { authHook, AuthService } from '../../shared/auth.service';
 
@@ -25,6 +31,24 @@ export default async function sentimentRoutes(fastify: FastifyInstance) {
     fastify.get('/stats', getPaperStats);        // Sniper: Performance stats
     fastify.get('/pnl-history', getPnLHistory);  // P&L chart data
     fastify.get('/archive', getHijackArchive);   // Historical hijacks
+    fastify.get('/archive/confluence', getConfluenceStats); // Gated vs. ungated win rates
+    
+    // PAPER PORTFOLIO (per strategy account: cash ledger, mark-to-market equity, buying power)
+    fastify.get('/portfolio', getPortfolio);
+    fastify.get('/portfolio/equity-curve', getEquityCurve);
+    fastify.get('/portfolio/leaderboard', getStrategyLeaderboard); // Sniper vs. operator modes
+    
+    // PAPER ORDERS (limit / stop / stop-limit / OCO / bracket, matched on live ticks)
+    fastify.post('/orders', placePaperOrder);
+    fastify.get('/orders', getPaperOrders);
+    fastify.delete('/orders/:id', cancelPaperOrder);
+    
+    // LIVE TRADING (Coinbase Advanced Trade, or the in-process mock with LIVE_EXCHANGE=mock)
+    fastify.get('/live/status', getLiveStatus);
+    fastify.post('/live/trades', { preHandler: authHook }, placeLiveTrade);
+    fastify.get('/live/orders', getLiveOrders);
+    fastify.get('/live/orders/:id', getLiveOrder);   // With state transitions
+    fastify.get('/live/reconciliation', getLiveReconciliation);   // ?refresh=true to run one now
     
     // CSV EXPORTS
     fastify.get('/export/trades', exportTradesCSV);
@@ -58,6 +82,7 @@ export default async function sentimentRoutes(fastify: FastifyInstance) {
     // BACKTESTING
     fastify.get('/backtest/quick', runQuickBacktest);
     fastify.post('/backtest/custom', runCustomBacktest);
+    fastify.post('/backtest/filters', compareBacktestFilters); // Trade count / P&L per price filter
     
     // TWITTER SENTIMENT
     fastify.get('/twitter', getTwitterSentiment);
@@ -101,6 +126,23 @@ export default async function sentimentRoutes(fastify: FastifyInstance) {
     fastify.get('/autotrader/signal/:ticker', analyzeAssetSignal);
     fastify.get('/autotrader/signal', getLastSignal);
     
+    // OHLCV CANDLES (?tf=1m|5m|15m|1h|1d)
+    fastify.get('/candles/:ticker', getCandles);
+    
+    // LEVEL-2 ORDER BOOK (spread, depth within 1%, bid/ask imbalance)
+    fastify.get('/orderbook', getOrderBooks);
+    fastify.get('/orderbook/:ticker', getOrderBook);
+    
+    // ASSET REGISTRY (runtime add / disable)
+    fastify.get('/assets', getAssets);
+    fastify.post('/assets', upsertAsset);
+    fastify.post('/assets/:symbol/disable', disableAsset);
+    fastify.post('/assets/:symbol/enable', enableAsset);
+    
+    // MULTI-TIMEFRAME FORCE (1m/5m/15m/1h confluence, snapshotted every minute)
+    fastify.get('/mtf', getMultiTimeframe);
+    fastify.get('/mtf/:ticker/history', getMultiTimeframeHistory);
+    
     // AUTH MANAGEMENT (For future external API access)
     fastify.get('/auth/keys', { preHandler: authHook }, async (req, reply) => {
         const permissions = (req as any).permissions;
@@ -4,6 +4,7 @@ import fastifyStatic from '@fastify/static';
 import sentimentRoutes from './routes/sentiment.routes';
 import dotenv from 'dotenv';
 import { IngestorService } from '../modules/ingestor/ingestor.service';
+import { AssetRegistryService } from '../modules/assets/asset-registry.service';
 import { TelegramService } from '../modules/notifications/telegram.service';
 import { NewsService } from '../modules/news/news.service';
 import { WebSocketService } from '../modules/websocket/websocket.service';
@@ -12,6 +13,18 @@ import { TwitterService } from '../modules/sentiment/twitter.service';
 import { OnChainService } from '../modules/analytics/onchain.service';
 import { OptionsFlowService } from '../modules/analytics/options-flow.service';
 import { AlertsService } from '../modules/notifications/alerts.service';
+import { FeedHealthService } from '../modules/ingestor/feed-health.service';
+import { TickRecorderService } from '../modules/ingestor/tick-recorder.service';
+import { TickBufferService } from '../modules/ingestor/tick-buffer.service';
+import { CandleService } from '../modules/analytics/candle.service';
+import { LeaderboardStreamService } from '../modules/sentiment/leaderboard-stream.service';
+import { WorkerPoolService } from '../modules/sentiment/worker-pool.service';
+import { MultiTimeframeService } from '../modules/sentiment/multi-timeframe.service';
+import { PortfolioService } from '../modules/execution/portfolio.service';
+import { PaperOrderService } from '../modules/execution/paper-order.service';
+import { AutoTraderService } from '../modules/execution/autotrader.service';
+import { LiveTradingService } from '../modules/execution/live.service';
+import { LiveReconcilerService } from '../modules/execution/live-reconciler.service';
 
 dotenv.config();
 
@@ -37,7 +50,12 @@ fastify.get('/health', async (req, reply) => {
         status: 'alive', 
         timestamp: new Date().toISOString(),
         telegram: TelegramService.isConfigured() ? 'configured' : 'not configured',
-        websocket_clients: WebSocketService.getClientCount()
+        websocket_clients: WebSocketService.getClientCount(),
+        tick_buffer: TickBufferService.getStats(),
+        feeds: FeedHealthService.getStatus(),
+        recorder: TickRecorderService.getStats(),
+        leaderboard: LeaderboardStreamService.getStats(),
+        workers: WorkerPoolService.getStats()
     });
 });
 
@@ -68,8 +86,28 @@ const start = async () => {
         console.log(`[Telegram] Status: ${TelegramService.isConfigured() ? '✅ Ready' : '⚠️ Not configured'}`);
         console.log(`[WebSocket] Ready at ws://localhost:${port}/ws`);
 
+        // Asset universe first - every stream below reads it
+        await AssetRegistryService.load();
+
+        // Paper accounts before anything can trade against them, and resting
+        // orders back in the matcher before the first tick
+        await PortfolioService.init();
+        await PaperOrderService.start();
+        AutoTraderService.startExitManager(); // TP/SL/trailing for operator positions, bots running or not
+
+        // Live orders a crash left in flight get reconciled with the exchange
+        // before canTrade lets anything new through (retries in the background)
+        LiveTradingService.start();
+
+        // Leaderboard windows seeded before live ticks start landing in them
+        await LeaderboardStreamService.start();
+
         // Start Data Streams
         IngestorService.startIngestion();
+        CandleService.start(); // OHLCV candle builder + back-fill
+        MultiTimeframeService.start(); // 1m/5m/15m/1h force snapshots
+        PortfolioService.start(); // Paper funding + equity snapshots
+        LiveReconcilerService.start(); // Live books vs. exchange balances (live trading only)
         NewsService.startScanning(); // Phase 6: Narrative Velocity
         WhaleService.startMonitoring(); // Whale alerts
         TwitterService.startScanning(); // Twitter sentiment
@@ -1,9 +1,25 @@
-import { query } from '../../shared/db';
+import { MarketDataModel, MarketTrade } from '../market/market-data.model';
+import { calculateAcceleration } from '../../shared/finite-difference.util';
+import { PRICE_FILTERS, PriceFilter, smoothSeries } from '../../shared/signal-filters.util';
+import { WorkerPoolService } from '../sentiment/worker-pool.service';
+import { ConfigService } from '../../shared/config.service';
+import { CostModel, FillCost, estimateFill, partialFill, roundTripPnL } from '../../shared/execution-cost.util';
+import {
+    KELLY_LOOKBACK_TRADES, SizingConfig, SizingDecision, averageTrueRange, sizePosition, summarizeHistory
+} from '../../shared/position-sizing.util';
+import { ExitLadder, breakEvenStop, ladderExit } from '../../shared/exit-ladder.util';
+import { TIMEFRAME_SECONDS } from './candle.service';
 
 // BACKTESTING ENGINE
-// Test the hijack force strategy on historical data
-
-interface BacktestConfig {
+// Test the hijack force strategy on historical data. Fills go through the
+// same execution-cost model as paper trading (no book history, so spread and
+// slippage come from the configured bps); P&L is net, with gross alongside.
+// Entries are sized like paper trades, against a simulated account that
+// starts at startingEquity and compounds realized P&L; ATR comes from bars
+// rolled out of the replayed prints, Kelly from the backtest's own trades.
+// Exits follow the same ladder as paper trading; each leg is its own trade.
+
+export interface BacktestConfig {
     startDate: Date;
     endDate: Date;
     entryThreshold: number;
@@ -12,21 +28,33 @@ interface BacktestConfig {
     takeProfitPercent: number;
     tradeSizeUsd: number;
     tickers?: string[];  // Optional: specific tickers to test
+    venues?: string[];   // Optional: specific exchanges (default: all, merged)
+    filter?: PriceFilter; // Optional: price smoothing before S'' (default: none)
+    costs?: CostModel;    // Optional: fee/spread/slippage (default: current runtime config)
+    sizing?: SizingConfig; // Optional: position sizing (default: current runtime config)
+    startingEquity?: number; // Optional: simulated account for equity-based sizing (default: 10k)
+    exitLadder?: ExitLadder; // Optional: scale-out targets (default: current runtime config)
 }
 
-interface BacktestTrade {
+export interface BacktestTrade {
     ticker: string;
-    entryPrice: number;
+    entryPrice: number;       // Fill prices (after spread and slippage)
     exitPrice: number;
     entryTime: Date;
     exitTime: Date;
     forceAtEntry: number;
-    pnlPercent: number;
-    pnlUsd: number;
+    pnlPercent: number;       // Net, on the entry notional
+    pnlUsd: number;           // Net
+    grossPnlUsd: number;      // At tick prices, before costs
+    fees: number;
+    executionCost: number;    // Spread + slippage
+    sizeUsd: number;          // Entry notional (of this leg)
+    sizingMethod: string;
+    sizing: string;           // Why this size
     exitReason: string;
 }
 
-interface BacktestResult {
+export interface BacktestResult {
     config: BacktestConfig;
     trades: BacktestTrade[];
     summary: {
@@ -34,7 +62,10 @@ interface BacktestResult {
         wins: number;
         losses: number;
         winRate: number;
-        totalPnL: number;
+        totalPnL: number;         // Net
+        grossPnL: number;
+        totalFees: number;
+        totalExecutionCost: number;
         averagePnL: number;
         maxWin: number;
         maxLoss: number;
@@ -45,42 +76,65 @@ interface BacktestResult {
     equity: { date: string; value: number }[];
 }
 
-// Standard Finite Difference for Acceleration (same as sentiment service)
-function calculateAcceleration(data: number[], h: number = 1): number[] {
-    const acceleration: number[] = [];
-    if (data.length < 3) return [];
-    
-    for (let i = 1; i < data.length - 1; i++) {
-        const s_prev = data[i - 1];
-        const s_curr = data[i];
-        const s_next = data[i + 1];
-        const secondDerivative = (s_next - (2 * s_curr) + s_prev) / (h ** 2);
-        acceleration.push(secondDerivative);
-    }
-    return acceleration;
+// One row per filter, same data and thresholds
+export interface FilterComparison {
+    filter: PriceFilter;
+    totalTrades: number;
+    winRate: number;
+    totalPnL: number;       // Net
+    grossPnL: number;
+    profitFactor: number;
+    maxDrawdown: number;
+    tradesVsNone: number;   // Trade count change vs. unfiltered
+    pnlVsNone: number;      // P&L change vs. unfiltered (USD)
 }
 
+const DEFAULT_STARTING_EQUITY = 10_000;
+const BARS_KEPT = 32;   // Enough for the ATR period
+
 export const BacktestService = {
-    // Run backtest with given configuration
+    // Run backtest with given configuration: fetch here, simulate on a worker thread
     runBacktest: async (config: BacktestConfig): Promise<BacktestResult> => {
+        const historicalData = await BacktestService.fetchHistoricalData(
+            config.startDate,
+            config.endDate,
+            config.tickers,
+            config.venues
+        );
+
+        // Runtime config lives on the main thread; the worker gets a copy
+        const costs = config.costs || ConfigService.getCostModel();
+        const sizing = config.sizing || ConfigService.getSizingConfig();
+        const exitLadder = config.exitLadder || ConfigService.getExitLadder();
+        return WorkerPoolService.run('BACKTEST', { config: { ...config, costs, sizing, exitLadder }, data: historicalData });
+    },
+
+    // Pure simulation over already-fetched trades (runs inside the worker)
+    simulate: (config: BacktestConfig, historicalData: MarketTrade[]): BacktestResult => {
         const trades: BacktestTrade[] = [];
+        const costs = config.costs || ConfigService.getCostModel();
+        const sizing = config.sizing || ConfigService.getSizingConfig();
+        const ladder = config.exitLadder || ConfigService.getExitLadder();
+        const startingEquity = config.startingEquity ?? DEFAULT_STARTING_EQUITY;
+        let realizedPnL = 0;
         const openPositions: Map<string, { 
-            entryPrice: number; 
+            entry: FillCost;
             entryTime: Date; 
             force: number;
             highWaterMark: number;
+            sizing: SizingDecision;
+            quantity: number;         // Still open, after any ladder legs
+            step: number;             // Ladder rungs taken
+            stop: number | null;      // Break-even stop, once armed
         }> = new Map();
 
-        // Fetch historical data
-        const historicalData = await BacktestService.fetchHistoricalData(
-            config.startDate,
-            config.endDate,
-            config.tickers
-        );
+        // OHLC bars per ticker on the sizing ATR timeframe (only the last few kept)
+        const barMs = TIMEFRAME_SECONDS[sizing.atrTimeframe] * 1000;
+        const bars: Map<string, { start: number; high: number; low: number; close: number }[]> = new Map();
 
         // Process data chronologically
         const sortedData = historicalData.sort((a, b) => 
-            new Date(a.time).getTime() - new Date(b.time).getTime()
+            a.time.getTime() - b.time.getTime()
         );
 
         // Group by ticker for force calculation
@@ -88,9 +142,9 @@ export const BacktestService = {
 
         for (const dataPoint of sortedData) {
             const ticker = dataPoint.ticker;
-            const price = parseFloat(dataPoint.price);
-            const volume = parseFloat(dataPoint.volume);
-            const time = new Date(dataPoint.time);
+            const price = dataPoint.price;
+            const volume = dataPoint.size;
+            const time = dataPoint.time;
 
             // Build price history
             if (!priceHistory.has(ticker)) {
@@ -102,10 +156,24 @@ export const BacktestService = {
             const history = priceHistory.get(ticker)!;
             if (history.length > 50) history.shift();
 
+            // Roll the print into the current ATR bar
+            if (!bars.has(ticker)) bars.set(ticker, []);
+            const tickerBars = bars.get(ticker)!;
+            const barStart = Math.floor(time.getTime() / barMs) * barMs;
+            const bar = tickerBars[tickerBars.length - 1];
+            if (bar && bar.start === barStart) {
+                bar.high = Math.max(bar.high, price);
+                bar.low = Math.min(bar.low, price);
+                bar.close = price;
+            } else {
+                tickerBars.push({ start: barStart, high: price, low: price, close: price });
+                if (tickerBars.length > BARS_KEPT) tickerBars.shift();
+            }
+
             // Calculate hijack force
             if (history.length >= 3) {
-                const prices = history.map(h => h.price);
-                const accelerations = calculateAcceleration(prices);
+                const prices = history.map(h => ({ value: h.price, time: h.time }));
+                const accelerations = calculateAcceleration(smoothSeries(prices, config.filter || 'none'));
                 const currentAccel = accelerations[accelerations.length - 1] || 0;
                 const safeVolume = volume > 1 ? Math.log10(volume) : 0;
                 const hijackForce = Math.abs(currentAccel) * safeVolume;
@@ -113,7 +181,8 @@ export const BacktestService = {
                 // Check for exits first
                 if (openPositions.has(ticker)) {
                     const position = openPositions.get(ticker)!;
-                    const pnlPercent = ((price - position.entryPrice) / position.entryPrice) * 100;
+                    const entryPrice = position.entry.fillPrice;
+                    const pnlPercent = ((price - entryPrice) / entryPrice) * 100;
                     
                     // Update high water mark
                     if (price > position.highWaterMark) {
@@ -122,11 +191,23 @@ export const BacktestService = {
 
                     let shouldExit = false;
                     let exitReason = '';
+                    let exitQuantity = position.quantity;
+
+                    const ladderStep = ladder.rungs.length > 0
+                        ? ladderExit(ladder, { step: position.step, baseQuantity: position.entry.quantity, openQuantity: position.quantity }, pnlPercent)
+                        : null;
 
                     // Exit conditions
-                    if (pnlPercent >= config.takeProfitPercent) {
+                    if (ladderStep) {
+                        shouldExit = true;
+                        exitReason = ladderStep.reason;
+                        exitQuantity = ladderStep.quantity;
+                    } else if (ladder.rungs.length === 0 && pnlPercent >= config.takeProfitPercent) {
                         shouldExit = true;
                         exitReason = 'TAKE_PROFIT';
+                    } else if (position.stop !== null && price <= position.stop) {
+                        shouldExit = true;
+                        exitReason = 'BREAK_EVEN_STOP';
                     } else if (pnlPercent <= config.stopLossPercent) {
                         shouldExit = true;
                         exitReason = 'STOP_LOSS';
@@ -136,61 +217,114 @@ export const BacktestService = {
                     }
 
                     if (shouldExit) {
-                        const pnlUsd = (price - position.entryPrice) * (config.tradeSizeUsd / position.entryPrice);
+                        const entry = partialFill(position.entry, exitQuantity);
+                        const exit = estimateFill('sell', price, exitQuantity, costs);
+                        const pnl = roundTripPnL(1, entry, exit);
                         
                         trades.push({
                             ticker,
-                            entryPrice: position.entryPrice,
-                            exitPrice: price,
+                            entryPrice,
+                            exitPrice: exit.fillPrice,
                             entryTime: position.entryTime,
                             exitTime: time,
                             forceAtEntry: position.force,
-                            pnlPercent,
-                            pnlUsd,
+                            pnlPercent: (pnl.net / entry.notional) * 100,
+                            pnlUsd: pnl.net,
+                            grossPnlUsd: pnl.gross,
+                            fees: pnl.fees,
+                            executionCost: pnl.executionCost,
+                            sizeUsd: entry.notional,
+                            sizingMethod: position.sizing.method,
+                            sizing: position.sizing.rationale,
                             exitReason
                         });
-
-                        openPositions.delete(ticker);
+                        realizedPnL += pnl.net;
+
+                        if (ladderStep && !ladderStep.closesAll) {
+                            position.quantity -= exitQuantity;
+                            position.step = ladderStep.step;
+                            position.stop = position.stop ?? breakEvenStop(ladder, ladderStep.step, entryPrice);
+                        } else {
+                            openPositions.delete(ticker);
+                        }
                     }
                 }
 
                 // Check for entry
                 if (!openPositions.has(ticker) && hijackForce > config.entryThreshold) {
-                    openPositions.set(ticker, {
-                        entryPrice: price,
-                        entryTime: time,
-                        force: hijackForce,
-                        highWaterMark: price
+                    const decision = sizePosition(sizing, {
+                        price,
+                        equity: startingEquity + realizedPnL,
+                        fixedUsd: config.tradeSizeUsd,
+                        atr: averageTrueRange(tickerBars),
+                        history: sizing.method === 'kelly'
+                            ? summarizeHistory(trades.slice(-KELLY_LOOKBACK_TRADES).map(t => t.pnlUsd))
+                            : null
                     });
+
+                    if (decision.quantity > 0) {
+                        openPositions.set(ticker, {
+                            entry: estimateFill('buy', price, decision.quantity, costs),
+                            entryTime: time,
+                            force: hijackForce,
+                            highWaterMark: price,
+                            sizing: decision,
+                            quantity: decision.quantity,
+                            step: 0,
+                            stop: null
+                        });
+                    }
                 }
             }
         }
 
-        // Calculate summary
-        const summary = BacktestService.calculateSummary(trades, config.tradeSizeUsd);
-        const equity = BacktestService.calculateEquityCurve(trades, config.tradeSizeUsd);
+        // Calculate summary (fixed sizing keeps measuring against one trade's size)
+        const capital = sizing.method === 'fixed' ? config.tradeSizeUsd : startingEquity;
+        const summary = BacktestService.calculateSummary(trades, capital);
+        const equity = BacktestService.calculateEquityCurve(trades, capital);
 
         return { config, trades, summary, equity };
     },
 
-    // Fetch historical data from database
-    fetchHistoricalData: async (startDate: Date, endDate: Date, tickers?: string[]) => {
-        let sql = `
-            SELECT ticker, sentiment_score as price, volume, time
-            FROM sentiment_metrics
-            WHERE time >= $1 AND time <= $2
-        `;
-        const params: any[] = [startDate.toISOString(), endDate.toISOString()];
-
-        if (tickers && tickers.length > 0) {
-            sql += ` AND ticker = ANY($3)`;
-            params.push(tickers);
-        }
+    // Same backtest under every filter, to see what smoothing does to trade count and P&L
+    compareFilters: async (config: BacktestConfig): Promise<FilterComparison[]> => {
+        const historicalData = await BacktestService.fetchHistoricalData(
+            config.startDate,
+            config.endDate,
+            config.tickers,
+            config.venues
+        );
 
-        sql += ` ORDER BY time ASC`;
+        const costs = config.costs || ConfigService.getCostModel();
+        const sizing = config.sizing || ConfigService.getSizingConfig();
+        const exitLadder = config.exitLadder || ConfigService.getExitLadder();
+        return WorkerPoolService.run('BACKTEST_FILTERS', { config: { ...config, costs, sizing, exitLadder }, data: historicalData });
+    },
+
+    // Pure comparison over already-fetched trades (runs inside the worker)
+    simulateFilters: (config: BacktestConfig, historicalData: MarketTrade[]): FilterComparison[] => {
+        const results = PRICE_FILTERS.map(filter => ({
+            filter,
+            summary: BacktestService.simulate({ ...config, filter }, historicalData.slice()).summary
+        }));
+        const baseline = results.find(r => r.filter === 'none')!.summary;
+
+        return results.map(({ filter, summary }) => ({
+            filter,
+            totalTrades: summary.totalTrades,
+            winRate: summary.winRate,
+            totalPnL: summary.totalPnL,
+            grossPnL: summary.grossPnL,
+            profitFactor: summary.profitFactor,
+            maxDrawdown: summary.maxDrawdown,
+            tradesVsNone: summary.totalTrades - baseline.totalTrades,
+            pnlVsNone: Math.round((summary.totalPnL - baseline.totalPnL) * 100) / 100
+        }));
+    },
 
-        const result = await query(sql, params);
-        return result.rows;
+    // Fetch historical data from database
+    fetchHistoricalData: async (startDate: Date, endDate: Date, tickers?: string[], venues?: string[]) => {
+        return MarketDataModel.getTradesBetween(startDate, endDate, tickers, venues);
     },
 
     // Calculate performance summary
@@ -202,6 +336,9 @@ export const BacktestService = {
                 losses: 0,
                 winRate: 0,
                 totalPnL: 0,
+                grossPnL: 0,
+                totalFees: 0,
+                totalExecutionCost: 0,
                 averagePnL: 0,
                 maxWin: 0,
                 maxLoss: 0,
@@ -215,6 +352,9 @@ export const BacktestService = {
         const losses = trades.filter(t => t.pnlUsd <= 0);
 
         const totalPnL = trades.reduce((sum, t) => sum + t.pnlUsd, 0);
+        const grossPnL = trades.reduce((sum, t) => sum + t.grossPnlUsd, 0);
+        const totalFees = trades.reduce((sum, t) => sum + t.fees, 0);
+        const totalExecutionCost = trades.reduce((sum, t) => sum + t.executionCost, 0);
         const grossProfit = wins.reduce((sum, t) => sum + t.pnlUsd, 0);
         const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnlUsd, 0));
 
@@ -243,6 +383,9 @@ export const BacktestService = {
             losses: losses.length,
             winRate: Math.round((wins.length / trades.length) * 100 * 10) / 10,
             totalPnL: Math.round(totalPnL * 100) / 100,
+            grossPnL: Math.round(grossPnL * 100) / 100,
+            totalFees: Math.round(totalFees * 100) / 100,
+            totalExecutionCost: Math.round(totalExecutionCost * 100) / 100,
             averagePnL: Math.round((totalPnL / trades.length) * 100) / 100,
             maxWin: Math.round(Math.max(...trades.map(t => t.pnlUsd)) * 100) / 100,
             maxLoss: Math.round(Math.min(...trades.map(t => t.pnlUsd)) * 100) / 100,
@@ -20,6 +20,8 @@ import { FearGreedService } from '../sentiment/fear-greed.service';
 import { TwitterService } from '../sentiment/twitter.service';
 import { OptionsFlowService } from '../analytics/options-flow.service';
 import { OnChainService } from '../analytics/onchain.service';
+import { OrderBookService } from '../ingestor/order-book.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
 import pool from '../../shared/db';
 
 // Brain States - What's happening in the herd's mind
@@ -56,7 +58,7 @@ interface HijackTrigger {
     name: string;
     description: string;
     strength: number;
-    type: 'FOMO' | 'FUD' | 'MOMENTUM' | 'CONTRARIAN' | 'SMART_MONEY' | 'VELOCITY' | 'PATTERN';
+    type: 'FOMO' | 'FUD' | 'MOMENTUM' | 'CONTRARIAN' | 'SMART_MONEY' | 'VELOCITY' | 'PATTERN' | 'ORDER_BOOK';
 }
 
 // Historical state for velocity calculation
@@ -181,7 +183,7 @@ export const BrainScannerService = {
         } catch (e) { /* Skip */ }
         
         // 3. OPTIONS FLOW - What's smart money doing?
-        if (['BTC', 'ETH', 'BTCUSD', 'ETHUSD'].includes(ticker) || ['BTC', 'ETH'].includes(baseTicker)) {
+        if (AssetRegistryService.get(baseTicker)?.hasOptions) {
             try {
                 const options = await OptionsFlowService.getMarketSentiment();
                 
@@ -256,6 +258,29 @@ export const BrainScannerService = {
             }
         } catch (e) { /* Skip */ }
         
+        // 5b. ORDER BOOK - Where is the herd's resting size stacked?
+        const book = OrderBookService.getMetrics(ticker);
+        if (book) {
+            if (book.imbalance >= 0.4) {
+                triggers.push({
+                    name: 'BID_WALL',
+                    description: `Bids outweigh asks ${(book.imbalance * 100).toFixed(0)}% within 1% of mid`,
+                    strength: Math.min(70, 30 + book.imbalance * 50),
+                    type: 'ORDER_BOOK'
+                });
+                smartMoneyScore += 10;
+            } else if (book.imbalance <= -0.4) {
+                triggers.push({
+                    name: 'ASK_WALL',
+                    description: `Asks outweigh bids ${(Math.abs(book.imbalance) * 100).toFixed(0)}% within 1% of mid`,
+                    strength: Math.min(70, 30 + Math.abs(book.imbalance) * 50),
+                    type: 'ORDER_BOOK'
+                });
+                smartMoneyScore -= 10;
+                fearScore = Math.max(fearScore, 35);
+            }
+        }
+        
         // 6. SENTIMENT VELOCITY - Rate of change detection (EARLY WARNING)
         const velocity = BrainScannerService.calculateSentimentVelocity(ticker, currentFearGreed, currentSocialScore);
         
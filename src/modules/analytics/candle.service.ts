@@ -0,0 +1,258 @@
+import { query } from '../../shared/db';
+import { MarketDataModel } from '../market/market-data.model';
+import { NormalizedTick } from '../ingestor/exchange.adapter';
+
+// CANDLE SERVICE
+// Rolls raw ticks into OHLCV bars per ticker (venues merged) and persists them
+// to the candles table. Live candles are built in memory from the ingestor and
+// upserted every few seconds; history is back-filled from market_trades.
+
+export type CandleTimeframe = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export interface Candle {
+    ticker: string;
+    timeframe: CandleTimeframe;
+    time: Date;          // Bucket start
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    trades: number;
+}
+
+// In-memory candle plus what has already been written for it
+interface LiveCandle extends Candle {
+    flushedVolume: number;
+    flushedTrades: number;
+    dirty: boolean;
+}
+
+export const TIMEFRAME_SECONDS: Record<CandleTimeframe, number> = {
+    '1m': 60,
+    '5m': 5 * 60,
+    '15m': 15 * 60,
+    '1h': 60 * 60,
+    '1d': 24 * 60 * 60
+};
+
+// How far back to rebuild each timeframe from raw ticks on startup
+const BACKFILL_LOOKBACK: Record<CandleTimeframe, string> = {
+    '1m': '24 hours',
+    '5m': '7 days',
+    '15m': '14 days',
+    '1h': '30 days',
+    '1d': '365 days'
+};
+
+const PERSIST_INTERVAL_MS = 5000;
+
+// Key: `${ticker}:${timeframe}` -> the bucket currently being built
+const liveCandles: Map<string, LiveCandle> = new Map();
+// Closed buckets still waiting for their final write
+const pendingClosed: LiveCandle[] = [];
+
+let persistTimer: NodeJS.Timeout | null = null;
+let persisting = false;
+
+const bucketStart = (time: Date, tf: CandleTimeframe): Date => {
+    const ms = TIMEFRAME_SECONDS[tf] * 1000;
+    return new Date(Math.floor(time.getTime() / ms) * ms);
+};
+
+export const CandleService = {
+    isTimeframe: (tf: string): tf is CandleTimeframe => tf in TIMEFRAME_SECONDS,
+
+    // BTC, BTC-USD, btcusd -> BTCUSD
+    normalizeTicker: (ticker: string): string => {
+        const clean = ticker.toUpperCase().replace('-', '');
+        return clean.endsWith('USD') ? clean : `${clean}USD`;
+    },
+
+    start: () => {
+        if (persistTimer) return;
+
+        CandleService.backfillAll().catch(err =>
+            console.error('[Candles] Backfill error:', err)
+        );
+
+        persistTimer = setInterval(() => {
+            CandleService.persist().catch(err =>
+                console.error('[Candles] Persist error:', err)
+            );
+        }, PERSIST_INTERVAL_MS);
+    },
+
+    // Fold one tick into every timeframe
+    onTick: (tick: NormalizedTick) => {
+        for (const tf of Object.keys(TIMEFRAME_SECONDS) as CandleTimeframe[]) {
+            const key = `${tick.ticker}:${tf}`;
+            const bucket = bucketStart(tick.time, tf);
+            let candle = liveCandles.get(key);
+
+            // Late tick for an already-closed bucket: ignore, backfill will catch it
+            if (candle && bucket.getTime() < candle.time.getTime()) continue;
+
+            if (!candle || bucket.getTime() > candle.time.getTime()) {
+                if (candle) pendingClosed.push(candle);
+
+                candle = {
+                    ticker: tick.ticker,
+                    timeframe: tf,
+                    time: bucket,
+                    open: tick.price,
+                    high: tick.price,
+                    low: tick.price,
+                    close: tick.price,
+                    volume: 0,
+                    trades: 0,
+                    flushedVolume: 0,
+                    flushedTrades: 0,
+                    dirty: true
+                };
+                liveCandles.set(key, candle);
+            }
+
+            candle.high = Math.max(candle.high, tick.price);
+            candle.low = Math.min(candle.low, tick.price);
+            candle.close = tick.price;
+            candle.volume += tick.size;
+            candle.trades++;
+            candle.dirty = true;
+        }
+    },
+
+    // Upsert closed and dirty live candles. Volume is written as a delta so a
+    // restart mid-bucket adds to what the previous process already stored.
+    // Candles are marked clean before the write: a tick landing while it's in
+    // flight marks them dirty again for the next pass.
+    persist: async () => {
+        if (persisting) return;
+        persisting = true;
+
+        const closed = pendingClosed.splice(0, pendingClosed.length);
+        const batch = [...closed, ...Array.from(liveCandles.values()).filter(c => c.dirty)];
+        if (batch.length === 0) {
+            persisting = false;
+            return;
+        }
+
+        const deltas = batch.map(c => ({
+            candle: c,
+            volume: c.volume - c.flushedVolume,
+            trades: c.trades - c.flushedTrades
+        }));
+        for (const d of deltas) d.candle.dirty = false;
+
+        try {
+            await query(`
+                INSERT INTO candles (ticker, timeframe, bucket_start, open, high, low, close, volume, trade_count)
+                SELECT * FROM UNNEST(
+                    $1::text[], $2::text[], $3::timestamptz[], $4::numeric[], $5::numeric[],
+                    $6::numeric[], $7::numeric[], $8::numeric[], $9::int[]
+                )
+                ON CONFLICT (ticker, timeframe, bucket_start) DO UPDATE SET
+                    high = GREATEST(candles.high, EXCLUDED.high),
+                    low = LEAST(candles.low, EXCLUDED.low),
+                    close = EXCLUDED.close,
+                    volume = candles.volume + EXCLUDED.volume,
+                    trade_count = candles.trade_count + EXCLUDED.trade_count
+            `, [
+                deltas.map(d => d.candle.ticker),
+                deltas.map(d => d.candle.timeframe),
+                deltas.map(d => d.candle.time.toISOString()),
+                deltas.map(d => d.candle.open),
+                deltas.map(d => d.candle.high),
+                deltas.map(d => d.candle.low),
+                deltas.map(d => d.candle.close),
+                deltas.map(d => d.volume),
+                deltas.map(d => d.trades)
+            ]);
+
+            for (const d of deltas) {
+                d.candle.flushedVolume += d.volume;
+                d.candle.flushedTrades += d.trades;
+            }
+        } catch (err) {
+            // Closed candles are no longer in the live map - queue them for the next pass
+            for (const d of deltas) d.candle.dirty = true;
+            pendingClosed.unshift(...closed);
+            throw err;
+        } finally {
+            persisting = false;
+        }
+    },
+
+    // Rebuild closed buckets from raw ticks. Raw data is the source of truth,
+    // so existing rows are overwritten. The current bucket is left to the live builder.
+    backfill: async (tf: CandleTimeframe, lookback: string = BACKFILL_LOOKBACK[tf]) => {
+        const seconds = TIMEFRAME_SECONDS[tf];
+        const cutoff = bucketStart(new Date(), tf);
+
+        return MarketDataModel.rollupCandles(tf, seconds, lookback, cutoff);
+    },
+
+    backfillAll: async () => {
+        for (const tf of Object.keys(TIMEFRAME_SECONDS) as CandleTimeframe[]) {
+            const rows = await CandleService.backfill(tf);
+            console.log(`[Candles] 🕯️ Back-filled ${rows} ${tf} candles`);
+        }
+    },
+
+    // Stored candles, oldest first, with unwritten (closed and live) buckets merged on top
+    getCandles: async (ticker: string, tf: CandleTimeframe, limit: number = 300): Promise<Candle[]> => {
+        const symbol = CandleService.normalizeTicker(ticker);
+
+        const result = await query(`
+            SELECT bucket_start, open, high, low, close, volume, trade_count
+            FROM candles
+            WHERE ticker = $1 AND timeframe = $2
+            ORDER BY bucket_start DESC
+            LIMIT $3
+        `, [symbol, tf, limit]);
+
+        const candles: Candle[] = result.rows.reverse().map((r: any) => ({
+            ticker: symbol,
+            timeframe: tf,
+            time: new Date(r.bucket_start),
+            open: Number(r.open),
+            high: Number(r.high),
+            low: Number(r.low),
+            close: Number(r.close),
+            volume: Number(r.volume),
+            trades: Number(r.trade_count)
+        }));
+
+        // Closed buckets not written yet, then the live one
+        const unflushed = pendingClosed.filter(c => c.ticker === symbol && c.timeframe === tf);
+        const live = liveCandles.get(`${symbol}:${tf}`);
+        if (live) unflushed.push(live);
+
+        for (const pending of unflushed) {
+            const last = candles[candles.length - 1];
+            const stored = last && last.time.getTime() === pending.time.getTime() ? last : null;
+
+            // The stored row already includes what we flushed; add the rest
+            const merged: Candle = {
+                ticker: symbol,
+                timeframe: tf,
+                time: pending.time,
+                open: stored ? stored.open : pending.open,
+                high: stored ? Math.max(stored.high, pending.high) : pending.high,
+                low: stored ? Math.min(stored.low, pending.low) : pending.low,
+                close: pending.close,
+                volume: (stored ? stored.volume : 0) + pending.volume - pending.flushedVolume,
+                trades: (stored ? stored.trades : 0) + pending.trades - pending.flushedTrades
+            };
+
+            if (stored) {
+                candles[candles.length - 1] = merged;
+            } else if (!last || pending.time.getTime() > last.time.getTime()) {
+                candles.push(merged);
+                if (candles.length > limit) candles.shift();
+            }
+        }
+
+        return candles;
+    }
+};
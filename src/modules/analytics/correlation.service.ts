@@ -1,4 +1,5 @@
-import { query } from '../../shared/db';
+import { MarketDataModel } from '../market/market-data.model';
+import { WorkerPoolService } from '../sentiment/worker-pool.service';
 
 // CORRELATION SERVICE
 // Detects correlations between crypto assets
@@ -42,17 +43,37 @@ export const CorrelationService = {
         return numerator / denominator;
     },
 
+    // Pairwise correlations of return series, aligned on their most recent samples
+    // (runs inside the worker)
+    computeMatrix: (series: number[][]): number[][] => {
+        const n = series.length;
+        const matrix: number[][] = [];
+        for (let i = 0; i < n; i++) {
+            matrix[i] = new Array(n).fill(0);
+            matrix[i][i] = 1; // Self-correlation is 1
+        }
+
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const minLen = Math.min(series[i].length, series[j].length);
+                const corr = CorrelationService.pearsonCorrelation(
+                    series[i].slice(-minLen),
+                    series[j].slice(-minLen)
+                );
+
+                matrix[i][j] = Math.round(corr * 1000) / 1000;
+                matrix[j][i] = matrix[i][j]; // Symmetric
+            }
+        }
+
+        return matrix;
+    },
+
     // Get price returns (percentage changes) for an asset
     getPriceReturns: async (ticker: string, hours: number = 24): Promise<number[]> => {
         try {
-            const result = await query(`
-                SELECT sentiment_score as price
-                FROM sentiment_metrics
-                WHERE ticker = $1 AND time >= NOW() - INTERVAL '${hours} hours'
-                ORDER BY time ASC
-            `, [ticker]);
-
-            const prices = result.rows.map((r: any) => parseFloat(r.price));
+            const trades = await MarketDataModel.getTradesSince(ticker, hours * 60);
+            const prices = trades.map(t => t.price);
             
             // Calculate returns (percentage change)
             const returns: number[] = [];
@@ -91,48 +112,16 @@ export const CorrelationService = {
     // Generate full correlation matrix for top assets
     generateMatrix: async (hours: number = 24): Promise<CorrelationMatrix> => {
         // Get top traded assets
-        const topAssets = await query(`
-            SELECT ticker, COUNT(*) as cnt
-            FROM sentiment_metrics
-            WHERE time >= NOW() - INTERVAL '${hours} hours'
-            GROUP BY ticker
-            ORDER BY cnt DESC
-            LIMIT 10
-        `);
-
-        const assets = topAssets.rows.map((r: any) => r.ticker);
-        const n = assets.length;
-        
-        // Initialize matrix
-        const matrix: number[][] = [];
-        for (let i = 0; i < n; i++) {
-            matrix[i] = new Array(n).fill(0);
-            matrix[i][i] = 1; // Self-correlation is 1
-        }
+        const assets = await MarketDataModel.getMostTradedTickers(hours, 10);
 
         // Pre-fetch all returns
-        const returnsMap: Map<string, number[]> = new Map();
+        const series: number[][] = [];
         for (const asset of assets) {
-            const returns = await CorrelationService.getPriceReturns(asset, hours);
-            returnsMap.set(asset, returns);
+            series.push(await CorrelationService.getPriceReturns(asset, hours));
         }
 
-        // Calculate correlations
-        for (let i = 0; i < n; i++) {
-            for (let j = i + 1; j < n; j++) {
-                const returns1 = returnsMap.get(assets[i]) || [];
-                const returns2 = returnsMap.get(assets[j]) || [];
-                const minLen = Math.min(returns1.length, returns2.length);
-                
-                const corr = CorrelationService.pearsonCorrelation(
-                    returns1.slice(-minLen),
-                    returns2.slice(-minLen)
-                );
-                
-                matrix[i][j] = Math.round(corr * 1000) / 1000;
-                matrix[j][i] = matrix[i][j]; // Symmetric
-            }
-        }
+        // Calculate correlations off the event loop
+        const matrix = await WorkerPoolService.run('CORRELATION_MATRIX', { series });
 
         return {
             assets,
@@ -0,0 +1,100 @@
+import { ConfigService } from '../../shared/config.service';
+
+// FORCE NORMALIZER
+// Raw hijack force is |S''| * log10(volume) in price units: a $5 wiggle in BTC
+// outweighs a 50% move in SHIB. Here each asset is measured against itself:
+//   scaled = |S'' / price| / volatility * log10(volume)
+//   z      = (scaled - mean) / std, over that asset's own recent history
+// The asset's history also gives adaptive entry/exit thresholds, reported back
+// in raw force units so they can be compared with hijackForce directly.
+
+interface ForceStats {
+    count: number;
+    mean: number;       // EWMA of scaled force
+    variance: number;   // EWMA variance of scaled force
+}
+
+export interface ForceThresholds {
+    entry: number;      // Raw force units
+    exit: number;
+    adaptive: boolean;  // false = fixed config thresholds (raw mode or still warming up)
+}
+
+export interface ForceInput {
+    acceleration: number;   // S'' in price / s²
+    volume: number;         // Latest trade size
+    price: number;
+    volatility: number;     // Std dev of log returns over the window
+}
+
+export interface NormalizedForce {
+    normalizedForce: number;    // z-score vs. the asset's own history (0 while warming up)
+    scaledForce: number;
+    volatility: number;
+    warmingUp: boolean;
+    thresholds: ForceThresholds;
+}
+
+const HISTORY = 300;                  // Effective EWMA window (observations)
+const ALPHA = 2 / (HISTORY + 1);
+const WARMUP = 30;                    // Observations before a z-score is trusted
+const MIN_VOLATILITY = 1e-6;
+
+const stats: Map<string, ForceStats> = new Map();
+
+export const ForceNormalizerService = {
+    // Score the current force, then (if commit) fold it into the asset's history.
+    // Venue-filtered views score against the asset's history without updating it.
+    evaluate: (ticker: string, input: ForceInput, commit: boolean = true): NormalizedForce => {
+        const { acceleration, volume, price } = input;
+        const safeVolume = volume > 1 ? Math.log10(volume) : 0;
+        const volatility = Math.max(input.volatility, MIN_VOLATILITY);
+        const scaledForce = price > 0 ? (Math.abs(acceleration / price) / volatility) * safeVolume : 0;
+
+        const current = stats.get(ticker) || { count: 0, mean: 0, variance: 0 };
+        const std = Math.sqrt(current.variance);
+        const warmingUp = current.count < WARMUP || std === 0;
+
+        // z against history BEFORE this observation, so a spike can't dilute itself
+        const normalizedForce = warmingUp ? 0 : (scaledForce - current.mean) / std;
+
+        // Scaled -> raw units: raw = scaled * price * volatility
+        const toRaw = (z: number) => Math.max(0, (current.mean + z * std) * price * volatility);
+        const thresholds: ForceThresholds = ConfigService.getForceMode() === 'normalized' && !warmingUp
+            ? { entry: toRaw(ConfigService.getEntryZScore()), exit: toRaw(ConfigService.getExitZScore()), adaptive: true }
+            : { entry: ConfigService.getEntryThreshold(), exit: ConfigService.getExitThreshold(), adaptive: false };
+
+        if (!commit) return { normalizedForce, scaledForce, volatility, warmingUp, thresholds };
+
+        // EWMA update (West's incremental form)
+        if (current.count === 0) {
+            current.mean = scaledForce;
+        } else {
+            const diff = scaledForce - current.mean;
+            const increment = ALPHA * diff;
+            current.mean += increment;
+            current.variance = (1 - ALPHA) * (current.variance + diff * increment);
+        }
+        current.count++;
+        stats.set(ticker, current);
+
+        return { normalizedForce, scaledForce, volatility, warmingUp, thresholds };
+    },
+
+    getStats: (ticker: string) => {
+        const current = stats.get(ticker);
+        if (!current) return null;
+        return {
+            ticker,
+            observations: current.count,
+            mean: current.mean,
+            std: Math.sqrt(current.variance),
+            warmingUp: current.count < WARMUP
+        };
+    },
+
+    reset: (ticker?: string) => {
+        if (ticker) stats.delete(ticker);
+        else stats.clear();
+    }
+};
@@ -1,10 +1,19 @@
-import { query } from '../../shared/db';
+import { MarketDataModel } from '../market/market-data.model';
+import { calculateAcceleration } from '../../shared/finite-difference.util';
+import { WorkerPoolService } from '../sentiment/worker-pool.service';
 
 // ML PREDICTOR SERVICE
 // Pattern recognition for hijack force prediction
 // Uses simple statistical methods (no external ML libraries needed)
 
-interface PredictionResult {
+export interface FeatureSeries {
+    ticker: string;
+    prices: number[];
+    volumes: number[];
+    times: Date[];
+}
+
+export interface PredictionResult {
     ticker: string;
     predictedForce: number;
     confidence: number;         // 0-100%
@@ -13,7 +22,7 @@ interface PredictionResult {
     timestamp: Date;
 }
 
-interface PatternMatch {
+export interface PatternMatch {
     pattern: string;
     confidence: number;
     direction: 'UP' | 'DOWN' | 'NEUTRAL';
@@ -37,56 +46,55 @@ export const MLPredictorService = {
     // Generate prediction for a single asset
     predictAsset: async (ticker: string): Promise<PredictionResult> => {
         try {
-            // Fetch recent data (last 2 hours)
-            const data = await query(`
-                SELECT sentiment_score as price, volume, time
-                FROM sentiment_metrics
-                WHERE ticker = $1 AND time >= NOW() - INTERVAL '2 hours'
-                ORDER BY time DESC
-                LIMIT 60
-            `, [ticker]);
-
-            if (data.rows.length < 10) {
-                return {
-                    ticker,
-                    predictedForce: 0,
-                    confidence: 0,
-                    direction: 'NEUTRAL',
-                    signals: ['Insufficient data'],
-                    timestamp: new Date()
-                };
-            }
+            const series = await MLPredictorService.fetchFeatureSeries(ticker);
+            if (!series) return MLPredictorService.emptyPrediction(ticker, 'Insufficient data');
 
-            const prices = data.rows.map((r: any) => parseFloat(r.price)).reverse();
-            const volumes = data.rows.map((r: any) => parseFloat(r.volume)).reverse();
-
-            // Calculate features
-            const patterns = MLPredictorService.detectPatterns(prices, volumes);
-            const prediction = MLPredictorService.calculatePrediction(patterns);
-
-            return {
-                ticker,
-                predictedForce: prediction.force,
-                confidence: prediction.confidence,
-                direction: prediction.direction,
-                signals: patterns.map(p => p.pattern),
-                timestamp: new Date()
-            };
+            // Calculate features off the event loop
+            const [patterns] = await WorkerPoolService.run('ML_FEATURES', { series: [series] });
+            return MLPredictorService.toPrediction(ticker, patterns);
         } catch (err) {
             console.error(`[ML] Prediction error for ${ticker}:`, err);
-            return {
-                ticker,
-                predictedForce: 0,
-                confidence: 0,
-                direction: 'NEUTRAL',
-                signals: ['Error'],
-                timestamp: new Date()
-            };
+            return MLPredictorService.emptyPrediction(ticker, 'Error');
         }
     },
 
+    // Recent data (last 2 hours, newest 60 trades); null if too thin to read
+    fetchFeatureSeries: async (ticker: string): Promise<FeatureSeries | null> => {
+        const trades = await MarketDataModel.getTradesSince(ticker, 120, 60);
+        if (trades.length < 10) return null;
+
+        return {
+            ticker,
+            prices: trades.map(t => t.price),
+            volumes: trades.map(t => t.size),
+            times: trades.map(t => t.time)
+        };
+    },
+
+    emptyPrediction: (ticker: string, reason: string): PredictionResult => ({
+        ticker,
+        predictedForce: 0,
+        confidence: 0,
+        direction: 'NEUTRAL',
+        signals: [reason],
+        timestamp: new Date()
+    }),
+
+    toPrediction: (ticker: string, patterns: PatternMatch[]): PredictionResult => {
+        const prediction = MLPredictorService.calculatePrediction(patterns);
+
+        return {
+            ticker,
+            predictedForce: prediction.force,
+            confidence: prediction.confidence,
+            direction: prediction.direction,
+            signals: patterns.map(p => p.pattern),
+            timestamp: new Date()
+        };
+    },
+
     // Detect patterns in price/volume data
-    detectPatterns: (prices: number[], volumes: number[]): PatternMatch[] => {
+    detectPatterns: (prices: number[], volumes: number[], times: Date[]): PatternMatch[] => {
         const patterns: PatternMatch[] = [];
 
         // 1. Volume Spike Detection
@@ -133,11 +141,7 @@ export const MLPredictorService = {
         }
 
         // 4. Acceleration Analysis (2nd derivative)
-        const accelerations: number[] = [];
-        for (let i = 1; i < prices.length - 1; i++) {
-            const accel = prices[i + 1] - 2 * prices[i] + prices[i - 1];
-            accelerations.push(accel);
-        }
+        const accelerations = calculateAcceleration(prices.map((value, i) => ({ value, time: times[i] })));
         const recentAccel = accelerations.slice(-3);
         const avgAccel = recentAccel.reduce((a, b) => a + b, 0) / recentAccel.length;
         if (Math.abs(avgAccel) > 0.001) {
@@ -206,19 +210,23 @@ export const MLPredictorService = {
     predictAll: async (): Promise<PredictionResult[]> => {
         try {
             // Get list of active tickers
-            const tickers = await query(`
-                SELECT DISTINCT ticker FROM sentiment_metrics
-                WHERE time >= NOW() - INTERVAL '30 minutes'
-            `);
-
-            const predictions: PredictionResult[] = [];
-            for (const row of tickers.rows) {
-                const prediction = await MLPredictorService.predictAsset(row.ticker);
-                if (prediction.confidence > 0) {
-                    predictions.push(prediction);
-                }
+            const tickers = await MarketDataModel.getActiveTickers(30);
+
+            const series: FeatureSeries[] = [];
+            for (const ticker of tickers) {
+                const s = await MLPredictorService.fetchFeatureSeries(ticker);
+                if (s) series.push(s);
             }
 
+            // One worker task for the whole batch
+            const patterns = series.length > 0
+                ? await WorkerPoolService.run('ML_FEATURES', { series })
+                : [];
+
+            const predictions = series
+                .map((s, i) => MLPredictorService.toPrediction(s.ticker, patterns[i]))
+                .filter(p => p.confidence > 0);
+
             // Sort by confidence
             predictions.sort((a, b) => b.confidence - a.confidence);
             return predictions;
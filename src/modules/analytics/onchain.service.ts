@@ -1,3 +1,5 @@
+import { AssetRegistryService } from '../assets/asset-registry.service';
+
 // ON-CHAIN ANALYTICS SERVICE
 // Real data from DefiLlama API (free, no auth required)
 // DefiLlama API Docs: https://defillama.com/docs/api
@@ -20,20 +22,6 @@ const metricsCache: Map<string, OnChainMetrics> = new Map();
 // DefiLlama API endpoints
 const DEFILLAMA_API = 'https://api.llama.fi';
 
-// Chain name mappings (ticker -> DefiLlama chain name)
-const CHAIN_MAPPINGS: Record<string, string> = {
-    'ETH': 'Ethereum',
-    'SOL': 'Solana',
-    'AVAX': 'Avalanche',
-    'MATIC': 'Polygon',
-    'ARB': 'Arbitrum',
-    'OP': 'Optimism',
-    'BNB': 'BSC',
-    'FTM': 'Fantom',
-    'NEAR': 'Near',
-    'ATOM': 'Cosmos'
-};
-
 // For non-chain assets like BTC, LINK, DOT - we use protocol TVL
 const PROTOCOL_MAPPINGS: Record<string, string> = {
     'LINK': 'chainlink',
@@ -71,8 +59,9 @@ export const OnChainService = {
             // Calculate total TVL for dominance
             const totalTVL = chainsData.reduce((sum: number, chain: any) => sum + (chain.tvl || 0), 0);
 
-            // Process each tracked chain
-            for (const [ticker, chainName] of Object.entries(CHAIN_MAPPINGS)) {
+            // Process each tracked chain (ticker -> DefiLlama chain name, from the registry)
+            const chainMappings = AssetRegistryService.getChainMappings();
+            for (const [ticker, chainName] of Object.entries(chainMappings)) {
                 const chainData = chainsData.find((c: any) => 
                     c.name?.toLowerCase() === chainName.toLowerCase() ||
                     c.gecko_id?.toLowerCase() === chainName.toLowerCase()
@@ -95,12 +84,14 @@ export const OnChainService = {
             }
 
             // Fetch historical data for top chains to get change %
-            await OnChainService.fetchChainHistory('ETH', 'ethereum');
-            await OnChainService.fetchChainHistory('SOL', 'solana');
-            await OnChainService.fetchChainHistory('AVAX', 'avalanche');
+            for (const [ticker, chainName] of Object.entries(chainMappings)) {
+                await OnChainService.fetchChainHistory(ticker, chainName.toLowerCase());
+            }
 
             // Add BTC metrics (special case - no DeFi TVL but network data)
-            await OnChainService.fetchBTCMetrics();
+            if (AssetRegistryService.get('BTC')?.enabled) {
+                await OnChainService.fetchBTCMetrics();
+            }
 
             console.log(`[ONCHAIN] Updated metrics for ${metricsCache.size} chains`);
 
@@ -1,3 +1,5 @@
+import { AssetRegistryService } from '../assets/asset-registry.service';
+
 // OPTIONS FLOW SERVICE
 // Real-time crypto options data from Deribit API (free, no auth required for public endpoints)
 // Deribit API Docs: https://docs.deribit.com/
@@ -34,9 +36,6 @@ const MAX_FLOWS = 100;
 // Deribit API base URL (public endpoints, no auth needed)
 const DERIBIT_API = 'https://www.deribit.com/api/v2/public';
 
-// Tracked crypto options assets
-const TRACKED_ASSETS = ['BTC', 'ETH'];
-
 export const OptionsFlowService = {
     // Start options flow monitoring
     startMonitoring: () => {
@@ -53,7 +52,8 @@ export const OptionsFlowService = {
 
     // Fetch real metrics from Deribit
     fetchAllMetrics: async () => {
-        for (const ticker of TRACKED_ASSETS) {
+        // Assets flagged with a Deribit options market in the registry
+        for (const ticker of AssetRegistryService.getOptionsAssets()) {
             try {
                 await OptionsFlowService.fetchDeribitMetrics(ticker);
             } catch (err) {
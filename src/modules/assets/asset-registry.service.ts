@@ -0,0 +1,212 @@
+import { query } from '../../shared/db';
+import { ExchangeAdapter, Venue } from '../ingestor/exchange.adapter';
+
+// ASSET REGISTRY
+// The one list of assets we track. Every service asks the registry instead of
+// keeping its own literal:
+// - Ingestor: which products to subscribe to on each venue
+// - News: which keywords identify an article's asset
+// - Social / Whales: which symbols to watch
+// - On-chain: which DefiLlama chain backs an asset
+// - Options: which assets have a Deribit options market
+// Persisted in the `assets` table; DEFAULT_ASSETS missing from it are seeded on load.
+
+export interface Asset {
+    symbol: string;                                    // Base symbol: BTC
+    name: string;
+    productIds: Partial<Record<Venue, string | null>>; // Venue overrides; null = not listed there
+    newsKeywords: string[];
+    chainSlug: string | null;                          // DefiLlama chain name (Ethereum, Solana...)
+    hasOptions: boolean;
+    enabled: boolean;
+}
+
+export type AssetInput = Partial<Omit<Asset, 'symbol'>> & { symbol: string };
+
+type ChangeListener = (assets: Asset[]) => void;
+
+const seed = (symbol: string, name: string, newsKeywords: string[], chainSlug: string | null = null, hasOptions = false): Asset => ({
+    symbol, name, productIds: {}, newsKeywords, chainSlug, hasOptions, enabled: true
+});
+
+// Tracked for on-chain data only: not listed for streaming on any venue
+const chainOnly = (symbol: string, name: string, chainSlug: string): Asset => ({
+    ...seed(symbol, name, [], chainSlug),
+    productIds: { coinbase: null, kraken: null, binance: null }
+});
+
+const DEFAULT_ASSETS: Asset[] = [
+    // The Majors
+    seed('BTC', 'Bitcoin', ['bitcoin', 'btc'], null, true),
+    seed('ETH', 'Ethereum', ['ethereum', 'eth', 'ether'], 'Ethereum', true),
+    seed('SOL', 'Solana', ['solana', 'sol'], 'Solana'),
+    seed('DOGE', 'Dogecoin', ['dogecoin', 'doge']),
+    // The Alts
+    seed('SHIB', 'Shiba Inu', ['shiba', 'shib']),
+    seed('AVAX', 'Avalanche', ['avalanche', 'avax'], 'Avalanche'),
+    seed('LINK', 'Chainlink', ['chainlink', 'link']),
+    seed('UNI', 'Uniswap', ['uniswap', 'uni']),
+    seed('MATIC', 'Polygon', ['polygon', 'matic'], 'Polygon'),
+    // The Classics
+    seed('LTC', 'Litecoin', ['litecoin', 'ltc']),
+    seed('XRP', 'XRP', ['xrp', 'ripple']),
+    seed('ADA', 'Cardano', ['cardano', 'ada']),
+    seed('DOT', 'Polkadot', ['polkadot', 'dot']),
+    seed('BCH', 'Bitcoin Cash', ['bitcoin cash', 'bch']),
+    // The New Guard
+    seed('PEPE', 'Pepe', ['pepe']),
+    seed('SUI', 'Sui', ['sui']),
+    seed('APT', 'Aptos', ['aptos', 'apt']),
+    seed('ARB', 'Arbitrum', ['arbitrum', 'arb'], 'Arbitrum'),
+    seed('OP', 'Optimism', ['optimism'], 'Optimism'),
+    // On-chain only
+    chainOnly('BNB', 'BNB', 'BSC'),
+    chainOnly('FTM', 'Fantom', 'Fantom'),
+    chainOnly('NEAR', 'Near', 'Near'),
+    chainOnly('ATOM', 'Cosmos', 'Cosmos')
+];
+
+// In-memory copy; the DB is the source of truth
+let assets: Map<string, Asset> = new Map(DEFAULT_ASSETS.map(a => [a.symbol, a]));
+const listeners: ChangeListener[] = [];
+
+const toAsset = (row: any): Asset => ({
+    symbol: row.symbol,
+    name: row.name,
+    productIds: row.product_ids || {},
+    newsKeywords: row.news_keywords || [],
+    chainSlug: row.chain_slug,
+    hasOptions: row.has_options,
+    enabled: row.enabled
+});
+
+const saveAsset = async (asset: Asset) => {
+    await query(`
+        INSERT INTO assets (symbol, name, product_ids, news_keywords, chain_slug, has_options, enabled, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        ON CONFLICT (symbol) DO UPDATE SET
+            name = EXCLUDED.name,
+            product_ids = EXCLUDED.product_ids,
+            news_keywords = EXCLUDED.news_keywords,
+            chain_slug = EXCLUDED.chain_slug,
+            has_options = EXCLUDED.has_options,
+            enabled = EXCLUDED.enabled,
+            updated_at = NOW()
+    `, [asset.symbol, asset.name, JSON.stringify(asset.productIds), asset.newsKeywords, asset.chainSlug, asset.hasOptions, asset.enabled]);
+};
+
+const notify = () => {
+    const enabled = AssetRegistryService.getEnabled();
+    for (const listener of listeners) {
+        try {
+            listener(enabled);
+        } catch (err) {
+            console.error('[Assets] Listener error:', err);
+        }
+    }
+};
+
+export const AssetRegistryService = {
+    // Load from DB, seeding any default not there yet (all of them on first
+    // run). If the DB is down we keep running on the defaults rather than
+    // tracking nothing.
+    load: async () => {
+        try {
+            const result = await query('SELECT * FROM assets ORDER BY created_at ASC, symbol ASC');
+            const stored: Map<string, Asset> = new Map(result.rows.map((row: any) => [row.symbol, toAsset(row)]));
+
+            const missing = DEFAULT_ASSETS.filter(a => !stored.has(a.symbol));
+            for (const asset of missing) {
+                await saveAsset(asset);
+                stored.set(asset.symbol, asset);
+            }
+            if (missing.length > 0) {
+                console.log(`[Assets] 🌱 Seeded ${missing.length} default assets`);
+            }
+
+            assets = stored;
+            console.log(`[Assets] ✅ Loaded ${assets.size} assets (${AssetRegistryService.getEnabled().length} enabled)`);
+        } catch (err: any) {
+            console.error('[Assets] ⚠️ Failed to load registry, using defaults:', err?.message || err);
+        }
+    },
+
+    onChange: (listener: ChangeListener) => {
+        listeners.push(listener);
+    },
+
+    normalizeSymbol: (symbol: string): string =>
+        symbol.toUpperCase().replace('-USD', '').replace(/USDT?$/, ''),
+
+    getAll: (): Asset[] => Array.from(assets.values()),
+
+    getEnabled: (): Asset[] => Array.from(assets.values()).filter(a => a.enabled),
+
+    getSymbols: (): string[] => AssetRegistryService.getEnabled().map(a => a.symbol),
+
+    get: (symbol: string): Asset | undefined => assets.get(AssetRegistryService.normalizeSymbol(symbol)),
+
+    // Venue product ids for every enabled asset (override first, adapter default otherwise)
+    getProductIds: (adapter: ExchangeAdapter): string[] => {
+        return AssetRegistryService.getEnabled()
+            .map(asset => adapter.venue in asset.productIds
+                ? asset.productIds[adapter.venue] ?? null
+                : adapter.toProductId(asset.symbol))
+            .filter((p): p is string => p !== null);
+    },
+
+    getNewsKeywords: (): Record<string, string[]> => {
+        const keywords: Record<string, string[]> = {};
+        for (const asset of AssetRegistryService.getEnabled()) {
+            if (asset.newsKeywords.length > 0) keywords[asset.symbol] = asset.newsKeywords;
+        }
+        return keywords;
+    },
+
+    getChainMappings: (): Record<string, string> => {
+        const chains: Record<string, string> = {};
+        for (const asset of AssetRegistryService.getEnabled()) {
+            if (asset.chainSlug) chains[asset.symbol] = asset.chainSlug;
+        }
+        return chains;
+    },
+
+    getOptionsAssets: (): string[] =>
+        AssetRegistryService.getEnabled().filter(a => a.hasOptions).map(a => a.symbol),
+
+    // Add a new asset or update an existing one (partial update)
+    upsert: async (input: AssetInput): Promise<Asset> => {
+        const symbol = AssetRegistryService.normalizeSymbol(input.symbol);
+        const existing = assets.get(symbol);
+
+        const asset: Asset = {
+            symbol,
+            name: input.name ?? existing?.name ?? symbol,
+            productIds: input.productIds ?? existing?.productIds ?? {},
+            newsKeywords: (input.newsKeywords ?? existing?.newsKeywords ?? [symbol.toLowerCase()]).map(k => k.toLowerCase()),
+            chainSlug: input.chainSlug !== undefined ? input.chainSlug : existing?.chainSlug ?? null,
+            hasOptions: input.hasOptions ?? existing?.hasOptions ?? false,
+            enabled: input.enabled ?? existing?.enabled ?? true
+        };
+
+        await saveAsset(asset);
+        assets.set(symbol, asset);
+        console.log(`[Assets] ${existing ? '✏️ Updated' : '➕ Added'} ${symbol}`);
+        notify();
+        return asset;
+    },
+
+    // Returns null if the asset isn't registered
+    setEnabled: async (symbol: string, enabled: boolean): Promise<Asset | null> => {
+        const asset = AssetRegistryService.get(symbol);
+        if (!asset) return null;
+        if (asset.enabled === enabled) return asset;
+
+        const updated = { ...asset, enabled };
+        await saveAsset(updated);
+        assets.set(updated.symbol, updated);
+        console.log(`[Assets] ${enabled ? '🟢 Enabled' : '⏸️ Disabled'} ${updated.symbol}`);
+        notify();
+        return updated;
+    }
+};
@@ -8,9 +8,11 @@
 // This is not about what WE feel. It's about what THEY feel.
 // "The only thing that matters is what hijacks your customers' brains."
 
-import { query } from '../../shared/db';
+import { query, transaction } from '../../shared/db';
+import { MarketDataModel } from '../market/market-data.model';
+import { AssetRegistryService } from '../assets/asset-registry.service';
 import { TelegramService } from '../notifications/telegram.service';
-import { MLPredictorService } from '../analytics/ml-predictor.service';
+import { MLPredictorService, PredictionResult } from '../analytics/ml-predictor.service';
 import { FearGreedService } from '../sentiment/fear-greed.service';
 import { TwitterService } from '../sentiment/twitter.service';
 import { OptionsFlowService } from '../analytics/options-flow.service';
@@ -18,11 +20,19 @@ import { OnChainService } from '../analytics/onchain.service';
 import { ConfigService } from '../../shared/config.service';
 import { SentimentService } from '../sentiment/sentiment.service';
 import { BrainScannerService, HijackSignal } from '../analytics/brain-scanner.service';
+import { PortfolioService } from './portfolio.service';
+import { PaperService, PositionSide, orderSide, sideSign } from './paper.service';
+import { PaperOrderService } from './paper-order.service';
+import { PositionSizingService } from './position-sizing.service';
+
+export type BotMode = 'AGGRESSIVE' | 'BALANCED' | 'CONSERVATIVE';
+
+export const BOT_MODES: BotMode[] = ['AGGRESSIVE', 'BALANCED', 'CONSERVATIVE'];
 
 // Bot Configuration
 interface BotConfig {
     enabled: boolean;
-    mode: 'AGGRESSIVE' | 'BALANCED' | 'CONSERVATIVE';
+    mode: BotMode;
     maxOpenPositions: number;
     positionSizeUsd: number;
     minMLConfidence: number;
@@ -30,6 +40,10 @@ interface BotConfig {
     minAlignmentScore: number;  // 0-100, how many signals must align
     cooldownMinutes: number;    // Min time between trades on same asset
     tradingHoursOnly: boolean;  // Only trade during high-volume hours
+    useBracketOrders: boolean;  // Enter via a paper bracket order (resting TP limit + SL stop)
+    takeProfitPercent: number;  // Exit at this gain (the bracket's TP limit too)
+    stopLossPercent: number;    // Exit at this loss, negative (the bracket's SL stop too)
+    trailingStopPercent: number; // Give-back from the best price once in profit (0 = off)
 }
 
 interface TradeSignal {
@@ -59,42 +73,34 @@ interface BotStats {
     uptime: number;
 }
 
-// In-memory state
-let botConfig: BotConfig = {
-    enabled: false,
-    mode: 'BALANCED',
-    maxOpenPositions: 3,
-    positionSizeUsd: 100,
-    minMLConfidence: 55,
-    requireSentimentAlignment: true,
-    minAlignmentScore: 60,
-    cooldownMinutes: 30,
-    tradingHoursOnly: false
-};
-
-let botStats: BotStats = {
-    isRunning: false,
-    mode: 'BALANCED',
-    tradesExecuted: 0,
-    signalsGenerated: 0,
-    lastSignal: null,
-    lastTrade: null,
-    uptime: 0
-};
+// One bot per mode, each trading its own paper account (same name as the mode)
+interface Bot {
+    config: BotConfig;
+    stats: BotStats;
+    cooldowns: Map<string, number>;
+    startTime: number;
+}
 
-const tradeCooldowns: Map<string, number> = new Map();
-let startTime: number = 0;
-let scanInterval: NodeJS.Timeout | null = null;
+// Signals don't depend on the bot: each scan cycle generates them once and
+// every running bot judges them against its own thresholds
+interface ScanCycle {
+    predictions: PredictionResult[];
+    signals: Map<string, Promise<TradeSignal | null>>;
+    hijacks: Map<string, Promise<HijackSignal>>;
+}
 
 // Mode presets - "Know your customers. Live inside their worldview."
-const MODE_PRESETS: Record<string, Partial<BotConfig>> = {
+const MODE_PRESETS: Record<BotMode, Partial<BotConfig>> = {
     AGGRESSIVE: {
         // "Seek first the kingdom... and everything else will be added"
         // Maximum brain hijack detection, minimum filters
         minMLConfidence: 30,
         minAlignmentScore: 30,
         requireSentimentAlignment: false,
-        cooldownMinutes: 5
+        cooldownMinutes: 5,
+        takeProfitPercent: 5,
+        stopLossPercent: -3,
+        trailingStopPercent: 2
     },
     BALANCED: {
         // "Crawl inside their head like a fucking creep"
@@ -102,7 +108,10 @@ const MODE_PRESETS: Record<string, Partial<BotConfig>> = {
         minMLConfidence: 40,
         minAlignmentScore: 45,
         requireSentimentAlignment: true,
-        cooldownMinutes: 15
+        cooldownMinutes: 15,
+        takeProfitPercent: 3,
+        stopLossPercent: -2,
+        trailingStopPercent: 1.5
     },
     CONSERVATIVE: {
         // "A scientist experimenting on a subject doesn't give a fuck about how he feels"
@@ -110,31 +119,86 @@ const MODE_PRESETS: Record<string, Partial<BotConfig>> = {
         minMLConfidence: 50,
         minAlignmentScore: 55,
         requireSentimentAlignment: true,
-        cooldownMinutes: 30
+        cooldownMinutes: 30,
+        takeProfitPercent: 2,
+        stopLossPercent: -1.5,
+        trailingStopPercent: 1
     }
 };
 
+const DEFAULT_CONFIG: Omit<BotConfig, 'mode'> = {
+    enabled: false,
+    maxOpenPositions: 3,
+    positionSizeUsd: 100,
+    minMLConfidence: 55,
+    requireSentimentAlignment: true,
+    minAlignmentScore: 60,
+    cooldownMinutes: 30,
+    tradingHoursOnly: false,
+    useBracketOrders: false,
+    takeProfitPercent: 3,
+    stopLossPercent: -2,
+    trailingStopPercent: 1.5
+};
+
+const createBot = (mode: BotMode): Bot => ({
+    config: { ...DEFAULT_CONFIG, ...MODE_PRESETS[mode], mode },
+    stats: {
+        isRunning: false,
+        mode,
+        tradesExecuted: 0,
+        signalsGenerated: 0,
+        lastSignal: null,
+        lastTrade: null,
+        uptime: 0
+    },
+    cooldowns: new Map(),
+    startTime: 0
+});
+
+// In-memory state
+const bots: Record<BotMode, Bot> = {
+    AGGRESSIVE: createBot('AGGRESSIVE'),
+    BALANCED: createBot('BALANCED'),
+    CONSERVATIVE: createBot('CONSERVATIVE')
+};
+
+let lastStarted: BotMode = 'BALANCED';   // What the single-bot status view shows
+let scanInterval: NodeJS.Timeout | null = null;
+let exitInterval: NodeJS.Timeout | null = null;
+let exitPassRunning = false;
+
+// Trailing-stop water marks by trade id: the high for longs, the low for shorts
+const waterMarks: Map<number, number> = new Map();
+
+const runningBots = (): Bot[] => BOT_MODES.map(m => bots[m]).filter(b => b.stats.isRunning);
+
 export const AutoTraderService = {
-    // Start the auto-trading bot
-    start: (mode: 'AGGRESSIVE' | 'BALANCED' | 'CONSERVATIVE' = 'BALANCED') => {
-        if (botStats.isRunning) {
-            console.log('[AUTOTRADER] Bot already running');
-            return { success: false, message: 'Bot already running' };
+    isMode: (value: unknown): value is BotMode =>
+        typeof value === 'string' && (BOT_MODES as string[]).includes(value),
+
+    // Start one mode's bot (the others keep running side by side)
+    start: (mode: BotMode = 'BALANCED') => {
+        const bot = bots[mode];
+        if (bot.stats.isRunning) {
+            console.log(`[AUTOTRADER] ${mode} bot already running`);
+            return { success: false, message: `${mode} bot already running` };
         }
 
-        // Apply mode preset
-        botConfig = { ...botConfig, ...MODE_PRESETS[mode], mode, enabled: true };
-        botStats.isRunning = true;
-        botStats.mode = mode;
-        startTime = Date.now();
+        bot.config.enabled = true;
+        bot.stats.isRunning = true;
+        bot.startTime = Date.now();
+        lastStarted = mode;
 
         console.log(`[AUTOTRADER] 🤖 Bot started in ${mode} mode`);
-        console.log(`[AUTOTRADER] Config: ML≥${botConfig.minMLConfidence}%, Alignment≥${botConfig.minAlignmentScore}%`);
+        console.log(`[AUTOTRADER] Config: ML≥${bot.config.minMLConfidence}%, Alignment≥${bot.config.minAlignmentScore}%`);
 
-        // Start scanning every 30 seconds
-        scanInterval = setInterval(() => {
-            AutoTraderService.scan();
-        }, 30 * 1000);
+        // One shared scan loop every 30 seconds while any bot runs
+        if (!scanInterval) {
+            scanInterval = setInterval(() => {
+                AutoTraderService.scan();
+            }, 30 * 1000);
+        }
 
         // Initial scan
         AutoTraderService.scan();
@@ -144,86 +208,180 @@ export const AutoTraderService = {
         return { success: true, message: `Bot started in ${mode} mode` };
     },
 
-    // Stop the bot
-    stop: () => {
-        if (!botStats.isRunning) {
-            return { success: false, message: 'Bot not running' };
+    // Stop one mode's bot, or every bot when no mode is given
+    stop: (mode?: BotMode) => {
+        const targets = mode ? [bots[mode]].filter(b => b.stats.isRunning) : runningBots();
+        if (targets.length === 0) {
+            return { success: false, message: mode ? `${mode} bot not running` : 'Bot not running' };
         }
 
-        botConfig.enabled = false;
-        botStats.isRunning = false;
+        for (const bot of targets) {
+            bot.config.enabled = false;
+            bot.stats.isRunning = false;
+            console.log(`[AUTOTRADER] 🛑 ${bot.config.mode} bot stopped`);
+            TelegramService.sendMessage(`🛑 AutoTrader ${bot.config.mode} stopped. Trades: ${bot.stats.tradesExecuted}`);
+        }
 
-        if (scanInterval) {
+        if (runningBots().length === 0 && scanInterval) {
             clearInterval(scanInterval);
             scanInterval = null;
         }
 
-        console.log('[AUTOTRADER] 🛑 Bot stopped');
-        TelegramService.sendMessage(`🛑 AutoTrader stopped. Trades: ${botStats.tradesExecuted}`);
+        return { success: true, message: `Stopped: ${targets.map(b => b.config.mode).join(', ')}` };
+    },
 
-        return { success: true, message: 'Bot stopped' };
+    // Exit management runs on its own loop from startup, for every operator
+    // account: a stopped bot (or halted trading) still has positions to close
+    startExitManager: () => {
+        if (exitInterval) return;
+        exitInterval = setInterval(() => {
+            AutoTraderService.manageAllExits();
+        }, 30 * 1000);
+        console.log('[AUTOTRADER] 🎯 Managing operator exits every 30s');
     },
 
-    // Main scan loop - analyze all assets for trade opportunities
+    manageAllExits: async () => {
+        if (exitPassRunning) return; // Previous pass still going
+        exitPassRunning = true;
+        try {
+            for (const mode of BOT_MODES) {
+                try {
+                    await AutoTraderService.manageExits(bots[mode]);
+                } catch (err) {
+                    console.error(`[AUTOTRADER/${mode}] Exit pass error:`, err);
+                }
+            }
+        } finally {
+            exitPassRunning = false;
+        }
+    },
+
+    // Main scan loop - analyze all assets once, then let each running bot trade
     scan: async () => {
-        if (!botConfig.enabled || !ConfigService.isPaperTradingAllowed()) {
-            return;
+        const active = runningBots();
+        if (active.length === 0) return;
+
+        if (!ConfigService.isPaperTradingAllowed()) return;
+
+        try {
+            // Get ML predictions with the lowest threshold any preset uses
+            const cycle: ScanCycle = {
+                predictions: await MLPredictorService.getHighConfidencePredictions(30),
+                signals: new Map(),
+                hijacks: new Map()
+            };
+
+            for (const bot of active) {
+                await AutoTraderService.scanBot(bot, cycle);
+            }
+        } catch (err) {
+            console.error('[AUTOTRADER] Scan error:', err);
         }
+    },
+
+    // The bot's open positions against its own take-profit, trailing and stop
+    // loss (at the latest trade price). Positions with a resting exit order
+    // (a bracket's legs) are left to it.
+    manageExits: async (bot: Bot) => {
+        const { config } = bot;
+        const accountId = PortfolioService.getAccountId(config.mode);
+        if (accountId === null) return;
+
+        const open = await query(`SELECT * FROM paper_trades WHERE account_id = $1 AND status = 'OPEN'`, [accountId]);
+        for (const trade of open.rows) {
+            if (PaperOrderService.hasWorkingExit(trade.id)) continue;
+
+            const price = await MarketDataModel.getLatestPrice(trade.ticker);
+            if (price === 0) continue;
+
+            const side: PositionSide = trade.side === 'SHORT' ? 'SHORT' : 'LONG';
+            const sign = sideSign(side);
+            const entryPrice = parseFloat(trade.entry_price);
+            const pnlPercent = sign * ((price - entryPrice) / entryPrice) * 100;
+
+            const mark = waterMarks.get(trade.id) || entryPrice;
+            const best = sign * (price - mark) > 0 ? price : mark;
+            waterMarks.set(trade.id, best);
+            const giveBack = sign * ((best - price) / best) * 100;
+
+            let reason: string | null = null;
+            if (pnlPercent >= config.takeProfitPercent) {
+                reason = 'TAKE_PROFIT';
+            } else if (config.trailingStopPercent > 0 && pnlPercent > 0 && giveBack >= config.trailingStopPercent) {
+                reason = `TRAILING_STOP (${side === 'SHORT' ? 'Low' : 'High'}: $${best.toFixed(2)})`;
+            } else if (pnlPercent <= config.stopLossPercent) {
+                reason = 'STOP_LOSS';
+            }
+            if (!reason) continue;
+
+            const exitFill = PortfolioService.quoteFill(trade.ticker, orderSide(side, 'CLOSE'), price, parseFloat(trade.quantity));
+            const { profitUsd } = await PaperService.closePosition(trade, exitFill, reason);
+            waterMarks.delete(trade.id);
+            console.log(`[AUTOTRADER/${config.mode}] ${profitUsd >= 0 ? '💰' : '💸'} CLOSED ${side} ${trade.ticker}. P&L: $${profitUsd.toFixed(2)} (${reason})`);
+        }
+    },
+
+    // One bot's pass over the cycle's predictions
+    scanBot: async (bot: Bot, cycle: ScanCycle) => {
+        const { config, stats } = bot;
+        const tag = `[AUTOTRADER/${config.mode}]`;
 
         try {
-            // Get ML predictions with lower threshold to see what's available
-            const allPredictions = await MLPredictorService.getHighConfidencePredictions(30);
-            const mlPredictions = allPredictions.filter(p => p.confidence >= botConfig.minMLConfidence);
+            const allPredictions = cycle.predictions;
+            const mlPredictions = allPredictions.filter(p => p.confidence >= config.minMLConfidence);
             
-            console.log(`[AUTOTRADER] Scan: ${allPredictions.length} predictions found, ${mlPredictions.length} meet ${botConfig.minMLConfidence}% threshold`);
+            console.log(`${tag} Scan: ${allPredictions.length} predictions found, ${mlPredictions.length} meet ${config.minMLConfidence}% threshold`);
             
             // Log top predictions for debugging
             if (allPredictions.length > 0 && mlPredictions.length === 0) {
                 const top = allPredictions.slice(0, 3).map(p => `${p.ticker}:${p.confidence}%`).join(', ');
-                console.log(`[AUTOTRADER] Top predictions (below threshold): ${top}`);
+                console.log(`${tag} Top predictions (below threshold): ${top}`);
             }
             
             for (const prediction of mlPredictions) {
                 // Skip if on cooldown
-                if (AutoTraderService.isOnCooldown(prediction.ticker)) {
-                    console.log(`[AUTOTRADER] ${prediction.ticker} on cooldown, skipping`);
+                if (AutoTraderService.isOnCooldown(bot, prediction.ticker)) {
+                    console.log(`${tag} ${prediction.ticker} on cooldown, skipping`);
                     continue;
                 }
 
-                // Generate full trade signal with alignment check
-                const signal = await AutoTraderService.generateSignal(prediction);
+                // Generate full trade signal with alignment check (once per cycle)
+                if (!cycle.signals.has(prediction.ticker)) {
+                    cycle.signals.set(prediction.ticker, AutoTraderService.generateSignal(prediction));
+                }
+                const signal = await cycle.signals.get(prediction.ticker)!;
                 
-                console.log(`[AUTOTRADER] ${prediction.ticker} signal: ML=${prediction.confidence}%, Align=${signal?.alignmentScore || 0}%, Required=${botConfig.minAlignmentScore}%`);
+                console.log(`${tag} ${prediction.ticker} signal: ML=${prediction.confidence}%, Align=${signal?.alignmentScore || 0}%, Required=${config.minAlignmentScore}%`);
                 
-                if (signal && signal.alignmentScore >= botConfig.minAlignmentScore) {
-                    botStats.signalsGenerated++;
-                    botStats.lastSignal = signal;
+                if (signal && signal.alignmentScore >= config.minAlignmentScore) {
+                    stats.signalsGenerated++;
+                    stats.lastSignal = signal;
 
                     // Check if we can execute
-                    const canTrade = await AutoTraderService.canExecuteTrade(signal);
+                    const canTrade = await AutoTraderService.canExecuteTrade(bot, signal);
                     
                     if (canTrade) {
-                        await AutoTraderService.executeTrade(signal);
+                        await AutoTraderService.executeTrade(bot, signal);
                     }
                 }
             }
             
             // FALLBACK: If no ML predictions meet threshold, scan using hijack force
             if (mlPredictions.length === 0) {
-                console.log('[AUTOTRADER] No ML signals, scanning using Hijack Force fallback...');
-                await AutoTraderService.scanWithHijackForce();
+                console.log(`${tag} No ML signals, scanning using Hijack Force fallback...`);
+                await AutoTraderService.scanWithHijackForce(bot, cycle);
             }
 
             // Update uptime
-            botStats.uptime = Math.floor((Date.now() - startTime) / 1000);
+            stats.uptime = Math.floor((Date.now() - bot.startTime) / 1000);
 
         } catch (err) {
-            console.error('[AUTOTRADER] Scan error:', err);
+            console.error(`${tag} Scan error:`, err);
         }
     },
     
     // Fallback: Scan using hijack force from leaderboard when ML data is sparse
-    scanWithHijackForce: async () => {
+    scanWithHijackForce: async (bot: Bot, cycle: ScanCycle) => {
         try {
             const leaderboard = await SentimentService.getMarketLeaderboard();
             
@@ -232,31 +390,31 @@ export const AutoTraderService = {
                 .filter((a: any) => a.hijackForce > 0.001) // Any detectable force
                 .slice(0, 5); // Top 5
                 
-            console.log(`[OPERATOR] 🧠 Scanning ${candidates.length} hijack candidates...`);
+            console.log(`[OPERATOR/${bot.config.mode}] 🧠 Scanning ${candidates.length} hijack candidates...`);
             
             for (const asset of candidates) {
-                if (AutoTraderService.isOnCooldown(asset.ticker)) continue;
+                if (AutoTraderService.isOnCooldown(bot, asset.ticker)) continue;
                 
-                // NEW: Use Brain Scanner for deep psychological analysis
-                const hijackSignal = await BrainScannerService.scanHerdBrain(
-                    asset.ticker, 
-                    asset.hijackForce
-                );
+                // NEW: Use Brain Scanner for deep psychological analysis (once per cycle)
+                if (!cycle.hijacks.has(asset.ticker)) {
+                    cycle.hijacks.set(asset.ticker, BrainScannerService.scanHerdBrain(asset.ticker, asset.hijackForce));
+                }
+                const hijackSignal = await cycle.hijacks.get(asset.ticker)!;
                 
-                console.log(`[OPERATOR] ${asset.ticker}: ${hijackSignal.brainState} | Strength: ${hijackSignal.hijackStrength}% | ${hijackSignal.optimalDirection}`);
+                console.log(`[OPERATOR/${bot.config.mode}] ${asset.ticker}: ${hijackSignal.brainState} | Strength: ${hijackSignal.hijackStrength}% | ${hijackSignal.optimalDirection}`);
                 
                 // Only execute on strong hijacks
                 if (BrainScannerService.isStrongHijack(hijackSignal)) {
                     const signal = AutoTraderService.convertHijackToTradeSignal(hijackSignal, asset);
                     
-                    botStats.signalsGenerated++;
-                    botStats.lastSignal = signal;
+                    bot.stats.signalsGenerated++;
+                    bot.stats.lastSignal = signal;
                     
-                    const canTrade = await AutoTraderService.canExecuteTrade(signal);
+                    const canTrade = await AutoTraderService.canExecuteTrade(bot, signal);
                     if (canTrade) {
                         const recommendation = BrainScannerService.getRecommendation(hijackSignal);
-                        console.log(`[OPERATOR] 🎯 ${recommendation}`);
-                        await AutoTraderService.executeTrade(signal, hijackSignal);
+                        console.log(`[OPERATOR/${bot.config.mode}] 🎯 ${recommendation}`);
+                        await AutoTraderService.executeTrade(bot, signal, hijackSignal);
                     }
                 }
             }
@@ -272,6 +430,7 @@ export const AutoTraderService = {
             signal: t.type === 'FOMO' || t.type === 'MOMENTUM' ? 'BULLISH' : 
                     t.type === 'FUD' ? 'BEARISH' : 
                     t.type === 'CONTRARIAN' ? (hijack.optimalDirection === 'LONG' ? 'BULLISH' : 'BEARISH') :
+                    t.type === 'ORDER_BOOK' ? (t.name === 'BID_WALL' ? 'BULLISH' : 'BEARISH') :
                     'NEUTRAL',
             value: t.description,
             weight: t.strength
@@ -455,8 +614,8 @@ export const AutoTraderService = {
             if (socialSignal === 'BEARISH') bearishWeight += socialWeight;
         } catch (e) { /* Skip if unavailable */ }
 
-        // 4. Options Flow (weight: 15%) - for BTC/ETH only
-        if (['BTC', 'ETH', 'BTCUSD', 'ETHUSD'].includes(ticker) || ['BTC', 'ETH'].includes(baseTicker)) {
+        // 4. Options Flow (weight: 15%) - assets with an options market only
+        if (AssetRegistryService.get(baseTicker)?.hasOptions) {
             try {
                 const options = await OptionsFlowService.getMarketSentiment();
                 const optWeight = 15;
@@ -510,12 +669,7 @@ export const AutoTraderService = {
         // Get current price (from ingestor cache or default)
         let price = 0;
         try {
-            const priceData = await query(
-                `SELECT sentiment_score as price FROM sentiment_metrics 
-                 WHERE ticker = $1 ORDER BY time DESC LIMIT 1`,
-                [ticker]
-            );
-            price = priceData.rows[0]?.price || 0;
+            price = await MarketDataModel.getLatestPrice(ticker);
         } catch (e) { price = 0; }
 
         return {
@@ -529,25 +683,30 @@ export const AutoTraderService = {
         };
     },
 
-    // Check if we can execute a trade
-    canExecuteTrade: async (signal: TradeSignal): Promise<boolean> => {
+    // Check if this bot can take the trade (limits are per bot / per account)
+    canExecuteTrade: async (bot: Bot, signal: TradeSignal): Promise<boolean> => {
+        const accountId = PortfolioService.getAccountId(bot.config.mode);
+        if (accountId === null) {
+            return false;
+        }
+
         // Check max positions
-        const openCount = await query(`SELECT COUNT(*) as cnt FROM paper_trades WHERE status = 'OPEN'`);
-        if (parseInt(openCount.rows[0].cnt) >= botConfig.maxOpenPositions) {
+        const openCount = await query(`SELECT COUNT(*) as cnt FROM paper_trades WHERE account_id = $1 AND status = 'OPEN'`, [accountId]);
+        if (parseInt(openCount.rows[0].cnt) >= bot.config.maxOpenPositions) {
             return false;
         }
 
         // Check if already have position in this asset
         const existing = await query(
-            `SELECT id FROM paper_trades WHERE ticker = $1 AND status = 'OPEN'`,
-            [signal.ticker]
+            `SELECT id FROM paper_trades WHERE account_id = $1 AND ticker = $2 AND status = 'OPEN'`,
+            [accountId, signal.ticker]
         );
-        if (existing.rows.length > 0) {
+        if (existing.rows.length > 0 || PaperOrderService.hasWorkingEntry(accountId, signal.ticker)) {
             return false;
         }
 
-        // For CONSERVATIVE mode, only take LONG positions (no shorts in paper trading)
-        if (botConfig.mode === 'CONSERVATIVE' && signal.direction === 'SHORT') {
+        // For CONSERVATIVE mode, only take LONG positions
+        if (bot.config.mode === 'CONSERVATIVE' && signal.direction === 'SHORT') {
             return false;
         }
 
@@ -555,29 +714,81 @@ export const AutoTraderService = {
     },
 
     // Execute a paper trade - "Once you hijack brains, every other thing will be added onto you"
-    executeTrade: async (signal: TradeSignal, hijackSignal?: HijackSignal) => {
+    executeTrade: async (bot: Bot, signal: TradeSignal, hijackSignal?: HijackSignal) => {
+        const { config, stats } = bot;
         try {
-            const quantity = botConfig.positionSizeUsd / signal.price;
+            const accountId = PortfolioService.getAccountId(config.mode);
+            if (accountId === null) return;
 
-            await query(
-                `INSERT INTO paper_trades (ticker, entry_price, quantity, hijack_force_at_entry, status) 
-                 VALUES ($1, $2, $3, $4, 'OPEN')`,
-                [signal.ticker, signal.price, quantity, signal.confidence / 100]
-            );
+            const sizing = await PositionSizingService.size(config.mode, signal.ticker, signal.price, config.positionSizeUsd);
+            if (sizing.notionalUsd <= 0) {
+                console.log(`[OPERATOR/${config.mode}] 💤 Skipping ${signal.direction} ${signal.ticker}: ${sizing.rationale}`);
+                return;
+            }
+            const quantity = sizing.quantity;
+            let priceNote: string;
+
+            if (config.useBracketOrders) {
+                // Market entry on the next tick; exits rest on the paper order book
+                const sign = signal.direction === 'SHORT' ? -1 : 1;
+                const placement = await PaperOrderService.placeOrder({
+                    account: config.mode,
+                    ticker: signal.ticker,
+                    side: orderSide(signal.direction, 'OPEN'),
+                    type: 'MARKET',
+                    quantity,
+                    takeProfit: signal.price * (1 + sign * config.takeProfitPercent / 100),
+                    stopLoss: signal.price * (1 + sign * config.stopLossPercent / 100),
+                    source: `OPERATOR/${config.mode}`,
+                    sizing
+                });
+                if (!placement.accepted) {
+                    console.log(`[OPERATOR/${config.mode}] 💤 Skipping ${signal.direction} ${signal.ticker}: ${placement.reason}`);
+                    return;
+                }
+                priceNote = `~$${signal.price.toFixed(2)} (bracket order #${placement.orders[0].id})`;
+            } else {
+                // Check the bot's paper account can carry it
+                const power = await PortfolioService.checkBuyingPower(config.mode, sizing.notionalUsd);
+                if (!power.allowed) {
+                    console.log(`[OPERATOR/${config.mode}] 💤 Skipping ${signal.direction} ${signal.ticker}: ${power.reason}`);
+                    return;
+                }
+
+                const fill = PortfolioService.quoteFill(signal.ticker, orderSide(signal.direction, 'OPEN'), signal.price, quantity);
+
+                await transaction(async db => {
+                    const inserted = await db(
+                        `INSERT INTO paper_trades (account_id, ticker, side, entry_price, entry_ref_price, quantity, fees, execution_cost, hijack_force_at_entry, status, sizing_method, sizing_rationale) 
+                         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'OPEN', $10, $11)
+                         RETURNING id`,
+                        [accountId, signal.ticker, signal.direction, fill.fillPrice, signal.price, quantity, fill.fee, fill.executionCost, signal.confidence / 100, sizing.method, sizing.rationale]
+                    );
+                    await PortfolioService.recordFill(
+                        accountId,
+                        { id: inserted.rows[0].id, ticker: signal.ticker, side: signal.direction, quantity },
+                        fill,
+                        'OPEN',
+                        db
+                    );
+                });
+                priceNote = `$${fill.fillPrice.toFixed(2)} (tick $${signal.price.toFixed(2)}, fee $${fill.fee.toFixed(2)})`;
+            }
 
             // Set cooldown
-            tradeCooldowns.set(signal.ticker, Date.now());
+            bot.cooldowns.set(signal.ticker, Date.now());
 
-            botStats.tradesExecuted++;
-            botStats.lastTrade = new Date();
+            stats.tradesExecuted++;
+            stats.lastTrade = new Date();
 
             // Brain Hijack themed logging
             const brainState = hijackSignal?.brainState || 'UNKNOWN';
             const contrarian = hijackSignal?.contrarian ? '🔄 CONTRARIAN' : '🌊 MOMENTUM';
             
-            console.log(`[OPERATOR] 🧠 BRAIN HIJACK EXECUTED`);
-            console.log(`[OPERATOR] ${contrarian} ${signal.direction} ${signal.ticker} @ $${signal.price.toFixed(2)}`);
+            console.log(`[OPERATOR] 🧠 BRAIN HIJACK EXECUTED (${config.mode})`);
+            console.log(`[OPERATOR] ${contrarian} ${signal.direction} ${signal.ticker} @ ${priceNote}`);
             console.log(`[OPERATOR] Herd State: ${brainState} | Strength: ${signal.alignmentScore}%`);
+            console.log(`[OPERATOR] Size: ${sizing.rationale}`);
             console.log(`[OPERATOR] Triggers: ${signal.signals.map(s => s.source).join(', ')}`);
 
             // Archive the trade
@@ -586,10 +797,10 @@ export const AutoTraderService = {
             // Telegram alert with Brain Hijack branding
             const emoji = hijackSignal?.contrarian ? '🔄' : '🧠';
             await TelegramService.sendMessage(
-                `${emoji} BRAIN HIJACK EXECUTED\n\n` +
+                `${emoji} BRAIN HIJACK EXECUTED (${config.mode})\n\n` +
                 `${contrarian} ${signal.direction}\n` +
                 `Asset: ${signal.ticker}\n` +
-                `Price: $${signal.price.toFixed(2)}\n` +
+                `Price: ${priceNote}\n` +
                 `Herd State: ${brainState}\n` +
                 `Hijack Strength: ${signal.alignmentScore}%\n` +
                 `Triggers: ${signal.signals.length}`
@@ -622,41 +833,50 @@ export const AutoTraderService = {
     },
 
     // Check cooldown
-    isOnCooldown: (ticker: string): boolean => {
-        const lastTrade = tradeCooldowns.get(ticker);
+    isOnCooldown: (bot: Bot, ticker: string): boolean => {
+        const lastTrade = bot.cooldowns.get(ticker);
         if (!lastTrade) return false;
         
-        const cooldownMs = botConfig.cooldownMinutes * 60 * 1000;
+        const cooldownMs = bot.config.cooldownMinutes * 60 * 1000;
         return (Date.now() - lastTrade) < cooldownMs;
     },
 
-    // Get bot configuration
-    getConfig: (): BotConfig => botConfig,
+    // Get bot configuration (defaults to the last bot started)
+    getConfig: (mode: BotMode = lastStarted): BotConfig => bots[mode].config,
 
-    // Update configuration
-    updateConfig: (updates: Partial<BotConfig>): BotConfig => {
-        botConfig = { ...botConfig, ...updates };
-        
-        // If mode changed, apply preset
-        if (updates.mode) {
-            botConfig = { ...botConfig, ...MODE_PRESETS[updates.mode] };
-        }
+    // Update one bot's configuration (its mode preset stays applied unless overridden)
+    updateConfig: (mode: BotMode, updates: Partial<BotConfig>): BotConfig => {
+        const bot = bots[mode];
+        const { mode: _ignored, enabled: _enabled, ...rest } = updates;
+        bot.config = { ...bot.config, ...rest };
         
-        console.log('[AUTOTRADER] Config updated:', botConfig);
-        return botConfig;
+        console.log(`[AUTOTRADER] ${mode} config updated:`, bot.config);
+        return bot.config;
     },
 
-    // Get bot stats
-    getStats: (): BotStats => {
-        if (botStats.isRunning) {
-            botStats.uptime = Math.floor((Date.now() - startTime) / 1000);
+    // Get bot stats (defaults to the last bot started)
+    getStats: (mode: BotMode = lastStarted): BotStats => {
+        const bot = bots[mode];
+        if (bot.stats.isRunning) {
+            bot.stats.uptime = Math.floor((Date.now() - bot.startTime) / 1000);
         }
-        return botStats;
+        return bot.stats;
     },
 
-    // Get recent signals (from memory)
+    // Every bot's config and stats
+    getBots: () => BOT_MODES.map(mode => ({
+        mode,
+        stats: AutoTraderService.getStats(mode),
+        config: bots[mode].config
+    })),
+
+    // Get recent signals (from memory): the latest across all bots
     getRecentSignals: (): TradeSignal | null => {
-        return botStats.lastSignal;
+        const signals = BOT_MODES
+            .map(m => bots[m].stats.lastSignal)
+            .filter((s): s is TradeSignal => s !== null)
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        return signals[0] || null;
     },
 
     // Manual signal generation (for testing)
@@ -0,0 +1,250 @@
+import { randomBytes } from 'crypto';
+import jwt, { JwtHeader } from 'jsonwebtoken';
+import { Liquidity } from '../../../shared/execution-cost.util';
+import {
+    ExchangeBalance, ExchangeClient, ExchangeError, ExchangeFill, ExchangeOrder, ExchangeOrderRequest, ExchangeOrderStatus
+} from '../exchange.client';
+
+// COINBASE ADVANCED TRADE CLIENT
+// REST v3 brokerage API. Every request carries a fresh ES256 JWT signed with
+// a CDP API key: COINBASE_API_KEY is the key name
+// (organizations/{org}/apiKeys/{id}), COINBASE_API_SECRET its EC private key
+// in PEM (literal \n sequences are accepted, as .env files tend to store it).
+// The token is bound to one method + host + path and lives two minutes.
+// COINBASE_API_URL can point somewhere else (e.g. the sandbox).
+// Sizes and prices are rounded down to the product's base / quote increment
+// (looked up once per product) before they're sent: finer ones are rejected.
+
+const BASE_URL = process.env.COINBASE_API_URL || 'https://api.coinbase.com';
+const API_KEY = process.env.COINBASE_API_KEY;
+const API_SECRET = process.env.COINBASE_API_SECRET?.replace(/\\n/g, '\n');
+const JWT_TTL_SECONDS = 120;
+const MAX_SEARCH_PAGES = 5;     // findOrderByClientId: orders listed newest first, 100 a page
+
+const host = new URL(BASE_URL).host;
+
+interface ProductIncrements {
+    base: string;       // e.g. "0.00000001"
+    quote: string;      // e.g. "0.01"
+}
+
+// Key: product id
+const increments: Map<string, ProductIncrements> = new Map();
+
+const sign = (method: string, path: string): string => {
+    const now = Math.floor(Date.now() / 1000);
+    return jwt.sign(
+        { iss: 'cdp', sub: API_KEY, nbf: now, exp: now + JWT_TTL_SECONDS, uri: `${method} ${host}${path}` },
+        API_SECRET!,
+        { algorithm: 'ES256', header: { alg: 'ES256', kid: API_KEY, nonce: randomBytes(16).toString('hex') } as JwtHeader }
+    );
+};
+
+// Query strings aren't part of the signed uri
+const request = async (method: 'GET' | 'POST', path: string, body?: any, params?: URLSearchParams): Promise<any> => {
+    if (!CoinbaseClient.isConfigured()) {
+        throw new ExchangeError('coinbase', 401, 'COINBASE_API_KEY / COINBASE_API_SECRET not set');
+    }
+
+    const qs = params && params.toString() ? `?${params.toString()}` : '';
+    const res = await fetch(`${BASE_URL}${path}${qs}`, {
+        method,
+        headers: {
+            Authorization: `Bearer ${sign(method, path)}`,
+            'Content-Type': 'application/json'
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+        throw new ExchangeError('coinbase', res.status, text.slice(0, 200) || res.statusText);
+    }
+    return text ? JSON.parse(text) : {};
+};
+
+// Round down to a whole number of increments, in plain decimal notation
+// (String() would give 0.0016666666666666668 or 1e-7)
+const floorTo = (value: number, increment: string): string => {
+    const step = parseFloat(increment);
+    const decimals = increment.includes('.') ? increment.replace(/0+$/, '').split('.')[1].length : 0;
+    const steps = Math.floor(value / step + 1e-9);
+    return (steps * step).toFixed(decimals);
+};
+
+const getIncrements = async (productId: string): Promise<ProductIncrements> => {
+    const cached = increments.get(productId);
+    if (cached) return cached;
+
+    const product = await request('GET', `/api/v3/brokerage/products/${encodeURIComponent(productId)}`);
+    const found = { base: String(product.base_increment), quote: String(product.quote_increment) };
+    increments.set(productId, found);
+    return found;
+};
+
+const toStatus = (status: string, filled: number): ExchangeOrderStatus => {
+    switch (status) {
+        case 'FILLED': return 'FILLED';
+        case 'CANCELLED':
+        case 'EXPIRED': return 'CANCELED';
+        case 'FAILED': return 'REJECTED';
+        case 'PENDING':
+        case 'QUEUED': return 'PENDING';
+        default: return filled > 0 ? 'PARTIALLY_FILLED' : 'OPEN';    // OPEN, CANCEL_QUEUED
+    }
+};
+
+const toOrder = (raw: any): ExchangeOrder => {
+    const config = raw.order_configuration || {};
+    const limit = config.limit_limit_gtc || config.limit_limit_gtd || null;
+    const market = config.market_market_ioc || null;
+    const filled = parseFloat(raw.filled_size || '0');
+    const avg = parseFloat(raw.average_filled_price || '0');
+
+    return {
+        exchangeOrderId: raw.order_id,
+        clientOrderId: raw.client_order_id,
+        productId: raw.product_id,
+        side: raw.side === 'SELL' ? 'sell' : 'buy',
+        type: limit ? 'LIMIT' : 'MARKET',
+        quantity: parseFloat((limit || market)?.base_size || raw.filled_size || '0'),
+        filledQuantity: filled,
+        avgFillPrice: filled > 0 && avg > 0 ? avg : null,
+        fees: parseFloat(raw.total_fees || '0'),
+        limitPrice: limit ? parseFloat(limit.limit_price) : null,
+        status: toStatus(raw.status, filled),
+        rejectReason: raw.reject_reason || raw.reject_message || null,
+        createdAt: raw.created_time ? new Date(raw.created_time) : new Date()
+    };
+};
+
+export const CoinbaseClient: ExchangeClient = {
+    name: 'coinbase',
+
+    isConfigured: () => !!(API_KEY && API_SECRET),
+
+    placeOrder: async (order: ExchangeOrderRequest): Promise<ExchangeOrder> => {
+        const { base, quote } = await getIncrements(order.productId);
+        const baseSize = floorTo(order.quantity, base);
+        const limitPrice = order.type === 'LIMIT' ? floorTo(order.limitPrice!, quote) : null;
+        const quantity = parseFloat(baseSize);
+
+        const rejected = (reason: string): ExchangeOrder => ({
+            exchangeOrderId: '',
+            clientOrderId: order.clientOrderId,
+            productId: order.productId,
+            side: order.side,
+            type: order.type,
+            quantity,
+            filledQuantity: 0,
+            avgFillPrice: null,
+            fees: 0,
+            limitPrice: limitPrice !== null ? parseFloat(limitPrice) : null,
+            status: 'REJECTED',
+            rejectReason: reason,
+            createdAt: new Date()
+        });
+        if (quantity <= 0) return rejected(`Size ${order.quantity} is below the base increment ${base}`);
+        if (limitPrice !== null && parseFloat(limitPrice) <= 0) return rejected(`Limit price below the quote increment ${quote}`);
+
+        const order_configuration = order.type === 'LIMIT'
+            ? {
+                limit_limit_gtc: {
+                    base_size: baseSize,
+                    limit_price: limitPrice,
+                    post_only: !!order.postOnly
+                }
+            }
+            : { market_market_ioc: { base_size: baseSize } };
+
+        const response = await request('POST', '/api/v3/brokerage/orders', {
+            client_order_id: order.clientOrderId,
+            product_id: order.productId,
+            side: order.side === 'sell' ? 'SELL' : 'BUY',
+            order_configuration
+        });
+
+        const accepted = response.success === true;
+        const error = response.error_response || {};
+        if (!accepted) return rejected(error.message || error.error || response.failure_reason || 'Rejected');
+
+        return {
+            ...rejected(''),
+            exchangeOrderId: response.success_response?.order_id,
+            status: 'OPEN',
+            rejectReason: null
+        };
+    },
+
+    cancelOrder: async (exchangeOrderId: string): Promise<boolean> => {
+        const response = await request('POST', '/api/v3/brokerage/orders/batch_cancel', { order_ids: [exchangeOrderId] });
+        return response.results?.[0]?.success === true;
+    },
+
+    getOrder: async (exchangeOrderId: string): Promise<ExchangeOrder | null> => {
+        try {
+            const response = await request('GET', `/api/v3/brokerage/orders/historical/${encodeURIComponent(exchangeOrderId)}`);
+            return response.order ? toOrder(response.order) : null;
+        } catch (err) {
+            if (err instanceof ExchangeError && err.status === 404) return null;
+            throw err;
+        }
+    },
+
+    // There's no lookup by client order id: page through orders created since
+    findOrderByClientId: async (clientOrderId: string, since: Date): Promise<ExchangeOrder | null> => {
+        let cursor = '';
+        for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+            const params = new URLSearchParams({ limit: '100', start_date: since.toISOString() });
+            if (cursor) params.set('cursor', cursor);
+
+            const response = await request('GET', '/api/v3/brokerage/orders/historical/batch', undefined, params);
+            const match = (response.orders || []).find((o: any) => o.client_order_id === clientOrderId);
+            if (match) return toOrder(match);
+
+            if (!response.has_next) break;
+            cursor = response.cursor;
+        }
+        return null;
+    },
+
+    getFills: async (exchangeOrderId?: string): Promise<ExchangeFill[]> => {
+        const params = new URLSearchParams({ limit: '100' });
+        if (exchangeOrderId) params.append('order_ids', exchangeOrderId);
+
+        const response = await request('GET', '/api/v3/brokerage/orders/historical/fills', undefined, params);
+        return (response.fills || []).map((fill: any): ExchangeFill => ({
+            fillId: fill.entry_id || fill.trade_id,
+            exchangeOrderId: fill.order_id,
+            productId: fill.product_id,
+            side: fill.side === 'SELL' ? 'sell' : 'buy',
+            price: parseFloat(fill.price),
+            quantity: parseFloat(fill.size),
+            fee: parseFloat(fill.commission || '0'),
+            liquidity: (fill.liquidity_indicator === 'MAKER' ? 'maker' : 'taker') as Liquidity,
+            time: new Date(fill.trade_time)
+        }));
+    },
+
+    // Accounts are paged; follow the cursor
+    getBalances: async (): Promise<ExchangeBalance[]> => {
+        const balances: ExchangeBalance[] = [];
+        let cursor = '';
+        do {
+            const params = new URLSearchParams({ limit: '250' });
+            if (cursor) params.set('cursor', cursor);
+
+            const response = await request('GET', '/api/v3/brokerage/accounts', undefined, params);
+            for (const account of response.accounts || []) {
+                balances.push({
+                    currency: account.currency,
+                    available: parseFloat(account.available_balance?.value || '0'),
+                    hold: parseFloat(account.hold?.value || '0')
+                });
+            }
+            cursor = response.has_next ? response.cursor : '';
+        } while (cursor);
+
+        return balances;
+    }
+};
@@ -0,0 +1,239 @@
+import { ConfigService } from '../../../shared/config.service';
+import { estimateFill, VENUE_FEES } from '../../../shared/execution-cost.util';
+import { NormalizedTick } from '../../ingestor/exchange.adapter';
+import {
+    ExchangeBalance, ExchangeClient, ExchangeFill, ExchangeOrder, ExchangeOrderRequest, FINAL_EXCHANGE_STATUSES
+} from '../exchange.client';
+
+// MOCK EXCHANGE
+// An in-process venue for exercising live mode on a dev box: no credentials,
+// no network, fills driven by our own tick stream (live feeds or a replay).
+//
+//   MARKET   fills in full on the product's next tick as taker, priced with
+//            the execution-cost model (configured spread / slippage / fees)
+//   LIMIT    rests; fills at the limit, as maker, when a tick trades through
+//            it, up to that tick's size (so big orders fill in pieces)
+//
+// Balances start at MOCK_EXCHANGE_USD (default $10k) and move with fills.
+// Open orders hold what they could spend; an order the account can't cover
+// is rejected, as is a second order under an existing client order id (the
+// existing one is returned, as Coinbase does). State is memory only:
+// restore() rebuilds orders and balances from live_orders on startup, so a
+// restart doesn't look like the account emptied (orders still working when
+// it went down come back CANCELED, as if the venue dropped them).
+
+interface MockOrder extends ExchangeOrder {
+    notional: number;             // Filled quantity * price, for the average
+}
+
+const STARTING_USD = Number(process.env.MOCK_EXCHANGE_USD) || 10_000;
+const MAX_FILLS = 1000;
+
+const orders: Map<string, MockOrder> = new Map();
+const byClientId: Map<string, string> = new Map();
+const working: Set<MockOrder> = new Set();
+const fills: ExchangeFill[] = [];
+const totals: Map<string, number> = new Map([['USD', STARTING_USD]]);
+const lastPrices: Map<string, number> = new Map();
+// Ids carry the boot time so they don't repeat across restarts (live_orders outlives us)
+const RUN_ID = Date.now().toString(36);
+let nextOrderId = 1;
+let nextFillId = 1;
+
+const baseCurrency = (productId: string) => productId.split('-')[0];
+const takerRate = () => VENUE_FEES[ConfigService.getCostModel().venue].takerBps / 10_000;
+
+// What an open order keeps out of `available`, by currency
+const holds = (): Map<string, number> => {
+    const held: Map<string, number> = new Map();
+    for (const order of Array.from(working)) {
+        const remaining = order.quantity - order.filledQuantity;
+        if (order.side === 'buy') {
+            const price = order.limitPrice ?? lastPrices.get(order.productId) ?? 0;
+            held.set('USD', (held.get('USD') || 0) + remaining * price * (1 + takerRate()));
+        } else {
+            const currency = baseCurrency(order.productId);
+            held.set(currency, (held.get(currency) || 0) + remaining);
+        }
+    }
+    return held;
+};
+
+const available = (currency: string): number =>
+    (totals.get(currency) || 0) - (holds().get(currency) || 0);
+
+const fill = (order: MockOrder, refPrice: number, quantity: number, liquidity: 'maker' | 'taker', time: Date) => {
+    const cost = estimateFill(order.side, refPrice, quantity, ConfigService.getCostModel(), liquidity);
+    const base = baseCurrency(order.productId);
+
+    if (order.side === 'buy') {
+        totals.set('USD', (totals.get('USD') || 0) - cost.notional - cost.fee);
+        totals.set(base, (totals.get(base) || 0) + quantity);
+    } else {
+        totals.set(base, (totals.get(base) || 0) - quantity);
+        totals.set('USD', (totals.get('USD') || 0) + cost.notional - cost.fee);
+    }
+
+    order.filledQuantity += quantity;
+    order.notional += cost.notional;
+    order.avgFillPrice = order.notional / order.filledQuantity;
+    order.fees += cost.fee;
+    order.status = order.filledQuantity >= order.quantity * (1 - 1e-9) ? 'FILLED' : 'PARTIALLY_FILLED';
+    if (order.status === 'FILLED') working.delete(order);
+
+    fills.push({
+        fillId: `mock-${RUN_ID}-fill-${nextFillId++}`,
+        exchangeOrderId: order.exchangeOrderId,
+        productId: order.productId,
+        side: order.side,
+        price: cost.fillPrice,
+        quantity,
+        fee: cost.fee,
+        liquidity,
+        time
+    });
+    if (fills.length > MAX_FILLS) fills.shift();
+};
+
+const snapshot = (order: MockOrder): ExchangeOrder => {
+    const { notional, ...rest } = order;
+    return { ...rest };
+};
+
+export const MockExchangeClient: ExchangeClient & {
+    onTick: (tick: NormalizedTick) => void;
+    reset: () => void;
+    restore: (previous: ExchangeOrder[]) => void;
+} = {
+    name: 'mock',
+
+    isConfigured: () => true,
+
+    placeOrder: async (request: ExchangeOrderRequest): Promise<ExchangeOrder> => {
+        const existing = byClientId.get(request.clientOrderId);
+        if (existing) return snapshot(orders.get(existing)!);
+
+        const order: MockOrder = {
+            exchangeOrderId: `mock-${RUN_ID}-${nextOrderId++}`,
+            clientOrderId: request.clientOrderId,
+            productId: request.productId,
+            side: request.side,
+            type: request.type,
+            quantity: request.quantity,
+            filledQuantity: 0,
+            avgFillPrice: null,
+            fees: 0,
+            notional: 0,
+            limitPrice: request.type === 'LIMIT' ? request.limitPrice ?? null : null,
+            status: 'OPEN',
+            rejectReason: null,
+            createdAt: new Date()
+        };
+
+        const lastPrice = lastPrices.get(request.productId);
+        const price = order.limitPrice ?? lastPrice;
+        if (!(request.quantity > 0)) {
+            order.rejectReason = 'INVALID_SIZE';
+        } else if (order.type === 'LIMIT' && !(order.limitPrice! > 0)) {
+            order.rejectReason = 'INVALID_LIMIT_PRICE';
+        } else if (price === undefined) {
+            order.rejectReason = `NO_MARKET: no ticks for ${request.productId} yet`;
+        } else if (order.type === 'LIMIT' && request.postOnly && lastPrice !== undefined &&
+            (order.side === 'buy' ? order.limitPrice! >= lastPrice : order.limitPrice! <= lastPrice)) {
+            order.rejectReason = 'POST_ONLY_WOULD_CROSS';
+        } else if (order.side === 'buy' && request.quantity * price * (1 + takerRate()) > available('USD')) {
+            order.rejectReason = 'INSUFFICIENT_FUND';
+        } else if (order.side === 'sell' && request.quantity > available(baseCurrency(request.productId))) {
+            order.rejectReason = 'INSUFFICIENT_FUND';
+        }
+        if (order.rejectReason) order.status = 'REJECTED';
+        else working.add(order);
+
+        orders.set(order.exchangeOrderId, order);
+        byClientId.set(order.clientOrderId, order.exchangeOrderId);
+        return snapshot(order);
+    },
+
+    cancelOrder: async (exchangeOrderId: string): Promise<boolean> => {
+        const order = orders.get(exchangeOrderId);
+        if (!order || FINAL_EXCHANGE_STATUSES.includes(order.status)) return false;
+
+        order.status = 'CANCELED';
+        working.delete(order);
+        return true;
+    },
+
+    getOrder: async (exchangeOrderId: string): Promise<ExchangeOrder | null> => {
+        const order = orders.get(exchangeOrderId);
+        return order ? snapshot(order) : null;
+    },
+
+    findOrderByClientId: async (clientOrderId: string): Promise<ExchangeOrder | null> => {
+        const id = byClientId.get(clientOrderId);
+        return id ? snapshot(orders.get(id)!) : null;
+    },
+
+    getFills: async (exchangeOrderId?: string): Promise<ExchangeFill[]> =>
+        (exchangeOrderId ? fills.filter(f => f.exchangeOrderId === exchangeOrderId) : fills.slice(-100))
+            .map(f => ({ ...f })),
+
+    getBalances: async (): Promise<ExchangeBalance[]> => {
+        const held = holds();
+        return Array.from(totals.entries()).map(([currency, total]) => ({
+            currency,
+            available: total - (held.get(currency) || 0),
+            hold: held.get(currency) || 0
+        }));
+    },
+
+    // Match resting orders for the tick's product (fed by the ingestor)
+    onTick: (tick: NormalizedTick) => {
+        const productId = `${tick.baseTicker}-USD`;
+        lastPrices.set(productId, tick.price);
+
+        for (const order of Array.from(working)) {
+            if (order.productId !== productId) continue;
+
+            const remaining = order.quantity - order.filledQuantity;
+            if (order.type === 'MARKET') {
+                fill(order, tick.price, remaining, 'taker', tick.time);
+            } else {
+                const crosses = order.side === 'buy' ? tick.price <= order.limitPrice! : tick.price >= order.limitPrice!;
+                const quantity = Math.min(remaining, tick.size);
+                if (crosses && quantity > 0) fill(order, order.limitPrice!, quantity, 'maker', tick.time);
+            }
+        }
+    },
+
+    // Back to an empty book and the starting balance
+    reset: () => {
+        orders.clear();
+        byClientId.clear();
+        working.clear();
+        fills.length = 0;
+        totals.clear();
+        totals.set('USD', STARTING_USD);
+        lastPrices.clear();
+    },
+
+    // Starting balance plus every recorded fill, and the orders behind them
+    restore: (previous: ExchangeOrder[]) => {
+        MockExchangeClient.reset();
+
+        for (const recorded of previous) {
+            const order: MockOrder = {
+                ...recorded,
+                status: FINAL_EXCHANGE_STATUSES.includes(recorded.status) ? recorded.status : 'CANCELED',
+                notional: recorded.filledQuantity * (recorded.avgFillPrice ?? 0)
+            };
+            orders.set(order.exchangeOrderId, order);
+            byClientId.set(order.clientOrderId, order.exchangeOrderId);
+            if (order.filledQuantity <= 0) continue;
+
+            const base = baseCurrency(order.productId);
+            const sign = order.side === 'buy' ? 1 : -1;
+            totals.set(base, (totals.get(base) || 0) + sign * order.filledQuantity);
+            totals.set('USD', (totals.get('USD') || 0) - sign * order.notional - order.fees);
+        }
+    }
+};
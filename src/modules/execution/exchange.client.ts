@@ -0,0 +1,95 @@
+import { FillSide, Liquidity } from '../../shared/execution-cost.util';
+
+// EXCHANGE CLIENTS
+// The authenticated side of a venue: what LiveTradingService needs to put
+// real orders in and read back what happened to them. Every client speaks
+// the same order / fill / balance shapes, so live code runs unchanged against
+// Coinbase Advanced Trade or the in-process mock exchange.
+
+export type ExchangeName = 'coinbase' | 'mock';
+
+export const EXCHANGE_NAMES: ExchangeName[] = ['coinbase', 'mock'];
+
+export type ExchangeOrderType = 'MARKET' | 'LIMIT';
+export type ExchangeOrderStatus = 'PENDING' | 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED';
+
+export interface ExchangeOrderRequest {
+    clientOrderId: string;        // Ours; the venue won't create a second order under it
+    productId: string;            // BTC-USD
+    side: FillSide;
+    type: ExchangeOrderType;
+    quantity: number;             // Base currency
+    limitPrice?: number | null;   // LIMIT only
+    postOnly?: boolean;           // LIMIT only: reject rather than take
+}
+
+export interface ExchangeOrder {
+    exchangeOrderId: string;
+    clientOrderId: string;
+    productId: string;
+    side: FillSide;
+    type: ExchangeOrderType;
+    quantity: number;
+    filledQuantity: number;
+    avgFillPrice: number | null;
+    fees: number;                 // USD, across all fills so far
+    limitPrice: number | null;
+    status: ExchangeOrderStatus;
+    rejectReason: string | null;
+    createdAt: Date;
+}
+
+export interface ExchangeFill {
+    fillId: string;
+    exchangeOrderId: string;
+    productId: string;
+    side: FillSide;
+    price: number;
+    quantity: number;
+    fee: number;
+    liquidity: Liquidity;
+    time: Date;
+}
+
+export interface ExchangeBalance {
+    currency: string;
+    available: number;
+    hold: number;                 // Reserved by open orders
+}
+
+export interface ExchangeClient {
+    name: ExchangeName;
+
+    // Credentials (or nothing) in place to trade
+    isConfigured: () => boolean;
+
+    // A rejected order comes back with status REJECTED; transport and auth failures throw ExchangeError
+    placeOrder: (request: ExchangeOrderRequest) => Promise<ExchangeOrder>;
+
+    // true if the venue accepted the cancel (the order may still have filled first)
+    cancelOrder: (exchangeOrderId: string) => Promise<boolean>;
+
+    getOrder: (exchangeOrderId: string) => Promise<ExchangeOrder | null>;
+
+    // Look an order up by our id, for one whose placement we never heard back
+    // from. `since` bounds the search (no earlier than the order was created).
+    findOrderByClientId: (clientOrderId: string, since: Date) => Promise<ExchangeOrder | null>;
+
+    // Fills for one order, or the most recent across all orders
+    getFills: (exchangeOrderId?: string) => Promise<ExchangeFill[]>;
+
+    getBalances: () => Promise<ExchangeBalance[]>;
+}
+
+export class ExchangeError extends Error {
+    constructor(public exchange: ExchangeName, public status: number, message: string) {
+        super(`${exchange} ${status}: ${message}`);
+        this.name = 'ExchangeError';
+    }
+}
+
+export const FINAL_EXCHANGE_STATUSES: ExchangeOrderStatus[] = ['FILLED', 'CANCELED', 'REJECTED'];
+
+// Storage ticker -> product id: BTCUSD -> BTC-USD
+export const toProductId = (ticker: string): string =>
+    ticker.endsWith('USD') ? `${ticker.slice(0, -3)}-USD` : `${ticker}-USD`;
@@ -0,0 +1,213 @@
+import { query } from '../../shared/db';
+import { FillSide } from '../../shared/execution-cost.util';
+import { ExchangeName, ExchangeOrderType } from './exchange.client';
+
+// LIVE ORDER MODEL
+// live_orders: every order we send to a real (or mock) exchange, keyed by a
+//   deterministic client order id so the same intent can never be inserted,
+//   and therefore sent, twice. `settled` marks fills already booked into
+//   live_trades.
+// live_order_transitions: every state change, in order, with what caused it
+//
+//   NEW ─► SENT ─► ACKED ─► PARTIALLY_FILLED ─► FILLED
+//    │       │       │            │
+//    │       ├───────┴────────────┴──────────► CANCELED
+//    │       └──► REJECTED (venue said no, or never heard of it)
+//    └──► CANCELED (never sent)
+//
+// SENT may jump straight to any later state: by the time we hear back, a
+// market order has often already filled.
+
+export type LiveOrderState = 'NEW' | 'SENT' | 'ACKED' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED';
+export type LiveOrderIntent = 'OPEN' | 'CLOSE';
+
+export const LIVE_ORDER_TRANSITIONS: Record<LiveOrderState, LiveOrderState[]> = {
+    NEW: ['SENT', 'CANCELED'],
+    SENT: ['ACKED', 'PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED'],
+    ACKED: ['PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED'],
+    PARTIALLY_FILLED: ['FILLED', 'CANCELED'],
+    FILLED: [],
+    CANCELED: [],
+    REJECTED: []
+};
+
+export const FINAL_LIVE_STATES: LiveOrderState[] = ['FILLED', 'CANCELED', 'REJECTED'];
+
+export interface LiveOrder {
+    id: number;
+    clientOrderId: string;
+    exchange: ExchangeName;
+    exchangeOrderId: string | null;
+    ticker: string;
+    productId: string;
+    side: FillSide;
+    type: ExchangeOrderType;
+    intent: LiveOrderIntent;
+    liveTradeId: number | null;   // Position a CLOSE order reduces
+    quantity: number;
+    limitPrice: number | null;
+    state: LiveOrderState;
+    filledQuantity: number;
+    avgFillPrice: number | null;
+    fees: number;
+    rejectReason: string | null;
+    settled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type NewLiveOrder = Pick<LiveOrder,
+    'clientOrderId' | 'exchange' | 'ticker' | 'productId' | 'side' | 'type' | 'intent' | 'liveTradeId' | 'quantity' | 'limitPrice'>;
+
+export interface LiveOrderTransition {
+    from: LiveOrderState | null;
+    to: LiveOrderState;
+    detail: string | null;
+    filledQuantity: number;
+    time: Date;
+}
+
+const toOrder = (row: any): LiveOrder => ({
+    id: row.id,
+    clientOrderId: row.client_order_id,
+    exchange: row.exchange as ExchangeName,
+    exchangeOrderId: row.exchange_order_id,
+    ticker: row.ticker,
+    productId: row.product_id,
+    side: row.side as FillSide,
+    type: row.order_type as ExchangeOrderType,
+    intent: row.intent as LiveOrderIntent,
+    liveTradeId: row.live_trade_id,
+    quantity: Number(row.quantity),
+    limitPrice: row.limit_price !== null ? Number(row.limit_price) : null,
+    state: row.state as LiveOrderState,
+    filledQuantity: Number(row.filled_quantity),
+    avgFillPrice: row.avg_fill_price !== null ? Number(row.avg_fill_price) : null,
+    fees: Number(row.fees),
+    rejectReason: row.reject_reason,
+    settled: row.settled,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+});
+
+export const LiveOrderModel = {
+    // 1. ORDERS
+    // Insert as NEW. null if an order with this client order id already exists.
+    insertOrder: async (order: NewLiveOrder): Promise<LiveOrder | null> => {
+        const result = await query(`
+            INSERT INTO live_orders (client_order_id, exchange, ticker, product_id, side, order_type, intent,
+                                     live_trade_id, quantity, limit_price, state)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'NEW')
+            ON CONFLICT (client_order_id) DO NOTHING
+            RETURNING *
+        `, [
+            order.clientOrderId, order.exchange, order.ticker, order.productId, order.side, order.type, order.intent,
+            order.liveTradeId, order.quantity, order.limitPrice
+        ]);
+        if (result.rows.length === 0) return null;
+
+        await LiveOrderModel.insertTransition(result.rows[0].id, null, 'NEW', 'Created', 0);
+        return toOrder(result.rows[0]);
+    },
+
+    // Persist a state change (or fill progress within a state) and log it
+    updateOrder: async (order: LiveOrder, from: LiveOrderState, detail: string | null) => {
+        await query(`
+            UPDATE live_orders
+            SET exchange_order_id = $2, state = $3, filled_quantity = $4, avg_fill_price = $5, fees = $6,
+                reject_reason = $7, updated_at = NOW()
+            WHERE id = $1
+        `, [
+            order.id, order.exchangeOrderId, order.state, order.filledQuantity, order.avgFillPrice, order.fees,
+            order.rejectReason
+        ]);
+        if (from !== order.state) {
+            await LiveOrderModel.insertTransition(order.id, from, order.state, detail, order.filledQuantity);
+        }
+    },
+
+    markSettled: async (id: number, db = query) => {
+        await db(`UPDATE live_orders SET settled = TRUE, updated_at = NOW() WHERE id = $1`, [id]);
+    },
+
+    getOrder: async (id: number): Promise<LiveOrder | null> => {
+        const result = await query(`SELECT * FROM live_orders WHERE id = $1`, [id]);
+        return result.rows.length > 0 ? toOrder(result.rows[0]) : null;
+    },
+
+    getByClientOrderId: async (clientOrderId: string): Promise<LiveOrder | null> => {
+        const result = await query(`SELECT * FROM live_orders WHERE client_order_id = $1`, [clientOrderId]);
+        return result.rows.length > 0 ? toOrder(result.rows[0]) : null;
+    },
+
+    // Newest first
+    getOrders: async (limit: number = 100): Promise<LiveOrder[]> => {
+        const result = await query(`SELECT * FROM live_orders ORDER BY id DESC LIMIT $1`, [limit]);
+        return result.rows.map(toOrder);
+    },
+
+    // Orders a crash could have left mid-flight
+    getUnfinishedOrders: async (): Promise<LiveOrder[]> => {
+        const result = await query(
+            `SELECT * FROM live_orders WHERE NOT (state = ANY($1::text[])) ORDER BY id ASC`,
+            [FINAL_LIVE_STATES]
+        );
+        return result.rows.map(toOrder);
+    },
+
+    // Every order the exchange acknowledged, oldest first
+    getAcknowledgedOrders: async (exchange: ExchangeName): Promise<LiveOrder[]> => {
+        const result = await query(
+            `SELECT * FROM live_orders WHERE exchange = $1 AND exchange_order_id IS NOT NULL ORDER BY id ASC`,
+            [exchange]
+        );
+        return result.rows.map(toOrder);
+    },
+
+    // Exits for a position that finished without filling anything (rejected,
+    // never arrived, canceled): each one frees up a fresh attempt
+    countUnfilledCloses: async (liveTradeId: number): Promise<number> => {
+        const result = await query(
+            `SELECT COUNT(*) AS count FROM live_orders
+             WHERE live_trade_id = $1 AND intent = 'CLOSE' AND state = ANY($2::text[]) AND filled_quantity = 0`,
+            [liveTradeId, FINAL_LIVE_STATES]
+        );
+        return parseInt(result.rows[0].count);
+    },
+
+    countInState: async (state: LiveOrderState): Promise<number> => {
+        const result = await query(`SELECT COUNT(*) AS count FROM live_orders WHERE state = $1`, [state]);
+        return parseInt(result.rows[0].count);
+    },
+
+    // Finished orders whose fills haven't been booked yet
+    getUnsettledOrders: async (): Promise<LiveOrder[]> => {
+        const result = await query(
+            `SELECT * FROM live_orders WHERE state = ANY($1::text[]) AND NOT settled ORDER BY id ASC`,
+            [FINAL_LIVE_STATES]
+        );
+        return result.rows.map(toOrder);
+    },
+
+    // 2. TRANSITIONS
+    insertTransition: async (orderId: number, from: LiveOrderState | null, to: LiveOrderState, detail: string | null, filledQuantity: number) => {
+        await query(`
+            INSERT INTO live_order_transitions (order_id, from_state, to_state, detail, filled_quantity)
+            VALUES ($1, $2, $3, $4, $5)
+        `, [orderId, from, to, detail, filledQuantity]);
+    },
+
+    getTransitions: async (orderId: number): Promise<LiveOrderTransition[]> => {
+        const result = await query(
+            `SELECT * FROM live_order_transitions WHERE order_id = $1 ORDER BY id ASC`,
+            [orderId]
+        );
+        return result.rows.map(row => ({
+            from: row.from_state as LiveOrderState | null,
+            to: row.to_state as LiveOrderState,
+            detail: row.detail,
+            filledQuantity: Number(row.filled_quantity),
+            time: new Date(row.created_at)
+        }));
+    }
+};
@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import {
+    ExchangeClient, ExchangeName, ExchangeOrder, ExchangeOrderStatus
+} from './exchange.client';
+import { CoinbaseClient } from './clients/coinbase.client';
+import { MockExchangeClient } from './clients/mock.client';
+import {
+    FINAL_LIVE_STATES, LIVE_ORDER_TRANSITIONS, LiveOrder, LiveOrderModel, LiveOrderState, NewLiveOrder
+} from './live-order.model';
+
+// LIVE ORDER SERVICE
+// Walks each live order through its lifecycle (see live-order.model) and
+// writes every step down before acting on it:
+//   - the order row goes in as NEW under a client order id derived from the
+//     caller's intent key, so retrying the same intent finds the existing row
+//     instead of sending again
+//   - it's marked SENT before the request goes out: a crash mid-request
+//     leaves a SENT order, never an unrecorded one
+//   - what the exchange reports moves it on from there
+// On startup, reconcile() settles anything a crash left mid-flight: SENT
+// orders are looked up by client order id (still not found a few minutes
+// after it was sent = never arrived).
+// sync() does the same at runtime for an order a failed send left SENT.
+// The mock exchange forgets everything on restart, so it's rebuilt from
+// live_orders first.
+
+export class InvalidTransitionError extends Error {
+    constructor(order: LiveOrder, to: LiveOrderState) {
+        super(`Live order #${order.id} can't go from ${order.state} to ${to}`);
+        this.name = 'InvalidTransitionError';
+    }
+}
+
+const CLIENTS: Record<ExchangeName, ExchangeClient> = {
+    coinbase: CoinbaseClient,
+    mock: MockExchangeClient
+};
+const client: ExchangeClient = CLIENTS[process.env.LIVE_EXCHANGE === 'mock' ? 'mock' : 'coinbase'];
+
+const POLL_INTERVAL_MS = 500;
+const CANCEL_WAIT_MS = 10_000;      // How long a cancel gets to land before the reconciler takes over
+const LOOKUP_SLACK_MS = 60_000;     // Clock skew allowance when searching by client order id
+const NOT_FOUND_GRACE_MS = 5 * 60_000;  // A timed-out send can still land, and search lags: keep SENT this long
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Same intent, same id: a name-based UUID (SHA-256, version/variant bits set)
+export const clientOrderIdFor = (exchange: ExchangeName, intentKey: string): string => {
+    const hex = createHash('sha256').update(`${exchange}:${intentKey}`).digest('hex');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// An exchange's view of an order, as one of our states
+const stateFor = (status: ExchangeOrderStatus): LiveOrderState =>
+    status === 'PENDING' || status === 'OPEN' ? 'ACKED' : status;
+
+export const LiveOrderService = {
+    getClient: (): ExchangeClient => client,
+
+    isFinal: (order: LiveOrder): boolean => FINAL_LIVE_STATES.includes(order.state),
+
+    // 1. STATE: Move an order on (or record fill progress within a state) and persist it
+    transition: async (order: LiveOrder, to: LiveOrderState, detail: string | null, update: Partial<LiveOrder> = {}) => {
+        const from = order.state;
+        if (from !== to && !LIVE_ORDER_TRANSITIONS[from].includes(to)) {
+            throw new InvalidTransitionError(order, to);
+        }
+
+        Object.assign(order, update, { state: to });
+        await LiveOrderModel.updateOrder(order, from, detail);
+        if (from !== to) {
+            console.log(`[LIVE] #${order.id} ${order.side.toUpperCase()} ${order.ticker}: ${from} → ${to}${detail ? ` (${detail})` : ''}`);
+        }
+    },
+
+    // Apply the exchange's report. A stale read never moves an order backwards.
+    applyExchange: async (order: LiveOrder, remote: ExchangeOrder, detail: string | null) => {
+        let to = stateFor(remote.status);
+        if (to === 'ACKED' && order.state === 'PARTIALLY_FILLED') to = 'PARTIALLY_FILLED';
+        if (to === order.state && remote.filledQuantity === order.filledQuantity) return;
+
+        await LiveOrderService.transition(order, to, detail, {
+            exchangeOrderId: remote.exchangeOrderId || order.exchangeOrderId,
+            filledQuantity: remote.filledQuantity,
+            avgFillPrice: remote.avgFillPrice,
+            fees: remote.fees,
+            rejectReason: remote.rejectReason
+        });
+    },
+
+    // 2. SUBMIT: Record, mark SENT, send. `duplicate` = this intent already has
+    // an order (returned as it stands; nothing is sent). A transport error
+    // leaves the order SENT (resolved by sync() or reconcile()) and rethrows.
+    submit: async (request: Omit<NewLiveOrder, 'clientOrderId' | 'exchange'>, intentKey: string): Promise<{ order: LiveOrder; duplicate: boolean }> => {
+        const clientOrderId = clientOrderIdFor(client.name, intentKey);
+        const order = await LiveOrderModel.insertOrder({ ...request, clientOrderId, exchange: client.name });
+        if (!order) {
+            return { order: (await LiveOrderModel.getByClientOrderId(clientOrderId))!, duplicate: true };
+        }
+
+        await LiveOrderService.transition(order, 'SENT', intentKey);
+
+        let remote: ExchangeOrder;
+        try {
+            remote = await client.placeOrder({
+                clientOrderId,
+                productId: order.productId,
+                side: order.side,
+                type: order.type,
+                quantity: order.quantity,
+                limitPrice: order.limitPrice
+            });
+        } catch (err: any) {
+            console.error(`[LIVE] #${order.id} send failed, left SENT for reconcile: ${err.message}`);
+            throw err;
+        }
+
+        await LiveOrderService.applyExchange(order, remote, remote.status === 'REJECTED' ? remote.rejectReason : 'Accepted');
+        return { order, duplicate: false };
+    },
+
+    // A SENT order has no exchange id to ask about: find it by client order id.
+    // Not found only counts as never arrived once NOT_FOUND_GRACE_MS has passed;
+    // until then it stays SENT and gets looked up again.
+    resolveSent: async (order: LiveOrder, when: string) => {
+        const since = new Date(order.createdAt.getTime() - LOOKUP_SLACK_MS);
+        const remote = await client.findOrderByClientId(order.clientOrderId, since);
+        if (remote) {
+            await LiveOrderService.applyExchange(order, remote, `Reconciled ${when}`);
+        } else if (Date.now() - order.createdAt.getTime() < NOT_FOUND_GRACE_MS) {
+            console.log(`[LIVE] #${order.id} not on the exchange yet ${when}, still SENT`);
+        } else {
+            await LiveOrderService.transition(order, 'REJECTED', `Not on the exchange ${when} (never arrived)`, {
+                rejectReason: 'NOT_FOUND_ON_RECONCILE'
+            });
+        }
+    },
+
+    // 3. FOLLOW: Refresh from the exchange
+    sync: async (order: LiveOrder) => {
+        if (LiveOrderService.isFinal(order)) return;
+        if (order.state === 'SENT') {
+            await LiveOrderService.resolveSent(order, 'after a failed send');
+            return;
+        }
+        if (!order.exchangeOrderId) return;
+
+        const remote = await client.getOrder(order.exchangeOrderId);
+        if (remote) await LiveOrderService.applyExchange(order, remote, null);
+    },
+
+    // Poll until the order finishes; cancel whatever is left after the timeout
+    // and keep polling until the cancel lands. false = still not final (a
+    // queued cancel): the reconciler's catch-up syncs and books it from there.
+    awaitFinal: async (order: LiveOrder, timeoutMs: number): Promise<boolean> => {
+        const poll = async (until: number) => {
+            while (!LiveOrderService.isFinal(order) && Date.now() < until) {
+                await sleep(POLL_INTERVAL_MS);
+                await LiveOrderService.sync(order);
+            }
+        };
+
+        await poll(Date.now() + timeoutMs);
+        if (LiveOrderService.isFinal(order)) return true;
+
+        console.log(`[LIVE] ⏱️ #${order.id} still ${order.state} after ${timeoutMs}ms, canceling`);
+        await LiveOrderService.cancel(order);
+        await poll(Date.now() + CANCEL_WAIT_MS);
+        if (LiveOrderService.isFinal(order)) return true;
+
+        console.log(`[LIVE] ⏱️ #${order.id} still ${order.state} after cancel, left to the reconciler`);
+        return false;
+    },
+
+    cancel: async (order: LiveOrder) => {
+        if (LiveOrderService.isFinal(order)) return;
+
+        if (order.state === 'NEW') {
+            await LiveOrderService.transition(order, 'CANCELED', 'Never sent');
+            return;
+        }
+        if (order.exchangeOrderId) {
+            await client.cancelOrder(order.exchangeOrderId);
+            await LiveOrderService.sync(order);
+        }
+    },
+
+    // 4. RECONCILE: Resolve every unfinished order against the exchange (startup)
+    reconcile: async (): Promise<number> => {
+        if (client === MockExchangeClient) {
+            const previous = await LiveOrderModel.getAcknowledgedOrders('mock');
+            MockExchangeClient.restore(previous.map(order => ({
+                exchangeOrderId: order.exchangeOrderId!,
+                clientOrderId: order.clientOrderId,
+                productId: order.productId,
+                side: order.side,
+                type: order.type,
+                quantity: order.quantity,
+                filledQuantity: order.filledQuantity,
+                avgFillPrice: order.avgFillPrice,
+                fees: order.fees,
+                limitPrice: order.limitPrice,
+                status: order.state === 'ACKED' ? 'OPEN' : order.state as ExchangeOrderStatus,
+                rejectReason: order.rejectReason,
+                createdAt: order.createdAt
+            })));
+        }
+
+        const orders = await LiveOrderModel.getUnfinishedOrders();
+
+        for (const order of orders) {
+            if (order.state === 'NEW') {
+                await LiveOrderService.transition(order, 'CANCELED', 'Never sent (restart)');
+            } else if (order.state === 'SENT') {
+                await LiveOrderService.resolveSent(order, 'after restart');
+            } else {
+                await LiveOrderService.sync(order);
+            }
+        }
+
+        return orders.length;
+    },
+
+    getOrders: (limit: number = 100) => LiveOrderModel.getOrders(limit),
+
+    // One order with its full transition history
+    getOrder: async (id: number) => {
+        const order = await LiveOrderModel.getOrder(id);
+        return order ? { ...order, transitions: await LiveOrderModel.getTransitions(id) } : null;
+    }
+};
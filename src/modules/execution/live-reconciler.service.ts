@@ -0,0 +1,302 @@
+import { query } from '../../shared/db';
+import { ConfigService } from '../../shared/config.service';
+import { TelegramService } from '../notifications/telegram.service';
+import { LiveOrderModel } from './live-order.model';
+import { LiveOrderService } from './live-order.service';
+import { LiveTradingService } from './live.service';
+
+// LIVE RECONCILER
+// Our books (live_trades, live_orders) against what the exchange says we
+// hold, every LIVE_RECONCILE_MS (default a minute):
+//
+//   positions   per traded currency: open live_trades plus filled-but-not-yet
+//               booked orders, vs. the exchange balance (available + hold)
+//   cash        USD the fills explain vs. the exchange's USD. The first run
+//               fixes the starting point (exchange USD minus every fill's
+//               cash flow so far) in live_cash_anchors; after that, anything
+//               the fills don't explain (deposits, withdrawals, trades we
+//               didn't place) drifts, restarts included
+//   fills       recent exchange fills on orders we have no record of
+//
+// Differences are valued in USD (positions at their last entry price) and
+// anything past reconcileToleranceUsd trips the kill switch. Assumes the
+// exchange account is the bot's alone. Discrepancy reports are kept in
+// live_reconciliations; the latest run is always in memory.
+
+export interface PositionDiff {
+    currency: string;
+    local: number;
+    exchange: number;
+    diff: number;                 // exchange - local
+    diffUsd: number;
+    withinTolerance: boolean;
+}
+
+export interface CashDiff {
+    expected: number;
+    exchange: number;
+    diff: number;
+    withinTolerance: boolean;
+}
+
+export interface UnknownFill {
+    fillId: string;
+    exchangeOrderId: string;
+    productId: string;
+    side: string;
+    quantity: number;
+    price: number;
+    time: Date;
+}
+
+export interface ReconciliationReport {
+    time: Date;
+    exchange: string;
+    ok: boolean;                  // Everything within tolerance
+    toleranceUsd: number;
+    positions: PositionDiff[];
+    cash: CashDiff;
+    unknownFills: UnknownFill[];
+    killSwitchTriggered: boolean;
+}
+
+const INTERVAL_MS = Number(process.env.LIVE_RECONCILE_MS) || 60_000;
+const SETTLE_GRACE_MS = 60_000;     // Orders (and fills) younger than this may still be with executeTrade
+const CASH_CURRENCY = 'USD';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let latest: ReconciliationReport | null = null;
+let impliedStartingCash: number | null = null;      // Cached live_cash_anchors row
+
+export const LiveReconcilerService = {
+    start: () => {
+        if (timer || !LiveTradingService.isEnabled()) return;
+
+        const run = async () => {
+            if (!LiveTradingService.isEnabled() || !LiveTradingService.isReconciled()) return;
+            try {
+                await LiveReconcilerService.reconcile();
+            } catch (err: any) {
+                console.error('[LIVE] Reconciliation error:', err.message);
+            }
+        };
+
+        timer = setInterval(run, INTERVAL_MS);
+        console.log(`[LIVE] ⏱️ Reconciling positions and cash with the exchange every ${INTERVAL_MS / 1000}s`);
+    },
+
+    stop: () => {
+        if (timer) clearInterval(timer);
+        timer = null;
+    },
+
+    getLatest: (): ReconciliationReport | null => latest,
+
+    // 1. RUN: Catch up stale orders, compare, and act on the result. Skipped
+    // (latest report returned) while an order is still being worked.
+    reconcile: async (): Promise<ReconciliationReport | null> => {
+        if (running) return latest;
+        running = true;
+        try {
+            const inFlight = await LiveReconcilerService.catchUpOrders();
+            if (inFlight > 0) {
+                console.log(`[LIVE] Reconciliation skipped: ${inFlight} order(s) still in flight`);
+                return latest;
+            }
+            const report = await LiveReconcilerService.compare();
+
+            if (!report.ok) {
+                if (!ConfigService.getConfig().killSwitch) {
+                    ConfigService.activateKillSwitch();
+                    report.killSwitchTriggered = true;
+                    await TelegramService.sendMessage(
+                        `⛔ *Live reconciliation mismatch* on ${report.exchange}: kill switch activated\n` +
+                        LiveReconcilerService.summarize(report)
+                    );
+                }
+                console.log(`[LIVE] ⚠️ Reconciliation mismatch: ${LiveReconcilerService.summarize(report)}`);
+                await query(
+                    `INSERT INTO live_reconciliations (exchange, ok, kill_switch_triggered, report) VALUES ($1, $2, $3, $4)`,
+                    [report.exchange, report.ok, report.killSwitchTriggered, JSON.stringify(report)]
+                );
+            }
+
+            latest = report;
+            return report;
+        } finally {
+            running = false;
+        }
+    },
+
+    // Refresh orders nobody is polling any more and book finished ones, so
+    // the comparison isn't thrown off by fills we simply haven't recorded yet.
+    // Returns how many recent orders were left alone (executeTrade has them).
+    catchUpOrders: async (): Promise<number> => {
+        const cutoff = Date.now() - SETTLE_GRACE_MS;
+        let inFlight = 0;
+
+        for (const order of await LiveOrderModel.getUnfinishedOrders()) {
+            if (order.updatedAt.getTime() < cutoff) await LiveOrderService.sync(order);
+            // Still SENT: may yet turn up on the exchange (and in its balances)
+            if (order.updatedAt.getTime() >= cutoff || order.state === 'SENT') inFlight++;
+        }
+        for (const order of await LiveOrderModel.getUnsettledOrders()) {
+            if (order.updatedAt.getTime() < cutoff) await LiveTradingService.settle(order);
+            else inFlight++;
+        }
+        return inFlight;
+    },
+
+    // 2. COMPARE: Build the discrepancy report
+    compare: async (): Promise<ReconciliationReport> => {
+        const client = LiveTradingService.getClient();
+        const tolerance = ConfigService.getReconcileToleranceUsd();
+
+        const [balances, local, cashFlow] = await Promise.all([
+            client.getBalances(),
+            LiveReconcilerService.getLocalPositions(client.name),
+            LiveReconcilerService.getFillCashFlow(client.name)
+        ]);
+        const held = new Map(balances.map(b => [b.currency, b.available + b.hold]));
+
+        // Positions
+        const positions: PositionDiff[] = Array.from(local.entries()).map(([currency, { quantity, price }]) => {
+            const exchange = held.get(currency) || 0;
+            const diff = exchange - quantity;
+            const diffUsd = diff * price;
+            return { currency, local: quantity, exchange, diff, diffUsd, withinTolerance: Math.abs(diffUsd) <= tolerance };
+        });
+
+        // Cash
+        const exchangeCash = held.get(CASH_CURRENCY) || 0;
+        const startingCash = await LiveReconcilerService.getStartingCash(client.name, exchangeCash - cashFlow);
+        const expected = startingCash + cashFlow;
+        const cash: CashDiff = {
+            expected,
+            exchange: exchangeCash,
+            diff: exchangeCash - expected,
+            withinTolerance: Math.abs(exchangeCash - expected) <= tolerance
+        };
+
+        // Fills on orders we never placed (a brand-new one may not have its exchange id stored yet)
+        const fillCutoff = Date.now() - SETTLE_GRACE_MS;
+        const fills = (await client.getFills()).filter(f => f.time.getTime() < fillCutoff);
+        const known = fills.length > 0
+            ? new Set((await query(
+                `SELECT exchange_order_id FROM live_orders WHERE exchange = $1 AND exchange_order_id = ANY($2::text[])`,
+                [client.name, Array.from(new Set(fills.map(f => f.exchangeOrderId)))]
+            )).rows.map(row => row.exchange_order_id))
+            : new Set<string>();
+        const unknownFills: UnknownFill[] = fills
+            .filter(f => !known.has(f.exchangeOrderId))
+            .map(f => ({
+                fillId: f.fillId,
+                exchangeOrderId: f.exchangeOrderId,
+                productId: f.productId,
+                side: f.side,
+                quantity: f.quantity,
+                price: f.price,
+                time: f.time
+            }));
+        const unknownUsd = unknownFills.reduce((sum, f) => sum + f.quantity * f.price, 0);
+
+        return {
+            time: new Date(),
+            exchange: client.name,
+            ok: positions.every(p => p.withinTolerance) && cash.withinTolerance && unknownUsd <= tolerance,
+            toleranceUsd: tolerance,
+            positions,
+            cash,
+            unknownFills,
+            killSwitchTriggered: false
+        };
+    },
+
+    // Base currency -> quantity we think we hold (booked positions plus fills
+    // not booked yet) and a price to value differences at
+    getLocalPositions: async (exchange: string): Promise<Map<string, { quantity: number; price: number }>> => {
+        const positions: Map<string, { quantity: number; price: number }> = new Map();
+        const add = (productId: string, quantity: number, price: number) => {
+            const currency = productId.split('-')[0];
+            const current = positions.get(currency) || { quantity: 0, price };
+            positions.set(currency, { quantity: current.quantity + quantity, price: current.price || price });
+        };
+
+        // Every product we've traded, so a position we think is flat still gets checked
+        const booked = await query(`
+            SELECT product_id,
+                   COALESCE(SUM(quantity) FILTER (WHERE status = 'OPEN'), 0) AS open_quantity,
+                   (ARRAY_AGG(entry_price ORDER BY opened_at DESC))[1] AS last_price
+            FROM live_trades
+            WHERE exchange = $1
+            GROUP BY product_id
+        `, [exchange]);
+        for (const row of booked.rows) {
+            add(row.product_id, Number(row.open_quantity), Number(row.last_price));
+        }
+
+        const unbooked = await query(`
+            SELECT product_id,
+                   SUM(CASE WHEN side = 'buy' THEN filled_quantity ELSE -filled_quantity END) AS quantity,
+                   MAX(avg_fill_price) AS price
+            FROM live_orders
+            WHERE exchange = $1 AND NOT settled AND filled_quantity > 0
+            GROUP BY product_id
+        `, [exchange]);
+        for (const row of unbooked.rows) {
+            add(row.product_id, Number(row.quantity), Number(row.price));
+        }
+
+        return positions;
+    },
+
+    // The persisted anchor; the first run ever stores `implied` as it
+    getStartingCash: async (exchange: string, implied: number): Promise<number> => {
+        if (impliedStartingCash !== null) return impliedStartingCash;
+
+        await query(
+            `INSERT INTO live_cash_anchors (exchange, starting_cash) VALUES ($1, $2) ON CONFLICT (exchange) DO NOTHING`,
+            [exchange, implied]
+        );
+        const result = await query(`SELECT starting_cash FROM live_cash_anchors WHERE exchange = $1`, [exchange]);
+        impliedStartingCash = Number(result.rows[0].starting_cash);
+        return impliedStartingCash;
+    },
+
+    // Net USD every fill has moved: sells in, buys out, fees out
+    getFillCashFlow: async (exchange: string): Promise<number> => {
+        const result = await query(`
+            SELECT COALESCE(SUM(
+                CASE WHEN side = 'sell' THEN 1 ELSE -1 END * filled_quantity * avg_fill_price - fees
+            ), 0) AS net
+            FROM live_orders
+            WHERE exchange = $1 AND filled_quantity > 0
+        `, [exchange]);
+        return Number(result.rows[0].net);
+    },
+
+    // Recent reports that found a mismatch, newest first
+    getDiscrepancies: async (limit: number = 10) => {
+        const result = await query(
+            `SELECT report FROM live_reconciliations ORDER BY id DESC LIMIT $1`,
+            [limit]
+        );
+        return result.rows.map(row => row.report as ReconciliationReport);
+    },
+
+    // One line per thing that's off
+    summarize: (report: ReconciliationReport): string => {
+        const parts: string[] = [];
+        for (const p of report.positions.filter(p => !p.withinTolerance)) {
+            parts.push(`${p.currency}: local ${p.local}, exchange ${p.exchange} ($${p.diffUsd.toFixed(2)})`);
+        }
+        if (!report.cash.withinTolerance) {
+            parts.push(`USD: expected $${report.cash.expected.toFixed(2)}, exchange $${report.cash.exchange.toFixed(2)}`);
+        }
+        if (report.unknownFills.length > 0) {
+            parts.push(`${report.unknownFills.length} fill(s) on orders we didn't place`);
+        }
+        return parts.length > 0 ? parts.join('; ') : 'within tolerance';
+    }
+};
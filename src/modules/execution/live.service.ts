@@ -1,40 +1,81 @@
 /**
  * LIVE TRADING SERVICE
- * 
+ *
  * ⚠️ WARNING: This service executes REAL trades with REAL money.
  * Only enable this after extensive paper trading proves profitability.
- * 
+ *
  * Requirements:
- * 1. Coinbase Pro API key with trading permissions
+ * 1. Coinbase Advanced Trade (CDP) API key with trading permissions
  * 2. Funded account
  * 3. Proven paper trading track record (>60% win rate over 100+ trades)
- * 
- * Set LIVE_TRADING_ENABLED=true in .env to activate (DANGEROUS)
+ *
+ * Set LIVE_TRADING_ENABLED=true in .env to activate (DANGEROUS), and turn
+ * liveTradingEnabled on in the runtime config.
+ * LIVE_EXCHANGE=mock routes every order to the in-process mock exchange
+ * instead (fills from our own ticks, no credentials needed).
+ *
+ * Orders go through LiveOrderService (persisted states, idempotent client
+ * order ids). Nothing trades until start() has reconciled whatever the last
+ * run left in flight and booked any fills it never got to.
  */
 
-import { query } from '../../shared/db';
+import { query, transaction } from '../../shared/db';
+import { ConfigService } from '../../shared/config.service';
 import { TelegramService } from '../notifications/telegram.service';
+import { ExchangeBalance, ExchangeClient, toProductId } from './exchange.client';
+import { LiveOrder, LiveOrderModel } from './live-order.model';
+import { LiveOrderService } from './live-order.service';
 
 // SAFETY: Default to OFF
 const LIVE_ENABLED = process.env.LIVE_TRADING_ENABLED === 'true';
-const API_KEY = process.env.COINBASE_API_KEY;
-const API_SECRET = process.env.COINBASE_API_SECRET;
-const API_PASSPHRASE = process.env.COINBASE_API_PASSPHRASE;
+
+const client: ExchangeClient = LiveOrderService.getClient();
 
 // Risk Management
 const MAX_POSITION_SIZE_USD = 100;  // Start small
 const MAX_OPEN_POSITIONS = 3;
 const DAILY_LOSS_LIMIT_USD = -50;
 
+// Market orders are polled until they finish; whatever is still open after this is canceled
+const FILL_TIMEOUT_MS = 10_000;
+const RECONCILE_RETRY_MS = 30_000;
+
 interface TradeOrder {
     ticker: string;
-    side: 'buy' | 'sell';
-    size: number;
-    price: number;
+    side: 'buy' | 'sell';   // buy opens a position, sell closes the oldest open one
+    size: number;           // USD notional (buy; capped at MAX_POSITION_SIZE_USD)
+    price: number;          // Signal price
+    signalId?: string;      // Idempotency key for an entry (required to buy): the same id never buys twice
 }
 
+// Set once startup reconciliation has finished
+let reconciled = false;
+
 export const LiveTradingService = {
-    isEnabled: () => LIVE_ENABLED && API_KEY && API_SECRET,
+    isEnabled: () => LIVE_ENABLED && client.isConfigured(),
+
+    getClient: (): ExchangeClient => client,
+
+    isReconciled: () => reconciled,
+
+    // Resolve orders a crash left in flight and book their fills, then open
+    // for trading. Retries until the exchange answers.
+    start: async () => {
+        if (!LiveTradingService.isEnabled()) return;
+
+        try {
+            const resolved = await LiveOrderService.reconcile();
+            const unsettled = await LiveOrderModel.getUnsettledOrders();
+            for (const order of unsettled) {
+                await LiveTradingService.settle(order);
+            }
+            reconciled = true;
+            console.log(`[LIVE] ✅ Reconciled ${resolved} in-flight order(s), booked ${unsettled.length} on ${client.name}`);
+        } catch (err: any) {
+            console.error(`[LIVE] Reconcile failed, retrying in ${RECONCILE_RETRY_MS / 1000}s:`, err.message);
+            setTimeout(() => LiveTradingService.start(), RECONCILE_RETRY_MS);
+        }
+    },
 
     // Pre-flight checks before any live trade
     canTrade: async (): Promise<{ allowed: boolean; reason: string }> => {
@@ -42,10 +83,25 @@ export const LiveTradingService = {
             return { allowed: false, reason: 'Live trading disabled' };
         }
 
-        if (!API_KEY || !API_SECRET) {
+        if (!client.isConfigured()) {
             return { allowed: false, reason: 'API credentials missing' };
         }
 
+        if (!reconciled) {
+            return { allowed: false, reason: 'Live orders not yet reconciled with the exchange' };
+        }
+
+        if (!ConfigService.isLiveTradingAllowed()) {
+            return { allowed: false, reason: 'Live trading off in config (or kill switch active)' };
+        }
+
+        // A failed send leaves its order SENT until the reconciler finds out
+        // whether it arrived; until then we don't know what we hold
+        const unresolved = await LiveOrderModel.countInState('SENT');
+        if (unresolved > 0) {
+            return { allowed: false, reason: `${unresolved} order(s) sent but not yet confirmed by the exchange` };
+        }
+
         // Check daily loss limit
         const dailyPnL = await LiveTradingService.getDailyPnL();
         if (dailyPnL <= DAILY_LOSS_LIMIT_USD) {
@@ -77,21 +133,54 @@ export const LiveTradingService = {
         return parseInt(result.rows[0]?.count || 0);
     },
 
-    // Execute a live trade (PLACEHOLDER - implement with actual Coinbase API)
+    // Execute a live trade: a market order on the configured exchange, booked
+    // in live_trades at what actually filled. Exits skip the entry checks so
+    // a position can always be closed (once orders are reconciled).
     executeTrade: async (order: TradeOrder): Promise<boolean> => {
-        const check = await LiveTradingService.canTrade();
-        if (!check.allowed) {
-            console.log(`[LIVE] Trade blocked: ${check.reason}`);
-            return false;
-        }
+        if (order.side === 'buy') {
+            if (!order.signalId) {
+                console.log(`[LIVE] Trade blocked: ${order.ticker} entry has no signal id to make it idempotent`);
+                return false;
+            }
+
+            const check = await LiveTradingService.canTrade();
+            if (!check.allowed) {
+                console.log(`[LIVE] Trade blocked: ${check.reason}`);
+                return false;
+            }
+
+            const notional = Math.min(order.size, MAX_POSITION_SIZE_USD);
+            const intentKey = `open:${order.ticker}:${order.signalId}`;
+            const live = await LiveTradingService.submitMarket(order.ticker, 'buy', notional / order.price, intentKey, null);
+            if (!live || live.filledQuantity <= 0) return false;
+
+            console.log(`[LIVE] 🟢 Bought ${live.filledQuantity} ${order.ticker} @ $${live.avgFillPrice} on ${client.name} (fees $${live.fees.toFixed(2)})`);
+        } else {
+            if (!LiveTradingService.isEnabled() || !reconciled) {
+                console.log('[LIVE] Trade blocked: Live trading disabled or not yet reconciled');
+                return false;
+            }
+
+            const open = await query(
+                `SELECT * FROM live_trades WHERE ticker = $1 AND status = 'OPEN' ORDER BY opened_at ASC LIMIT 1`,
+                [order.ticker]
+            );
+            if (open.rows.length === 0) {
+                console.log(`[LIVE] No open ${order.ticker} position to sell`);
+                return false;
+            }
 
-        console.log(`[LIVE] ⚠️ Would execute: ${order.side.toUpperCase()} ${order.ticker} @ $${order.price}`);
-        
-        // TODO: Implement actual Coinbase Pro API call
-        // const client = new CoinbasePro.AuthenticatedClient(API_KEY, API_SECRET, API_PASSPHRASE);
-        // await client.placeOrder({ ... });
+            // One close per position size and attempt: a retry after a crash
+            // finds the same order, one that ended unfilled makes way for the next
+            const trade = open.rows[0];
+            const attempt = await LiveOrderModel.countUnfilledCloses(trade.id);
+            const intentKey = `close:${trade.id}:${trade.quantity}${attempt > 0 ? `:${attempt}` : ''}`;
+            const live = await LiveTradingService.submitMarket(order.ticker, 'sell', parseFloat(trade.quantity), intentKey, trade.id);
+            if (!live || live.filledQuantity <= 0) return false;
+
+            console.log(`[LIVE] 🔴 Sold ${live.filledQuantity} ${order.ticker} @ $${live.avgFillPrice} on ${client.name}`);
+        }
 
-        // For now, just log and notify
         await TelegramService.sendHijackAlert(
             `[LIVE] ${order.side.toUpperCase()} ${order.ticker}`,
             order.price,
@@ -101,10 +190,118 @@ export const LiveTradingService = {
         return true;
     },
 
+    // Market order through the lifecycle, waited on and booked. null if the
+    // intent was already submitted, the exchange rejected it, or it hasn't
+    // finished yet.
+    submitMarket: async (ticker: string, side: 'buy' | 'sell', quantity: number, intentKey: string, liveTradeId: number | null): Promise<LiveOrder | null> => {
+        const { order, duplicate } = await LiveOrderService.submit({
+            ticker,
+            productId: toProductId(ticker),
+            side,
+            type: 'MARKET',
+            intent: liveTradeId === null ? 'OPEN' : 'CLOSE',
+            liveTradeId,
+            quantity,
+            limitPrice: null
+        }, intentKey);
+
+        if (duplicate) {
+            console.log(`[LIVE] ${side.toUpperCase()} ${ticker} already submitted as #${order.id} (${order.state}), not resending`);
+            return null;
+        }
+        if (order.state === 'REJECTED') {
+            console.log(`[LIVE] ❌ ${side.toUpperCase()} ${ticker} rejected by ${client.name}: ${order.rejectReason}`);
+            return null;
+        }
+
+        // Not final even after the cancel: the reconciler books it once it is
+        if (!await LiveOrderService.awaitFinal(order, FILL_TIMEOUT_MS)) return null;
+        await LiveTradingService.settle(order);
+        return order;
+    },
+
+    // Book a finished order's fills into live_trades, once. An entry opens a
+    // row; an exit closes (or splits off part of) the row it was sent for.
+    // The booking and the settled flag commit together.
+    settle: async (order: LiveOrder) => {
+        if (order.settled || !LiveOrderService.isFinal(order)) return;
+
+        const profitUsd = await transaction(async db => {
+            let profit: number | null = null;
+            if (order.filledQuantity > 0 && order.avgFillPrice !== null) {
+                if (order.intent === 'OPEN') {
+                    await db(
+                        `INSERT INTO live_trades (exchange, ticker, product_id, quantity, entry_price, fees, status, entry_order_id)
+                         SELECT $1, $2, $3, $4, $5, $6, 'OPEN', $7
+                         WHERE NOT EXISTS (SELECT 1 FROM live_trades WHERE entry_order_id = $7)`,
+                        [order.exchange, order.ticker, order.productId, order.filledQuantity, order.avgFillPrice, order.fees, order.exchangeOrderId]
+                    );
+                } else {
+                    const open = await db(
+                        `SELECT * FROM live_trades
+                         WHERE id = $1 AND status = 'OPEN'
+                           AND NOT EXISTS (SELECT 1 FROM live_trades WHERE exit_order_id = $2)
+                         FOR UPDATE`,
+                        [order.liveTradeId, order.exchangeOrderId]
+                    );
+                    if (open.rows.length > 0) {
+                        profit = await LiveTradingService.closePosition(open.rows[0], order, db);
+                    }
+                }
+            }
+
+            await LiveOrderModel.markSettled(order.id, db);
+            return profit;
+        });
+        order.settled = true;
+
+        if (profitUsd !== null) {
+            console.log(`[LIVE] ${profitUsd >= 0 ? '💰' : '💸'} ${order.ticker} P&L: $${profitUsd.toFixed(2)}`);
+        }
+    },
+
+    // Book an exit against a live_trades row. Net of the entry's pro-rata fees
+    // and the exit's; a partial exit splits the sold part off as its own CLOSED row.
+    closePosition: async (trade: any, exit: LiveOrder, db = query): Promise<number> => {
+        const openQuantity = parseFloat(trade.quantity);
+        const quantity = Math.min(exit.filledQuantity, openQuantity);
+        const entryFees = Number(trade.fees || 0) * (quantity / openQuantity);
+        const fees = entryFees + exit.fees;
+        const profitUsd = (exit.avgFillPrice! - parseFloat(trade.entry_price)) * quantity - fees;
+
+        if (quantity >= openQuantity * (1 - 1e-9)) {
+            await db(
+                `UPDATE live_trades
+                 SET status = 'CLOSED', exit_price = $2, fees = $3, profit = $4, exit_order_id = $5, closed_at = NOW()
+                 WHERE id = $1`,
+                [trade.id, exit.avgFillPrice, fees, profitUsd, exit.exchangeOrderId]
+            );
+        } else {
+            await db(
+                `INSERT INTO live_trades (exchange, ticker, product_id, quantity, entry_price, entry_order_id, opened_at,
+                                          status, exit_price, fees, profit, exit_order_id, closed_at)
+                 SELECT exchange, ticker, product_id, $2, entry_price, entry_order_id, opened_at,
+                        'CLOSED', $3, $4, $5, $6, NOW()
+                 FROM live_trades WHERE id = $1`,
+                [trade.id, quantity, exit.avgFillPrice, fees, profitUsd, exit.exchangeOrderId]
+            );
+            await db(
+                `UPDATE live_trades SET quantity = quantity - $2, fees = fees - $3 WHERE id = $1`,
+                [trade.id, quantity, entryFees]
+            );
+        }
+
+        return profitUsd;
+    },
+
+    getBalances: (): Promise<ExchangeBalance[]> => client.getBalances(),
+
     // Get status for dashboard
     getStatus: () => ({
         enabled: LIVE_ENABLED,
-        hasCredentials: !!(API_KEY && API_SECRET),
+        exchange: client.name,
+        hasCredentials: client.isConfigured(),
+        reconciled,
         maxPositionSize: MAX_POSITION_SIZE_USD,
         maxOpenPositions: MAX_OPEN_POSITIONS,
         dailyLossLimit: DAILY_LOSS_LIMIT_USD
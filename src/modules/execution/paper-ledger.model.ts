@@ -0,0 +1,282 @@
+import { Query, query, transaction } from '../../shared/db';
+
+// PAPER LEDGER MODEL
+// paper_accounts: one row per strategy account (starting balance)
+// paper_ledger: every cash movement, signed (+ credits the account). Cash is
+//   the sum of the account's entries - there is no stored balance to drift.
+// paper_equity_snapshots: mark-to-market equity written by the portfolio job
+
+export type LedgerEntryType = 'DEPOSIT' | 'FILL' | 'FEE' | 'FUNDING';
+
+export interface PaperAccount {
+    id: number;
+    name: string;
+    startingBalance: number;
+    createdAt: Date;
+}
+
+export interface LedgerEntry {
+    accountId: number;
+    tradeId: number | null;
+    type: LedgerEntryType;
+    ticker: string | null;
+    amount: number;           // Signed cash delta (USD)
+    note: string | null;
+}
+
+export interface LedgerTotals {
+    cash: number;
+    deposits: number;
+    fills: number;
+    fees: number;             // <= 0
+    funding: number;          // Net funding paid (-) / received (+)
+}
+
+export interface EquitySnapshot {
+    cash: number;
+    positionsValue: number;   // Signed mark-to-market value (shorts negative)
+    equity: number;
+    marginUsed: number;
+    openPositions: number;
+    time: Date;
+}
+
+const toAccount = (row: any): PaperAccount => ({
+    id: row.id,
+    name: row.name,
+    startingBalance: Number(row.starting_balance),
+    createdAt: new Date(row.created_at)
+});
+
+export const PaperLedgerModel = {
+    // 1. ACCOUNTS
+    getAccount: async (name: string): Promise<PaperAccount | null> => {
+        const result = await query(`SELECT * FROM paper_accounts WHERE name = $1`, [name]);
+        return result.rows.length > 0 ? toAccount(result.rows[0]) : null;
+    },
+
+    // Create the account and credit its starting balance (no-op if it exists)
+    createAccount: async (name: string, startingBalance: number): Promise<PaperAccount> => {
+        // The account and its starting DEPOSIT go in together
+        const created = await transaction(async db => {
+            const inserted = await db(`
+                INSERT INTO paper_accounts (name, starting_balance)
+                VALUES ($1, $2)
+                ON CONFLICT (name) DO NOTHING
+                RETURNING *
+            `, [name, startingBalance]);
+            if (inserted.rows.length === 0) return null;
+
+            const account = toAccount(inserted.rows[0]);
+            await PaperLedgerModel.addEntries([{
+                accountId: account.id,
+                tradeId: null,
+                type: 'DEPOSIT',
+                ticker: null,
+                amount: startingBalance,
+                note: 'Starting balance'
+            }], db);
+            return account;
+        });
+
+        if (created) return created;
+
+        // Created before the two were atomic: its DEPOSIT may be missing
+        const account = (await PaperLedgerModel.getAccount(name))!;
+        await query(`
+            INSERT INTO paper_ledger (account_id, entry_type, amount, note)
+            SELECT $1, 'DEPOSIT', $2, 'Starting balance'
+            WHERE NOT EXISTS (SELECT 1 FROM paper_ledger WHERE account_id = $1 AND entry_type = 'DEPOSIT')
+        `, [account.id, account.startingBalance]);
+        return account;
+    },
+
+    // 2. LEDGER
+    addEntries: async (entries: LedgerEntry[], db: Query = query) => {
+        if (entries.length === 0) return;
+
+        await db(`
+            INSERT INTO paper_ledger (account_id, trade_id, entry_type, ticker, amount, note)
+            SELECT a, t, e, tk, amt, n
+            FROM UNNEST($1::int[], $2::int[], $3::text[], $4::text[], $5::numeric[], $6::text[])
+                AS x(a, t, e, tk, amt, n)
+        `, [
+            entries.map(e => e.accountId),
+            entries.map(e => e.tradeId),
+            entries.map(e => e.type),
+            entries.map(e => e.ticker),
+            entries.map(e => e.amount),
+            entries.map(e => e.note)
+        ]);
+    },
+
+    getTotals: async (accountId: number): Promise<LedgerTotals> => {
+        const result = await query(`
+            SELECT
+                COALESCE(SUM(amount), 0) AS cash,
+                COALESCE(SUM(amount) FILTER (WHERE entry_type = 'DEPOSIT'), 0) AS deposits,
+                COALESCE(SUM(amount) FILTER (WHERE entry_type = 'FILL'), 0) AS fills,
+                COALESCE(SUM(amount) FILTER (WHERE entry_type = 'FEE'), 0) AS fees,
+                COALESCE(SUM(amount) FILTER (WHERE entry_type = 'FUNDING'), 0) AS funding
+            FROM paper_ledger
+            WHERE account_id = $1
+        `, [accountId]);
+
+        const row = result.rows[0];
+        return {
+            cash: Number(row.cash),
+            deposits: Number(row.deposits),
+            fills: Number(row.fills),
+            fees: Number(row.fees),
+            funding: Number(row.funding)
+        };
+    },
+
+    getRecentEntries: async (accountId: number, limit: number = 50) => {
+        const result = await query(`
+            SELECT id, trade_id, entry_type, ticker, amount, note, created_at
+            FROM paper_ledger
+            WHERE account_id = $1
+            ORDER BY id DESC
+            LIMIT $2
+        `, [accountId, limit]);
+
+        return result.rows.map(row => ({
+            id: row.id,
+            tradeId: row.trade_id,
+            type: row.entry_type as LedgerEntryType,
+            ticker: row.ticker,
+            amount: Number(row.amount),
+            note: row.note,
+            time: new Date(row.created_at)
+        }));
+    },
+
+    // Open trades with when funding was last charged (opened_at if never)
+    // Lock the account's open trades (or just one) until the caller's
+    // transaction ends: funding for a trade is read and charged by one
+    // transaction at a time. Returns the transaction's timestamp, which is
+    // also what the entries it writes are stamped with.
+    lockOpenTrades: async (accountId: number, tradeId: number | undefined, db: Query): Promise<Date> => {
+        await db(
+            `SELECT id FROM paper_trades WHERE account_id = $1 AND status = 'OPEN' AND ($2::int IS NULL OR id = $2) ORDER BY id FOR UPDATE`,
+            [accountId, tradeId ?? null]
+        );
+        const result = await db(`SELECT NOW() AS now`);
+        return new Date(result.rows[0].now);
+    },
+
+    getFundingDue: async (accountId: number, db: Query = query) => {
+        const result = await db(`
+            SELECT t.id, t.ticker, t.side, t.quantity,
+                   COALESCE(
+                       (SELECT MAX(l.created_at) FROM paper_ledger l WHERE l.trade_id = t.id AND l.entry_type = 'FUNDING'),
+                       t.opened_at
+                   ) AS funded_through
+            FROM paper_trades t
+            WHERE t.account_id = $1 AND t.status = 'OPEN'
+        `, [accountId]);
+
+        return result.rows.map(row => ({
+            id: row.id as number,
+            ticker: row.ticker as string,
+            side: row.side as string,
+            quantity: Number(row.quantity),
+            fundedThrough: new Date(row.funded_through)
+        }));
+    },
+
+    // Trades from before the ledger existed: assign them to the account and
+    // book their fills (entry, plus exit if closed) so cash reflects them.
+    // Both commit together: a failure leaves the trades unassigned, to be
+    // adopted on the next start.
+    adoptUnassignedTrades: async (accountId: number): Promise<number> => transaction(async db => {
+        const adopted = await db(`
+            UPDATE paper_trades SET account_id = $1
+            WHERE account_id IS NULL
+            RETURNING id, ticker, side, entry_price, exit_price, quantity, status
+        `, [accountId]);
+
+        const entries: LedgerEntry[] = [];
+        for (const row of adopted.rows) {
+            const sign = row.side === 'SHORT' ? -1 : 1;
+            const quantity = Number(row.quantity);
+            entries.push({
+                accountId, tradeId: row.id, type: 'FILL', ticker: row.ticker,
+                amount: -sign * quantity * Number(row.entry_price), note: 'Back-filled entry'
+            });
+            if (row.status === 'CLOSED' && row.exit_price !== null) {
+                entries.push({
+                    accountId, tradeId: row.id, type: 'FILL', ticker: row.ticker,
+                    amount: sign * quantity * Number(row.exit_price), note: 'Back-filled exit'
+                });
+            }
+        }
+
+        await PaperLedgerModel.addEntries(entries, db);
+        return adopted.rows.length;
+    }),
+
+    // Closed trades and wins per account
+    getClosedTradeStats: async (accountIds: number[]): Promise<Map<number, { trades: number; wins: number }>> => {
+        const result = await query(`
+            SELECT account_id, COUNT(*) AS trades, COUNT(*) FILTER (WHERE profit > 0) AS wins
+            FROM paper_trades
+            WHERE status = 'CLOSED' AND account_id = ANY($1::int[])
+            GROUP BY account_id
+        `, [accountIds]);
+
+        return new Map(result.rows.map(row => [
+            row.account_id as number,
+            { trades: parseInt(row.trades), wins: parseInt(row.wins) }
+        ]));
+    },
+
+    // 3. EQUITY SNAPSHOTS
+    insertSnapshot: async (accountId: number, snapshot: Omit<EquitySnapshot, 'time'>) => {
+        await query(`
+            INSERT INTO paper_equity_snapshots (account_id, cash, positions_value, equity, margin_used, open_positions)
+            VALUES ($1, $2, $3, $4, $5, $6)
+        `, [accountId, snapshot.cash, snapshot.positionsValue, snapshot.equity, snapshot.marginUsed, snapshot.openPositions]);
+    },
+
+    // Oldest first; the last snapshot per bucket ('minute', 'hour', 'day')
+    getEquityCurve: async (accountId: number, hours: number, bucket: string): Promise<EquitySnapshot[]> => {
+        const result = await query(`
+            SELECT * FROM (
+                SELECT DISTINCT ON (date_trunc($3, recorded_at))
+                    cash, positions_value, equity, margin_used, open_positions, recorded_at
+                FROM paper_equity_snapshots
+                WHERE account_id = $1
+                  AND recorded_at >= NOW() - make_interval(hours => $2)
+                ORDER BY date_trunc($3, recorded_at), recorded_at DESC
+            ) last_per_bucket
+            ORDER BY recorded_at ASC
+        `, [accountId, hours, bucket]);
+
+        return result.rows.map(row => ({
+            cash: Number(row.cash),
+            positionsValue: Number(row.positions_value),
+            equity: Number(row.equity),
+            marginUsed: Number(row.margin_used),
+            openPositions: Number(row.open_positions),
+            time: new Date(row.recorded_at)
+        }));
+    },
+
+    // Worst peak-to-trough equity drop per account (percent of the peak)
+    getMaxDrawdowns: async (accountIds: number[]): Promise<Map<number, number>> => {
+        const result = await query(`
+            SELECT account_id, MAX((peak - equity) / NULLIF(peak, 0)) * 100 AS max_drawdown
+            FROM (
+                SELECT account_id, equity,
+                       MAX(equity) OVER (PARTITION BY account_id ORDER BY recorded_at) AS peak
+                FROM paper_equity_snapshots
+                WHERE account_id = ANY($1::int[])
+            ) running_peak
+            GROUP BY account_id
+        `, [accountIds]);
+
+        return new Map(result.rows.map(row => [row.account_id as number, Number(row.max_drawdown) || 0]));
+    }
+};
@@ -0,0 +1,166 @@
+import { query } from '../../shared/db';
+import { FillSide, Liquidity } from '../../shared/execution-cost.util';
+
+// PAPER ORDER MODEL
+// paper_orders: working and finished simulated orders. An OPEN-intent order
+//   creates (then grows) a position as it fills; a CLOSE-intent order reduces
+//   the position in trade_id. Bracket exit legs wait as PENDING under their
+//   parent entry; legs sharing an oco_group cancel each other.
+// paper_order_fills: every (partial) execution of an order
+
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+export type OrderStatus = 'PENDING' | 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED';
+export type OrderIntent = 'OPEN' | 'CLOSE';
+
+export interface PaperOrder {
+    id: number;
+    accountId: number;
+    ticker: string;
+    side: FillSide;
+    type: OrderType;
+    intent: OrderIntent;
+    tradeId: number | null;       // Position opened (OPEN) or being reduced (CLOSE)
+    quantity: number;
+    filledQuantity: number;
+    avgFillPrice: number | null;
+    limitPrice: number | null;
+    stopPrice: number | null;
+    triggered: boolean;           // Stop price hit (STOP_LIMIT now rests as a limit)
+    status: OrderStatus;
+    parentId: number | null;      // Bracket entry this exit leg belongs to
+    ocoGroup: string | null;
+    source: string;               // API, OPERATOR/<mode>, ...
+    sizingMethod: string | null;  // How a strategy sized the entry (null = manual)
+    sizingRationale: string | null;
+    cancelReason: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type NewOrder = Omit<PaperOrder, 'id' | 'filledQuantity' | 'avgFillPrice' | 'triggered' | 'cancelReason' | 'createdAt' | 'updatedAt'>;
+
+export interface OrderFill {
+    orderId: number;
+    tradeId: number;
+    quantity: number;
+    price: number;                // Fill price after spread and slippage
+    refPrice: number;             // Tick (or limit) price it matched at
+    fee: number;
+    executionCost: number;
+    liquidity: Liquidity;
+    time: Date;
+}
+
+export const WORKING_STATUSES: OrderStatus[] = ['PENDING', 'OPEN', 'PARTIALLY_FILLED'];
+
+const toOrder = (row: any): PaperOrder => ({
+    id: row.id,
+    accountId: row.account_id,
+    ticker: row.ticker,
+    side: row.side as FillSide,
+    type: row.order_type as OrderType,
+    intent: row.intent as OrderIntent,
+    tradeId: row.trade_id,
+    quantity: Number(row.quantity),
+    filledQuantity: Number(row.filled_quantity),
+    avgFillPrice: row.avg_fill_price !== null ? Number(row.avg_fill_price) : null,
+    limitPrice: row.limit_price !== null ? Number(row.limit_price) : null,
+    stopPrice: row.stop_price !== null ? Number(row.stop_price) : null,
+    triggered: row.triggered,
+    status: row.status as OrderStatus,
+    parentId: row.parent_id,
+    ocoGroup: row.oco_group,
+    source: row.source,
+    sizingMethod: row.sizing_method,
+    sizingRationale: row.sizing_rationale,
+    cancelReason: row.cancel_reason,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+});
+
+export const PaperOrderModel = {
+    // 1. ORDERS
+    insertOrder: async (order: NewOrder): Promise<PaperOrder> => {
+        const result = await query(`
+            INSERT INTO paper_orders (account_id, ticker, side, order_type, intent, trade_id, quantity,
+                                      limit_price, stop_price, status, parent_id, oco_group, source,
+                                      sizing_method, sizing_rationale)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            RETURNING *
+        `, [
+            order.accountId, order.ticker, order.side, order.type, order.intent, order.tradeId, order.quantity,
+            order.limitPrice, order.stopPrice, order.status, order.parentId, order.ocoGroup, order.source,
+            order.sizingMethod, order.sizingRationale
+        ]);
+        return toOrder(result.rows[0]);
+    },
+
+    // Persist the fields the matcher changes
+    updateOrder: async (order: PaperOrder, db = query) => {
+        await db(`
+            UPDATE paper_orders
+            SET trade_id = $2, quantity = $3, filled_quantity = $4, avg_fill_price = $5,
+                triggered = $6, status = $7, cancel_reason = $8, updated_at = NOW()
+            WHERE id = $1
+        `, [
+            order.id, order.tradeId, order.quantity, order.filledQuantity, order.avgFillPrice,
+            order.triggered, order.status, order.cancelReason
+        ]);
+    },
+
+    getOrder: async (id: number): Promise<PaperOrder | null> => {
+        const result = await query(`SELECT * FROM paper_orders WHERE id = $1`, [id]);
+        return result.rows.length > 0 ? toOrder(result.rows[0]) : null;
+    },
+
+    // Newest first (optionally one account / only working orders)
+    getOrders: async (accountId: number | null, workingOnly: boolean, limit: number = 100): Promise<PaperOrder[]> => {
+        const result = await query(`
+            SELECT * FROM paper_orders
+            WHERE ($1::int IS NULL OR account_id = $1)
+              AND (NOT $2 OR status = ANY($3::text[]))
+            ORDER BY id DESC
+            LIMIT $4
+        `, [accountId, workingOnly, WORKING_STATUSES, limit]);
+        return result.rows.map(toOrder);
+    },
+
+    // Everything the matcher should hold in memory on startup
+    getWorkingOrders: async (): Promise<PaperOrder[]> => {
+        const result = await query(
+            `SELECT * FROM paper_orders WHERE status = ANY($1::text[]) ORDER BY id ASC`,
+            [WORKING_STATUSES]
+        );
+        return result.rows.map(toOrder);
+    },
+
+    // 2. FILLS
+    insertFill: async (fill: Omit<OrderFill, 'time'>, db = query) => {
+        await db(`
+            INSERT INTO paper_order_fills (order_id, trade_id, quantity, price, ref_price, fee, execution_cost, liquidity)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `, [fill.orderId, fill.tradeId, fill.quantity, fill.price, fill.refPrice, fill.fee, fill.executionCost, fill.liquidity]);
+    },
+
+    getFills: async (orderIds: number[]): Promise<OrderFill[]> => {
+        if (orderIds.length === 0) return [];
+
+        const result = await query(`
+            SELECT * FROM paper_order_fills
+            WHERE order_id = ANY($1::int[])
+            ORDER BY id ASC
+        `, [orderIds]);
+
+        return result.rows.map(row => ({
+            orderId: row.order_id,
+            tradeId: row.trade_id,
+            quantity: Number(row.quantity),
+            price: Number(row.price),
+            refPrice: Number(row.ref_price),
+            fee: Number(row.fee),
+            executionCost: Number(row.execution_cost),
+            liquidity: row.liquidity as Liquidity,
+            time: new Date(row.filled_at)
+        }));
+    }
+};
@@ -0,0 +1,449 @@
+import { randomUUID } from 'crypto';
+import { Query, query, transaction } from '../../shared/db';
+import { ConfigService } from '../../shared/config.service';
+import { FillCost, FillSide, Liquidity } from '../../shared/execution-cost.util';
+import { SizingDecision } from '../../shared/position-sizing.util';
+import { NormalizedTick } from '../ingestor/exchange.adapter';
+import { MarketDataModel } from '../market/market-data.model';
+import { PaperOrderModel, PaperOrder, OrderType, OrderStatus, OrderFill, NewOrder, WORKING_STATUSES } from './paper-order.model';
+import { PortfolioService, AccountName } from './portfolio.service';
+import { PaperService, PositionSide, orderSide } from './paper.service';
+
+// PAPER ORDERS
+// Simulated resting orders per paper account, matched against every ingestor
+// tick. Matching happens in memory on the tick path; the fills it produces
+// are persisted one at a time, in order, off the hot path. Fills are priced
+// through the execution-cost model and book into the ledger like any other.
+//
+//   MARKET      fills in full on the next tick (taker)
+//   LIMIT       fills at the limit once a print trades through it, up to the
+//               print's size, so large orders fill in pieces (maker)
+//   STOP        a market order once a print reaches the stop (taker)
+//   STOP_LIMIT  a resting limit once a print reaches the stop
+//   OCO         take-profit limit + stop-loss stop on an open position: one
+//               leg filling completely cancels the other
+//   bracket     an entry with takeProfit / stopLoss: the exit legs wait as
+//               PENDING and go live, sized to what has filled, as it fills
+
+export type PlaceableType = OrderType | 'OCO';
+
+export const ORDER_TYPES: PlaceableType[] = ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'OCO'];
+
+export interface OrderRequest {
+    account: AccountName;
+    ticker: string;
+    side: FillSide;
+    type: PlaceableType;
+    quantity?: number;          // Base units (or give notionalUsd)
+    notionalUsd?: number;
+    limitPrice?: number;        // LIMIT / STOP_LIMIT; OCO take-profit
+    stopPrice?: number;         // STOP / STOP_LIMIT; OCO stop-loss
+    tradeId?: number;           // Reduce this open position instead of opening one
+    takeProfit?: number;        // Bracket exit legs for an entry
+    stopLoss?: number;
+    source?: string;
+    sizing?: SizingDecision;    // Strategy entries: how the quantity was chosen
+}
+
+export interface OrderPlacement {
+    accepted: boolean;
+    reason: string;
+    orders: PaperOrder[];
+}
+
+interface Match {
+    quantity: number;
+    price: number;              // Reference price the fill is quoted off
+    liquidity: Liquidity;
+}
+
+const EPSILON = 1e-12;
+
+// Working orders by id (PENDING bracket legs included)
+const working: Map<number, PaperOrder> = new Map();
+let fillQueue: Promise<unknown> = Promise.resolve();
+
+// Run order mutations one after another, in arrival order
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = fillQueue.then(task);
+    fillQueue = run.catch(() => undefined);
+    return run;
+};
+
+const remaining = (order: PaperOrder) => order.quantity - order.filledQuantity;
+
+const isPositive = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Buy stops sit above the market, sell stops below
+const stopReached = (order: PaperOrder, price: number) =>
+    order.side === 'buy' ? price >= order.stopPrice! : price <= order.stopPrice!;
+
+// A print at or through the limit fills up to its own size, at the limit
+const limitMatch = (order: PaperOrder, price: number, size: number, open: number): Match | null => {
+    const reached = order.side === 'buy' ? price <= order.limitPrice! : price >= order.limitPrice!;
+    if (!reached || size <= 0) return null;
+    return { quantity: Math.min(open, size), price: order.limitPrice!, liquidity: 'maker' };
+};
+
+export const PaperOrderService = {
+    // Reload working orders (after a restart) before ticks arrive
+    start: async () => {
+        try {
+            for (const order of await PaperOrderModel.getWorkingOrders()) {
+                working.set(order.id, order);
+            }
+            if (working.size > 0) console.log(`[Orders] 📋 Restored ${working.size} working paper order(s)`);
+        } catch (err) {
+            console.error('[Orders] Failed to load working orders:', err);
+        }
+    },
+
+    // 1. PLACEMENT
+    // Shape checks that don't need the database (null = OK)
+    validateOrder: (req: Partial<OrderRequest>): string | null => {
+        if (!req.ticker || typeof req.ticker !== 'string') return 'Missing field: ticker';
+        if (req.side !== 'buy' && req.side !== 'sell') return 'side must be buy or sell';
+        if (!ORDER_TYPES.includes(req.type as PlaceableType)) return `type must be one of: ${ORDER_TYPES.join(', ')}`;
+        if (!isPositive(req.quantity) && !isPositive(req.notionalUsd)) return 'quantity or notionalUsd must be a positive number';
+        if (req.tradeId !== undefined && !Number.isInteger(req.tradeId)) return 'tradeId must be an integer';
+
+        const needsLimit = req.type === 'LIMIT' || req.type === 'STOP_LIMIT' || req.type === 'OCO';
+        const needsStop = req.type === 'STOP' || req.type === 'STOP_LIMIT' || req.type === 'OCO';
+        if (needsLimit && !isPositive(req.limitPrice)) return `${req.type} needs a positive limitPrice`;
+        if (needsStop && !isPositive(req.stopPrice)) return `${req.type} needs a positive stopPrice`;
+
+        if (req.type === 'OCO') {
+            if (req.tradeId === undefined) return 'OCO needs tradeId (the position it exits)';
+            // Selling out of a long: take-profit above the stop; buying back a short: below
+            if (req.side === 'sell' ? req.limitPrice! <= req.stopPrice! : req.limitPrice! >= req.stopPrice!) {
+                return 'OCO limitPrice (take-profit) and stopPrice (stop-loss) are on the wrong sides';
+            }
+        }
+
+        if (req.takeProfit !== undefined || req.stopLoss !== undefined) {
+            if (req.tradeId !== undefined || req.type === 'OCO') return 'takeProfit / stopLoss bracket an entry and cannot be used with tradeId';
+            if (req.takeProfit !== undefined && !isPositive(req.takeProfit)) return 'takeProfit must be a positive price';
+            if (req.stopLoss !== undefined && !isPositive(req.stopLoss)) return 'stopLoss must be a positive price';
+            if (req.takeProfit !== undefined && req.stopLoss !== undefined &&
+                (req.side === 'buy' ? req.takeProfit <= req.stopLoss : req.takeProfit >= req.stopLoss)) {
+                return 'takeProfit and stopLoss are on the wrong sides for this entry';
+            }
+        }
+        return null;
+    },
+
+    // Place a validated order. Exits must target one of the account's open
+    // positions from the closing side; entries need the buying power.
+    placeOrder: async (req: OrderRequest): Promise<OrderPlacement> => {
+        const reject = (reason: string): OrderPlacement => ({ accepted: false, reason, orders: [] });
+
+        const accountId = PortfolioService.getAccountId(req.account);
+        if (accountId === null) return reject(`Paper account ${req.account} not loaded`);
+
+        const refPrice = req.limitPrice ?? req.stopPrice ?? await MarketDataModel.getLatestPrice(req.ticker);
+        if (!refPrice) return reject(`No price for ${req.ticker} yet`);
+
+        let quantity = req.quantity ?? req.notionalUsd! / refPrice;
+        const source = req.source || 'API';
+        const base = {
+            accountId, ticker: req.ticker, parentId: null, source,
+            sizingMethod: req.sizing?.method ?? null, sizingRationale: req.sizing?.rationale ?? null
+        };
+        const pending: NewOrder[] = [];
+
+        if (req.tradeId !== undefined) {
+            const result = await query(
+                `SELECT side, ticker, quantity FROM paper_trades WHERE id = $1 AND account_id = $2 AND status = 'OPEN'`,
+                [req.tradeId, accountId]
+            );
+            if (result.rows.length === 0) return reject(`No open position ${req.tradeId} in ${req.account}`);
+
+            const trade = result.rows[0];
+            const side: PositionSide = trade.side === 'SHORT' ? 'SHORT' : 'LONG';
+            if (trade.ticker !== req.ticker) return reject(`Position ${req.tradeId} is in ${trade.ticker}, not ${req.ticker}`);
+            if (orderSide(side, 'CLOSE') !== req.side) return reject(`Position ${req.tradeId} is ${side}: exit it with a ${orderSide(side, 'CLOSE')}`);
+
+            quantity = Math.min(quantity, Number(trade.quantity));
+            const exit = { ...base, side: req.side, intent: 'CLOSE' as const, tradeId: req.tradeId, quantity, status: 'OPEN' as const };
+
+            if (req.type === 'OCO') {
+                const ocoGroup = randomUUID();
+                pending.push({ ...exit, type: 'LIMIT', limitPrice: req.limitPrice!, stopPrice: null, ocoGroup });
+                pending.push({ ...exit, type: 'STOP', limitPrice: null, stopPrice: req.stopPrice!, ocoGroup });
+            } else {
+                pending.push({ ...exit, type: req.type, limitPrice: req.limitPrice ?? null, stopPrice: req.stopPrice ?? null, ocoGroup: null });
+            }
+        } else {
+            const power = await PortfolioService.checkBuyingPower(req.account, quantity * refPrice);
+            if (!power.allowed) return reject(power.reason);
+
+            pending.push({
+                ...base, side: req.side, type: req.type as OrderType, intent: 'OPEN', tradeId: null, quantity,
+                limitPrice: req.limitPrice ?? null, stopPrice: req.stopPrice ?? null, status: 'OPEN', ocoGroup: null
+            });
+        }
+
+        const orders: PaperOrder[] = [];
+        for (const order of pending) {
+            orders.push(await PaperOrderModel.insertOrder(order));
+        }
+
+        // Bracket legs exit whatever the entry fills; sized (and live) once it does
+        const legs: Pick<NewOrder, 'type' | 'limitPrice' | 'stopPrice'>[] = [];
+        if (req.takeProfit !== undefined) legs.push({ type: 'LIMIT', limitPrice: req.takeProfit, stopPrice: null });
+        if (req.stopLoss !== undefined) legs.push({ type: 'STOP', limitPrice: null, stopPrice: req.stopLoss });
+        const ocoGroup = legs.length > 1 ? randomUUID() : null;
+        for (const leg of legs) {
+            orders.push(await PaperOrderModel.insertOrder({
+                ...base, ...leg, side: req.side === 'buy' ? 'sell' : 'buy', intent: 'CLOSE', tradeId: null,
+                quantity: 0, status: 'PENDING', parentId: orders[0].id, ocoGroup
+            }));
+        }
+
+        for (const order of orders) working.set(order.id, order);
+
+        const prices = [req.limitPrice && `limit $${req.limitPrice}`, req.stopPrice && `stop $${req.stopPrice}`].filter(Boolean).join(', ');
+        const bracket = legs.length > 0 ? ` + ${legs.length} bracket leg(s)` : '';
+        console.log(`[Orders] 📝 ${req.account} ${req.type} ${req.side} ${quantity.toPrecision(6)} ${req.ticker}${prices ? ` (${prices})` : ''}${bracket} [${source}]`);
+
+        return { accepted: true, reason: 'OK', orders };
+    },
+
+    // 2. MATCHING: Every tick, every working order in its ticker
+    onTick: (tick: NormalizedTick) => {
+        if (working.size === 0 || !ConfigService.isPaperTradingAllowed()) return;
+
+        for (const order of working.values()) {
+            if (order.ticker !== tick.ticker || order.status === 'PENDING') continue;
+
+            const wasTriggered = order.triggered;
+            const match = PaperOrderService.match(order, tick.price, tick.size);
+
+            if (match) {
+                // Reserve it now so the next tick can't fill the same quantity
+                order.filledQuantity += match.quantity;
+                serialize(() => PaperOrderService.applyFill(order, match))
+                    .catch(err => console.error(`[Orders] Failed to apply fill for order ${order.id} (released for the next match):`, err));
+            } else if (order.triggered !== wasTriggered) {
+                serialize(() => PaperOrderModel.updateOrder(order))
+                    .catch(err => console.error(`[Orders] Failed to save trigger for order ${order.id}:`, err));
+            }
+        }
+    },
+
+    // What a print at this price and size does to the order (null = nothing).
+    // A STOP_LIMIT whose stop is reached is flagged triggered in place.
+    match: (order: PaperOrder, price: number, size: number): Match | null => {
+        const open = remaining(order);
+        if (open <= EPSILON) return null;
+
+        switch (order.type) {
+            case 'MARKET':
+                return { quantity: open, price, liquidity: 'taker' };
+            case 'STOP':
+                return stopReached(order, price) ? { quantity: open, price, liquidity: 'taker' } : null;
+            case 'STOP_LIMIT':
+                if (!order.triggered) {
+                    if (!stopReached(order, price)) return null;
+                    order.triggered = true;
+                }
+                return limitMatch(order, price, size, open);
+            case 'LIMIT':
+                return limitMatch(order, price, size, open);
+        }
+    },
+
+    // 3. FILLS: Book a match (serialized; the quantity is already reserved).
+    // The fill row, the order and the position (with its cash) commit in one
+    // transaction, so a crash can't leave a fill the order doesn't know about.
+    // On failure the in-memory order goes back to how it was, reservation
+    // released, to be matched again.
+    applyFill: async (order: PaperOrder, match: Match) => {
+        const before = {
+            filledQuantity: order.filledQuantity - match.quantity,
+            avgFillPrice: order.avgFillPrice,
+            status: order.status,
+            tradeId: order.tradeId,
+            cancelReason: order.cancelReason
+        };
+        try {
+            await PaperOrderService.bookFill(order, match);
+        } catch (err) {
+            Object.assign(order, before);
+            if (WORKING_STATUSES.includes(order.status)) working.set(order.id, order);
+            throw err;
+        }
+    },
+
+    bookFill: async (order: PaperOrder, match: Match) => {
+        let quantity = match.quantity;
+        let trade: any = null;
+
+        // Exits never sell more than is still open
+        if (order.intent === 'CLOSE') {
+            const result = await query(`SELECT * FROM paper_trades WHERE id = $1`, [order.tradeId]);
+            trade = result.rows[0];
+            const openQuantity = trade && trade.status === 'OPEN' ? Number(trade.quantity) : 0;
+            if (openQuantity <= EPSILON) {
+                order.filledQuantity -= quantity;
+                await PaperOrderService.finish(order, 'CANCELED', 'Position already closed');
+                return;
+            }
+            if (quantity > openQuantity) {
+                order.filledQuantity -= quantity - openQuantity;
+                quantity = openQuantity;
+            }
+        }
+
+        const fill = PortfolioService.quoteFill(order.ticker, order.side, match.price, quantity, match.liquidity);
+        const previous = order.filledQuantity - quantity;
+        order.avgFillPrice = ((order.avgFillPrice ?? 0) * previous + fill.fillPrice * quantity) / order.filledQuantity;
+        order.status = remaining(order) <= EPSILON ? 'FILLED' : 'PARTIALLY_FILLED';
+        if (order.status === 'FILLED') working.delete(order.id);
+
+        // The order row and its fill, on whichever transaction books the position
+        const record = async (db: Query) => {
+            await PaperOrderModel.updateOrder(order, db);
+            await PaperOrderModel.insertFill({
+                orderId: order.id,
+                tradeId: order.tradeId!,
+                quantity,
+                price: fill.fillPrice,
+                refPrice: fill.refPrice,
+                fee: fill.fee,
+                executionCost: fill.executionCost,
+                liquidity: fill.liquidity
+            }, db);
+        };
+
+        const label = `#${order.id} ${order.type} ${order.side} ${quantity.toPrecision(6)} ${order.ticker} @ $${fill.fillPrice.toPrecision(8)}`;
+
+        if (order.intent === 'CLOSE') {
+            const { profitUsd, closedAll } = await PaperService.closePosition(trade, fill, `ORDER #${order.id} ${order.type}`, undefined, record);
+            // A completed leg cancels its OCO siblings (a full close already canceled them)
+            if (order.status === 'FILLED' && !closedAll && order.ocoGroup) {
+                for (const sibling of Array.from(working.values())) {
+                    if (sibling.ocoGroup === order.ocoGroup) {
+                        await PaperOrderService.finish(sibling, 'CANCELED', `OCO: order #${order.id} filled`);
+                    }
+                }
+            }
+            console.log(`[Orders] ${profitUsd >= 0 ? '💰' : '💸'} ${order.status} ${label}. P&L: $${profitUsd.toFixed(2)}${closedAll ? '' : ' (partial)'}`);
+            return;
+        }
+
+        // Bracket legs follow the entry: same position, sized to what has filled
+        const legs = Array.from(working.values()).filter(leg => leg.parentId === order.id);
+        const legUpdates = (tradeId: number) => legs.map(leg => ({
+            ...leg,
+            tradeId,
+            quantity: order.filledQuantity,
+            status: leg.status === 'PENDING' ? 'OPEN' as OrderStatus : leg.status
+        }));
+
+        await transaction(async db => {
+            order.tradeId = await PaperOrderService.openFromFill(order, fill, db);
+            await record(db);
+            for (const leg of legUpdates(order.tradeId)) await PaperOrderModel.updateOrder(leg, db);
+        });
+
+        const updated = legUpdates(order.tradeId!);
+        legs.forEach((leg, i) => Object.assign(leg, updated[i]));
+        console.log(`[Orders] ✅ ${order.status} ${label}`);
+    },
+
+    // Open the entry's position on its first fill, then grow it (average
+    // price), with its cash, on the caller's transaction. Returns the trade id.
+    openFromFill: async (order: PaperOrder, fill: FillCost, db: Query): Promise<number> => {
+        const side: PositionSide = order.side === 'sell' ? 'SHORT' : 'LONG';
+
+        let tradeId = order.tradeId;
+        let grown = false;
+        if (tradeId !== null) {
+            const updated = await db(
+                `UPDATE paper_trades
+                 SET entry_price = (entry_price * quantity + $2 * $4) / (quantity + $4),
+                     entry_ref_price = (entry_ref_price * quantity + $3 * $4) / (quantity + $4),
+                     quantity = quantity + $4, fees = fees + $5, execution_cost = execution_cost + $6
+                 WHERE id = $1 AND status = 'OPEN'
+                 RETURNING id`,
+                [tradeId, fill.fillPrice, fill.refPrice, fill.quantity, fill.fee, fill.executionCost]
+            );
+            grown = updated.rows.length > 0;
+        }
+
+        // First fill, or the position was exited in between: start a new one
+        if (!grown) {
+            const inserted = await db(
+                `INSERT INTO paper_trades (account_id, ticker, side, entry_price, entry_ref_price, quantity, fees, execution_cost, status, sizing_method, sizing_rationale)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'OPEN', $9, $10)
+                 RETURNING id`,
+                [order.accountId, order.ticker, side, fill.fillPrice, fill.refPrice, fill.quantity, fill.fee, fill.executionCost,
+                 order.sizingMethod, order.sizingRationale]
+            );
+            tradeId = inserted.rows[0].id as number;
+        }
+
+        await PortfolioService.recordFill(order.accountId, { id: tradeId!, ticker: order.ticker, side, quantity: fill.quantity }, fill, 'OPEN', db);
+        return tradeId!;
+    },
+
+    // 4. CANCELLATION
+    finish: async (order: PaperOrder, status: OrderStatus, reason: string | null) => {
+        order.status = status;
+        order.cancelReason = reason;
+        working.delete(order.id);
+        await PaperOrderModel.updateOrder(order);
+    },
+
+    // Cancel a working order (queued behind fills already matched). An entry
+    // takes its not-yet-live bracket legs with it. null = not working.
+    cancelOrder: (id: number, reason: string = 'Canceled by user'): Promise<PaperOrder | null> =>
+        serialize(async () => {
+            const order = working.get(id);
+            if (!order) return null;
+
+            await PaperOrderService.finish(order, 'CANCELED', reason);
+            for (const leg of Array.from(working.values())) {
+                if (leg.parentId === id && leg.status === 'PENDING') {
+                    await PaperOrderService.finish(leg, 'CANCELED', `Entry #${id} canceled`);
+                }
+            }
+            return order;
+        }),
+
+    // A position closed: its exit orders have nothing left to do
+    cancelForTrade: async (tradeId: number, reason: string) => {
+        for (const order of Array.from(working.values())) {
+            if (order.intent === 'CLOSE' && order.tradeId === tradeId) {
+                await PaperOrderService.finish(order, 'CANCELED', reason);
+            }
+        }
+    },
+
+    // 5. QUERIES
+    // Exit order still resting on this position (e.g. a bracket's TP / SL legs)
+    hasWorkingExit: (tradeId: number): boolean =>
+        Array.from(working.values()).some(o => o.tradeId === tradeId && o.intent === 'CLOSE'),
+
+    // Entry still working for this ticker (so strategies don't stack a second one)
+    hasWorkingEntry: (accountId: number, ticker: string): boolean =>
+        Array.from(working.values()).some(o => o.accountId === accountId && o.ticker === ticker && o.intent === 'OPEN'),
+
+    // Newest first, each with its fills
+    getOrders: async (account?: AccountName, workingOnly: boolean = false, limit: number = 100) => {
+        const accountId = account ? PortfolioService.getAccountId(account) ?? -1 : null;
+        const orders = await PaperOrderModel.getOrders(accountId, workingOnly, limit);
+        const fills = await PaperOrderModel.getFills(orders.map(o => o.id));
+
+        const byOrder = new Map<number, OrderFill[]>();
+        for (const fill of fills) {
+            if (!byOrder.has(fill.orderId)) byOrder.set(fill.orderId, []);
+            byOrder.get(fill.orderId)!.push(fill);
+        }
+        return orders.map(order => ({ ...order, fills: byOrder.get(order.id) || [] }));
+    },
+
+    getOrder: (id: number) => PaperOrderModel.getOrder(id)
+};
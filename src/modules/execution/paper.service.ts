@@ -1,10 +1,35 @@
-import { query } from '../../shared/db';
+import { Query, query, transaction } from '../../shared/db';
 import { TelegramService } from '../notifications/telegram.service';
 import { NewsService } from '../news/news.service';
 import { ConfigService } from '../../shared/config.service';
+import { MultiTimeframeService, MtfSummary } from '../sentiment/multi-timeframe.service';
+import { PortfolioService, AccountName } from './portfolio.service';
+import { FillCost, FillSide } from '../../shared/execution-cost.util';
+import { PaperOrderService } from './paper-order.service';
+import { PositionSizingService } from './position-sizing.service';
+import { breakEvenStop, ladderExit } from '../../shared/exit-ladder.util';
 
-// In-memory high water marks for trailing stops
-const highWaterMarks: Map<string, number> = new Map();
+export type PositionSide = 'LONG' | 'SHORT';
+
+// +1 for longs, -1 for shorts: a short profits when price falls
+export const sideSign = (side: PositionSide): 1 | -1 => side === 'SHORT' ? -1 : 1;
+
+// Order side that opens / closes a position
+export const orderSide = (side: PositionSide, action: 'OPEN' | 'CLOSE'): FillSide =>
+    (side === 'SHORT') === (action === 'OPEN') ? 'sell' : 'buy';
+
+// Multi-timeframe context recorded with each entry
+interface EntryContext {
+    mtf: MtfSummary | null;      // Job's latest row for the ticker (null = no data)
+    gated: boolean;              // Confluence gate was on for this entry
+}
+
+// Optional account filter for the stats queries (null = every account)
+const accountFilter = (account?: AccountName): number | null =>
+    account ? PortfolioService.getAccountId(account) ?? -1 : null;
+
+// In-memory water marks for trailing stops, by trade id: the high for longs, the low for shorts
+const waterMarks: Map<number, number> = new Map();
 
 export const PaperService = {
     // 1. MAIN LOOP: Evaluate entire market state (now with narrative fusion)
@@ -20,149 +45,289 @@ export const PaperService = {
                 const narrative = NewsService.getNarrative(asset.ticker);
                 const narrativeScore = narrative.score;
                 
-                // Get thresholds from config
-                const ENTRY_THRESHOLD = ConfigService.getEntryThreshold();
+                // Per-asset adaptive thresholds from the leaderboard (config values in raw mode)
+                const ENTRY_THRESHOLD = asset.thresholds?.entry ?? ConfigService.getEntryThreshold();
                 const REQUIRE_NARRATIVE = ConfigService.getRequireNarrative();
                 
                 // SMART ENTRY: Force HIGH + Narrative confirms direction
                 const forceHigh = asset.hijackForce > ENTRY_THRESHOLD;
                 const narrativeConfirms = !REQUIRE_NARRATIVE || narrativeScore >= 0; // Bullish or neutral news
+
+                // CONFLUENCE GATE (optional): higher timeframes must trend the same way
+                const mtf = MultiTimeframeService.getCachedSummary(asset.ticker) || null;
+                const gated = ConfigService.getConfluenceGateEnabled();
+                const timeframesConfirm = !gated || PaperService.passesConfluenceGate(mtf);
                 
-                if (forceHigh && narrativeConfirms) {
+                if (forceHigh && narrativeConfirms && timeframesConfirm) {
                     await PaperService.openPosition(
                         asset.ticker, 
                         asset.latestPrice, 
                         asset.hijackForce,
-                        narrativeScore
+                        narrativeScore,
+                        { mtf, gated }
                     );
                 } 
                 
                 // Always check exits
-                await PaperService.managePositions(asset.ticker, asset.latestPrice, asset.hijackForce);
+                await PaperService.managePositions(asset.ticker, asset.latestPrice, asset.hijackForce, asset.thresholds?.exit);
             } catch (err) {
                 console.error(`[SNIPER] Error processing ${asset.ticker}:`, err);
             }
         }
     },
 
-    // 2. ENTRY: Open a new position (now logs narrative)
-    openPosition: async (ticker: string, price: number, force: number, narrativeScore: number = 0) => {
+    // Entries need a majority trending the trade's way (UP for longs, DOWN for
+    // shorts): full confluence, or at least N agreeing timeframes
+    passesConfluenceGate: (mtf: MtfSummary | null, side: PositionSide = 'LONG'): boolean => {
+        if (!mtf || mtf.direction !== (side === 'SHORT' ? 'DOWN' : 'UP')) return false;
+        return mtf.confluence || mtf.agreeing.length >= ConfigService.getMinAgreeingTimeframes();
+    },
+
+    // 2. ENTRY: Open a new position (now logs narrative and timeframe agreement)
+    openPosition: async (ticker: string, price: number, force: number, narrativeScore: number = 0, context: EntryContext = { mtf: null, gated: false }, side: PositionSide = 'LONG') => {
         // Check kill switch
         if (!ConfigService.isPaperTradingAllowed()) return;
 
+        // The sniper trades its own account
+        const accountId = PortfolioService.getAccountId('SNIPER');
+        if (accountId === null) return;
+
         // Check if we already have an OPEN trade for this ticker
         const existing = await query(
-            `SELECT id FROM paper_trades WHERE ticker = $1 AND status = 'OPEN'`, 
-            [ticker]
+            `SELECT id FROM paper_trades WHERE account_id = $1 AND ticker = $2 AND status = 'OPEN'`, 
+            [accountId, ticker]
         );
         
         if (existing.rows.length > 0) return; // Don't double buy
 
         // Check max open positions
-        const openCount = await query(`SELECT COUNT(*) as cnt FROM paper_trades WHERE status = 'OPEN'`);
+        const openCount = await query(`SELECT COUNT(*) as cnt FROM paper_trades WHERE account_id = $1 AND status = 'OPEN'`, [accountId]);
         if (parseInt(openCount.rows[0].cnt) >= ConfigService.getMaxOpenPositions()) return;
 
-        const TRADE_SIZE_USD = ConfigService.getTradeSizeUsd();
-        const quantity = TRADE_SIZE_USD / price;
+        const sizing = await PositionSizingService.size('SNIPER', ticker, price, ConfigService.getTradeSizeUsd());
+        if (sizing.notionalUsd <= 0) {
+            console.log(`[SNIPER] 💤 Skipping ${ticker}: ${sizing.rationale}`);
+            return;
+        }
+        const quantity = sizing.quantity;
 
-        await query(
-            `INSERT INTO paper_trades (ticker, entry_price, quantity, hijack_force_at_entry, status) 
-             VALUES ($1, $2, $3, $4, 'OPEN')`,
-            [ticker, price, quantity, force]
-        );
+        // Check the paper account can carry it
+        const power = await PortfolioService.checkBuyingPower('SNIPER', sizing.notionalUsd);
+        if (!power.allowed) {
+            console.log(`[SNIPER] 💤 Skipping ${ticker}: ${power.reason}`);
+            return;
+        }
+
+        const agreeing = context.mtf?.agreeing || [];
+        const direction = context.mtf?.direction || null;
+
+        // Cross the spread: entry_price is the fill, entry_ref_price the tick
+        const fill = PortfolioService.quoteFill(ticker, orderSide(side, 'OPEN'), price, quantity);
+
+        await transaction(async db => {
+            const inserted = await db(
+                `INSERT INTO paper_trades (account_id, ticker, side, entry_price, entry_ref_price, quantity, fees, execution_cost, hijack_force_at_entry, status, mtf_direction, mtf_agreeing, mtf_from_candles, confluence_gated, sizing_method, sizing_rationale) 
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'OPEN', $10, $11, TRUE, $12, $13, $14)
+                 RETURNING id`,
+                [accountId, ticker, side, fill.fillPrice, price, quantity, fill.fee, fill.executionCost, force, direction, agreeing, context.gated, sizing.method, sizing.rationale]
+            );
+            await PortfolioService.recordFill(accountId, { id: inserted.rows[0].id, ticker, side, quantity }, fill, 'OPEN', db);
+        });
         
-        console.log(`[SNIPER] 🔫 BANG! Bought ${ticker} at $${price.toFixed(4)} (Force: ${force.toFixed(4)}, News: ${narrativeScore})`);
+        const tfNote = agreeing.length > 0 ? `, TF: ${direction} ${agreeing.join('/')}` : '';
+        console.log(`[SNIPER] 🔫 BANG! ${side === 'SHORT' ? 'Shorted' : 'Bought'} ${ticker} at $${fill.fillPrice.toFixed(4)} (Tick: $${price.toFixed(4)}, Force: ${force.toFixed(4)}, News: ${narrativeScore}${tfNote}, Size: ${sizing.rationale})`);
         
         // Archive the hijack event
-        await PaperService.archiveHijack(ticker, price, force, narrativeScore, 'ENTRY');
+        await PaperService.archiveHijack(ticker, price, force, narrativeScore, 'ENTRY', context);
         
         // Alert on Telegram
         await TelegramService.sendHijackAlert(ticker, price, force);
     },
 
-    // 3. EXIT MANAGEMENT: Now with trailing stop
-    managePositions: async (ticker: string, currentPrice: number, currentForce: number) => {
+    // 3. EXIT MANAGEMENT: Trailing stop (direction-aware) and exit ladders.
+    // A ladder rung closes part of the position (its own CLOSED row) and
+    // records the step on the open row, along with the break-even stop.
+    // Only the sniper's own positions: operator bots run their own exits.
+    managePositions: async (ticker: string, currentPrice: number, currentForce: number, exitThreshold?: number) => {
+        const accountId = PortfolioService.getAccountId('SNIPER');
+        if (accountId === null) return;
+
         const res = await query(
-            `SELECT * FROM paper_trades WHERE ticker = $1 AND status = 'OPEN'`, 
-            [ticker]
+            `SELECT * FROM paper_trades WHERE ticker = $1 AND status = 'OPEN' AND account_id = $2`, 
+            [ticker, accountId]
         );
         
-        if (res.rows.length === 0) return;
+        for (const trade of res.rows) {
+            const side: PositionSide = trade.side === 'SHORT' ? 'SHORT' : 'LONG';
+            const sign = sideSign(side);
+            const entryPrice = parseFloat(trade.entry_price);
+            const quantity = parseFloat(trade.quantity);
+            const pnlPercent = sign * ((currentPrice - entryPrice) / entryPrice) * 100;
 
-        const trade = res.rows[0];
-        const entryPrice = parseFloat(trade.entry_price);
-        const quantity = parseFloat(trade.quantity);
-        const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
-
-        // Get config values
-        const TAKE_PROFIT_PERCENT = ConfigService.getTakeProfitPercent();
-        const STOP_LOSS_PERCENT = ConfigService.getStopLossPercent();
-        const EXIT_THRESHOLD = ConfigService.getExitThreshold();
-        const TRAILING_STOP_ENABLED = ConfigService.getTrailingStopEnabled();
-        const TRAILING_STOP_PERCENT = ConfigService.getTrailingStopPercent();
-        const TRAILING_ACTIVATION = ConfigService.getTrailingActivation();
-
-        // Update high water mark for trailing stop
-        const currentHigh = highWaterMarks.get(ticker) || entryPrice;
-        if (currentPrice > currentHigh) {
-            highWaterMarks.set(ticker, currentPrice);
-        }
-        const highWaterMark = highWaterMarks.get(ticker) || entryPrice;
-        const dropFromHigh = ((highWaterMark - currentPrice) / highWaterMark) * 100;
+            // Get config values
+            const TAKE_PROFIT_PERCENT = ConfigService.getTakeProfitPercent();
+            const STOP_LOSS_PERCENT = ConfigService.getStopLossPercent();
+            const EXIT_THRESHOLD = exitThreshold ?? ConfigService.getExitThreshold();
+            const TRAILING_STOP_ENABLED = ConfigService.getTrailingStopEnabled();
+            const TRAILING_STOP_PERCENT = ConfigService.getTrailingStopPercent();
+            const TRAILING_ACTIVATION = ConfigService.getTrailingActivation();
+            const LADDER = ConfigService.getExitLadder();
 
-        let shouldClose = false;
-        let reason = "";
+            // Ladder progress (the base is fixed when the first target hits)
+            const step = Number(trade.ladder_step || 0);
+            const baseQuantity = trade.ladder_base_quantity != null ? parseFloat(trade.ladder_base_quantity) : quantity;
+            const stopPrice = trade.stop_price != null ? parseFloat(trade.stop_price) : null;
+            const ladderStep = LADDER.rungs.length > 0
+                ? ladderExit(LADDER, { step, baseQuantity, openQuantity: quantity }, pnlPercent)
+                : null;
 
-        // EXIT RULES (Priority order):
-        // 1. Take Profit - Lock in gains
-        if (pnlPercent >= TAKE_PROFIT_PERCENT) {
-            shouldClose = true;
-            reason = "TAKE_PROFIT";
-        }
-        // 2. Trailing Stop - Only if in profit and enabled
-        else if (TRAILING_STOP_ENABLED && pnlPercent >= TRAILING_ACTIVATION && dropFromHigh >= TRAILING_STOP_PERCENT) {
-            shouldClose = true;
-            reason = `TRAILING_STOP (High: $${highWaterMark.toFixed(2)})`;
-        }
-        // 3. Stop Loss - Cut losses
-        else if (pnlPercent <= STOP_LOSS_PERCENT) {
-            shouldClose = true;
-            reason = "STOP_LOSS";
-        }
-        // 4. Momentum died - Exit regardless of P&L
-        else if (currentForce < EXIT_THRESHOLD) {
-            shouldClose = true;
-            reason = "MOMENTUM_DIED";
-        }
+            // Update water mark for trailing stop (best price seen in the trade's favour)
+            const currentMark = waterMarks.get(trade.id) || entryPrice;
+            if (sign * (currentPrice - currentMark) > 0) {
+                waterMarks.set(trade.id, currentPrice);
+            }
+            const waterMark = waterMarks.get(trade.id) || entryPrice;
+            const giveBack = sign * ((waterMark - currentPrice) / waterMark) * 100;
 
-        if (shouldClose) {
-            const profitUsd = (currentPrice - entryPrice) * quantity;
-            
-            await query(
-                `UPDATE paper_trades 
-                 SET status = 'CLOSED', exit_price = $1, closed_at = NOW(), profit = $2 
-                 WHERE id = $3`,
-                [currentPrice, profitUsd, trade.id]
-            );
+            let shouldClose = false;
+            let reason = "";
+            let closeQuantity = quantity;
+
+            // EXIT RULES (Priority order):
+            // 1. Take Profit - Lock in gains (the ladder's next targets, else all at once)
+            if (ladderStep) {
+                shouldClose = true;
+                reason = ladderStep.reason;
+                closeQuantity = ladderStep.quantity;
+            }
+            else if (LADDER.rungs.length === 0 && pnlPercent >= TAKE_PROFIT_PERCENT) {
+                shouldClose = true;
+                reason = "TAKE_PROFIT";
+            }
+            // 2. Trailing Stop - Only if in profit and enabled
+            else if (TRAILING_STOP_ENABLED && pnlPercent >= TRAILING_ACTIVATION && giveBack >= TRAILING_STOP_PERCENT) {
+                shouldClose = true;
+                reason = `TRAILING_STOP (${side === 'SHORT' ? 'Low' : 'High'}: $${waterMark.toFixed(2)})`;
+            }
+            // 3. Break-even Stop - The ladder moved the stop to entry
+            else if (stopPrice !== null && sign * (currentPrice - stopPrice) <= 0) {
+                shouldClose = true;
+                reason = "BREAK_EVEN_STOP";
+            }
+            // 4. Stop Loss - Cut losses
+            else if (pnlPercent <= STOP_LOSS_PERCENT) {
+                shouldClose = true;
+                reason = "STOP_LOSS";
+            }
+            // 5. Momentum died - Exit regardless of P&L
+            else if (currentForce < EXIT_THRESHOLD) {
+                shouldClose = true;
+                reason = "MOMENTUM_DIED";
+            }
 
-            // Clear high water mark
-            highWaterMarks.delete(ticker);
+            if (shouldClose) {
+                const exitFill = PortfolioService.quoteFill(ticker, orderSide(side, 'CLOSE'), currentPrice, closeQuantity);
+                const ladder = ladderStep
+                    ? { step: ladderStep.step, baseQuantity, stopPrice: breakEvenStop(LADDER, ladderStep.step, entryPrice) }
+                    : undefined;
+                const { profitUsd, grossUsd, closedAll } = await PaperService.closePosition(trade, exitFill, reason, ladder);
 
-            const emoji = profitUsd >= 0 ? '💰' : '💸';
-            console.log(`[SNIPER] ${emoji} CLOSED ${ticker}. P&L: $${profitUsd.toFixed(2)} (${reason})`);
+                const emoji = profitUsd >= 0 ? '💰' : '💸';
+                const action = closedAll ? 'CLOSED' : `SCALED OUT ${((closeQuantity / quantity) * 100).toFixed(0)}% of`;
+                console.log(`[SNIPER] ${emoji} ${action} ${side} ${ticker}. P&L: $${profitUsd.toFixed(2)} net / $${grossUsd.toFixed(2)} gross (${reason})`);
             
-            // Archive the exit event
-            await PaperService.archiveHijack(ticker, currentPrice, currentForce, 0, reason);
+                // Archive the exit event
+                await PaperService.archiveHijack(ticker, currentPrice, currentForce, 0, reason);
+            }
         }
     },
 
+    // Close all or part of a position (a paper_trades row) at an exit quoted
+    // for the quantity to close (at most what's open). Gross is tick to tick; net also pays both fills' spread, slippage and
+    // fees. A partial close splits the closed quantity off into its own CLOSED
+    // row (same entry, pro-rata entry costs, parent_trade_id pointing back);
+    // the rest stays open under the original id. Each leg keeps its exit
+    // reason. A full close cancels any exit orders still working on it.
+    // A ladder rung's progress, and whatever the caller passes as alsoWrite
+    // (e.g. the exit order's fill), commit with the close itself.
+    closePosition: async (
+        trade: any,
+        exitFill: FillCost,
+        reason: string | null = null,
+        ladder?: { step: number; baseQuantity: number; stopPrice: number | null },
+        alsoWrite?: (db: Query) => Promise<void>
+    ) => {
+        const side: PositionSide = trade.side === 'SHORT' ? 'SHORT' : 'LONG';
+        const openQuantity = parseFloat(trade.quantity);
+        const quantity = exitFill.quantity;
+        const share = quantity / openQuantity;
+        const entryPrice = parseFloat(trade.entry_price);
+        const entryRef = trade.entry_ref_price !== null ? parseFloat(trade.entry_ref_price) : entryPrice;
+
+        const entryFees = Number(trade.fees || 0) * share;
+        const entryCost = Number(trade.execution_cost || 0) * share;
+        const grossUsd = sideSign(side) * (exitFill.refPrice - entryRef) * quantity;
+        const fees = entryFees + exitFill.fee;
+        const executionCost = entryCost + exitFill.executionCost;
+        const profitUsd = grossUsd - fees - executionCost;
+
+        const closedAll = quantity >= openQuantity * (1 - 1e-9);
+
+        // Cash and the trade row move together
+        await transaction(async db => {
+            // Settle funding and book the exit while the position is still open at full size
+            await PortfolioService.recordFill(trade.account_id, { id: trade.id, ticker: trade.ticker, side, quantity }, exitFill, 'CLOSE', db);
+
+            if (closedAll) {
+                await db(
+                    `UPDATE paper_trades 
+                     SET status = 'CLOSED', exit_price = $1, exit_ref_price = $2, closed_at = NOW(),
+                         profit = $3, gross_profit = $4, fees = $5, execution_cost = $6, exit_reason = $8
+                     WHERE id = $7`,
+                    [exitFill.fillPrice, exitFill.refPrice, profitUsd, grossUsd, fees, executionCost, trade.id, reason]
+                );
+            } else {
+                await db(
+                        `INSERT INTO paper_trades (account_id, ticker, side, entry_price, entry_ref_price, quantity, hijack_force_at_entry,
+                                               mtf_direction, mtf_agreeing, mtf_from_candles, confluence_gated, sizing_method, sizing_rationale, opened_at,
+                                               status, exit_price, exit_ref_price, closed_at, profit, gross_profit, fees, execution_cost,
+                                               parent_trade_id, exit_reason)
+                     SELECT account_id, ticker, side, entry_price, entry_ref_price, $2, hijack_force_at_entry,
+                            mtf_direction, mtf_agreeing, mtf_from_candles, confluence_gated, sizing_method, sizing_rationale, opened_at,
+                            'CLOSED', $3, $4, NOW(), $5, $6, $7, $8, id, $9
+                     FROM paper_trades WHERE id = $1`,
+                    [trade.id, quantity, exitFill.fillPrice, exitFill.refPrice, profitUsd, grossUsd, fees, executionCost, reason]
+                );
+                await db(
+                    `UPDATE paper_trades SET quantity = quantity - $2, fees = fees - $3, execution_cost = execution_cost - $4 WHERE id = $1`,
+                    [trade.id, quantity, entryFees, entryCost]
+                );
+                if (ladder) {
+                    await db(
+                        `UPDATE paper_trades SET ladder_step = $2, ladder_base_quantity = $3, stop_price = COALESCE(stop_price, $4) WHERE id = $1`,
+                        [trade.id, ladder.step, ladder.baseQuantity, ladder.stopPrice]
+                    );
+                }
+            }
+
+            if (alsoWrite) await alsoWrite(db);
+        });
+
+        if (closedAll) {
+            waterMarks.delete(trade.id);
+            await PaperOrderService.cancelForTrade(trade.id, 'Position closed');
+        }
+
+        return { quantity, profitUsd, grossUsd, closedAll };
+    },
+
     // 4. ARCHIVE: Store hijack events for historical analysis
-    archiveHijack: async (ticker: string, price: number, force: number, narrativeScore: number, eventType: string) => {
+    archiveHijack: async (ticker: string, price: number, force: number, narrativeScore: number, eventType: string, context?: EntryContext) => {
         try {
             await query(
-                `INSERT INTO hijack_archive (ticker, price, hijack_force, narrative_score, event_type, recorded_at)
-                 VALUES ($1, $2, $3, $4, $5, NOW())`,
-                [ticker, price, force, narrativeScore, eventType]
+                `INSERT INTO hijack_archive (ticker, price, hijack_force, narrative_score, event_type, mtf_agreeing, confluence_gated, recorded_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+                [ticker, price, force, narrativeScore, eventType, context ? context.mtf?.agreeing || [] : null, context ? context.gated : null]
             );
         } catch (err) {
             // Table might not exist yet - silently fail
@@ -170,17 +335,49 @@ export const PaperService = {
         }
     },
 
-    // 5. STATS: Get trading performance
-    getStats: async () => {
+    // 5. STATS: Get trading performance (all accounts, or one). P&L is net of
+    // execution costs; gross is what the same trades made at tick prices.
+    getStats: async (account?: AccountName) => {
+        const accountId = accountFilter(account);
         const result = await query(`
             SELECT 
                 COUNT(*) FILTER (WHERE status = 'CLOSED') as total_trades,
                 COUNT(*) FILTER (WHERE status = 'CLOSED' AND profit > 0) as wins,
                 COUNT(*) FILTER (WHERE status = 'CLOSED' AND profit <= 0) as losses,
                 COALESCE(SUM(profit) FILTER (WHERE status = 'CLOSED'), 0) as total_pnl,
+                COALESCE(SUM(COALESCE(gross_profit, profit)) FILTER (WHERE status = 'CLOSED'), 0) as gross_pnl,
+                COALESCE(SUM(fees) FILTER (WHERE status = 'CLOSED'), 0) as total_fees,
+                COALESCE(SUM(execution_cost) FILTER (WHERE status = 'CLOSED'), 0) as total_execution_cost,
                 COUNT(*) FILTER (WHERE status = 'OPEN') as open_positions
             FROM paper_trades
-        `);
+            WHERE ($1::int IS NULL OR account_id = $1)
+        `, [accountId]);
+
+        const bySide = await query(`
+            SELECT 
+                side,
+                COUNT(*) as trades,
+                COUNT(*) FILTER (WHERE profit > 0) as wins,
+                COALESCE(SUM(profit), 0) as pnl
+            FROM paper_trades
+            WHERE status = 'CLOSED' AND ($1::int IS NULL OR account_id = $1)
+            GROUP BY side
+        `, [accountId]);
+
+        const sides: Record<PositionSide, { trades: number; wins: number; winRate: string; totalPnL: string }> = {
+            LONG: { trades: 0, wins: 0, winRate: '0.0%', totalPnL: '0.00' },
+            SHORT: { trades: 0, wins: 0, winRate: '0.0%', totalPnL: '0.00' }
+        };
+        for (const row of bySide.rows) {
+            const trades = parseInt(row.trades);
+            const wins = parseInt(row.wins);
+            sides[row.side as PositionSide] = {
+                trades,
+                wins,
+                winRate: `${trades > 0 ? ((wins / trades) * 100).toFixed(1) : '0.0'}%`,
+                totalPnL: parseFloat(row.pnl).toFixed(2)
+            };
+        }
         
         const stats = result.rows[0];
         const winRate = stats.total_trades > 0 
@@ -192,24 +389,90 @@ export const PaperService = {
             wins: parseInt(stats.wins),
             losses: parseInt(stats.losses),
             winRate: `${winRate}%`,
-            totalPnL: parseFloat(stats.total_pnl).toFixed(2),
-            openPositions: parseInt(stats.open_positions)
+            totalPnL: parseFloat(stats.total_pnl).toFixed(2),      // Net of costs
+            grossPnL: parseFloat(stats.gross_pnl).toFixed(2),
+            totalFees: parseFloat(stats.total_fees).toFixed(2),
+            totalExecutionCost: parseFloat(stats.total_execution_cost).toFixed(2),
+            openPositions: parseInt(stats.open_positions),
+            bySide: sides
+        };
+    },
+
+    // 6. CONFLUENCE STATS: Win rate with vs. without the gate, and by how many
+    // timeframes agreed with the trade's side at entry (ungated trades still
+    // record their agreement). Only the sniper's entries are gated, and only
+    // entries whose timeframes were read off per-timeframe candles count
+    // (earlier ones all agreed or none did).
+    getConfluenceStats: async () => {
+        const result = await query(`
+            SELECT
+                confluence_gated,
+                CASE WHEN mtf_direction = CASE WHEN side = 'SHORT' THEN 'DOWN' ELSE 'UP' END THEN COALESCE(array_length(mtf_agreeing, 1), 0) ELSE 0 END AS agreeing,
+                COUNT(*) AS trades,
+                COUNT(*) FILTER (WHERE profit > 0) AS wins,
+                COALESCE(SUM(profit), 0) AS pnl
+            FROM paper_trades
+            WHERE status = 'CLOSED' AND account_id = $1 AND mtf_from_candles
+            GROUP BY 1, 2
+        `, [accountFilter('SNIPER')]);
+
+        const bucket = () => ({ trades: 0, wins: 0, pnl: 0 });
+        const summarize = (b: { trades: number; wins: number; pnl: number }) => ({
+            trades: b.trades,
+            wins: b.wins,
+            winRate: b.trades > 0 ? Math.round((b.wins / b.trades) * 1000) / 10 : 0,
+            totalPnL: Math.round(b.pnl * 100) / 100
+        });
+
+        const gated = bucket();
+        const ungated = bucket();
+        const byAgreeing: Map<number, ReturnType<typeof bucket>> = new Map();
+
+        for (const row of result.rows) {
+            const trades = parseInt(row.trades);
+            const wins = parseInt(row.wins);
+            const pnl = parseFloat(row.pnl);
+            const agreeing = parseInt(row.agreeing);
+
+            const target = row.confluence_gated ? gated : ungated;
+            target.trades += trades;
+            target.wins += wins;
+            target.pnl += pnl;
+
+            if (!byAgreeing.has(agreeing)) byAgreeing.set(agreeing, bucket());
+            const tf = byAgreeing.get(agreeing)!;
+            tf.trades += trades;
+            tf.wins += wins;
+            tf.pnl += pnl;
+        }
+
+        return {
+            gated: summarize(gated),
+            ungated: summarize(ungated),
+            // Timeframes trending the trade's way at entry (0-4)
+            byAgreeingTimeframes: Array.from(byAgreeing.entries())
+                .sort((a, b) => a[0] - b[0])
+                .map(([agreeing, b]) => ({ agreeing, ...summarize(b) }))
         };
     },
 
-    // 6. P&L HISTORY: Get daily P&L for charting
-    getPnLHistory: async () => {
+    // 7. P&L HISTORY: Get daily P&L for charting (all accounts, or one)
+    getPnLHistory: async (account?: AccountName) => {
         const result = await query(`
             SELECT 
                 DATE(closed_at) as date,
                 SUM(profit) as daily_pnl,
+                SUM(COALESCE(gross_profit, profit)) as gross_pnl,
+                COALESCE(SUM(profit) FILTER (WHERE side = 'LONG'), 0) as long_pnl,
+                COALESCE(SUM(profit) FILTER (WHERE side = 'SHORT'), 0) as short_pnl,
                 COUNT(*) as trades
             FROM paper_trades 
             WHERE status = 'CLOSED' AND closed_at IS NOT NULL
+              AND ($1::int IS NULL OR account_id = $1)
             GROUP BY DATE(closed_at)
             ORDER BY date DESC
             LIMIT 30
-        `);
+        `, [accountFilter(account)]);
         return result.rows.reverse(); // Oldest first for charts
     }
 };
\ No newline at end of file
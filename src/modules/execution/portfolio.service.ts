@@ -0,0 +1,369 @@
+import { Query, query, transaction } from '../../shared/db';
+import { ConfigService } from '../../shared/config.service';
+import { MarketDataModel } from '../market/market-data.model';
+import { OrderBookService } from '../ingestor/order-book.service';
+import { estimateFill, FillCost, FillSide, Liquidity, VENUE_FEES } from '../../shared/execution-cost.util';
+import { PaperLedgerModel, PaperAccount, LedgerEntry, EquitySnapshot } from './paper-ledger.model';
+import { PositionSide, sideSign } from './paper.service';
+
+// PAPER PORTFOLIO
+// Named paper accounts, one per strategy: the sniper (PaperService) and one
+// per operator mode (AutoTraderService). Each trade books against its
+// strategy's account, so results, position limits and buying power never mix.
+// Fills move cash (buying a long pays out, opening a short takes in the
+// proceeds), fees and funding are their own ledger entries, and equity is
+// cash plus the signed mark-to-market value of open positions. Fills are
+// priced through the execution-cost model, so cash reflects the spread,
+// slippage and venue fee actually paid. Entries need enough free margin:
+// equity minus what open positions already tie up.
+
+export type AccountName = 'SNIPER' | 'AGGRESSIVE' | 'BALANCED' | 'CONSERVATIVE';
+
+export const ACCOUNT_NAMES: AccountName[] = ['SNIPER', 'AGGRESSIVE', 'BALANCED', 'CONSERVATIVE'];
+
+export const isAccountName = (value: unknown): value is AccountName =>
+    typeof value === 'string' && (ACCOUNT_NAMES as string[]).includes(value);
+
+// Starting capital (applied when the account is first created)
+const DEFAULT_BALANCE = Number(process.env.PAPER_STARTING_BALANCE) || 10_000;
+const STARTING_BALANCES: Record<AccountName, number> = {
+    SNIPER: Number(process.env.PAPER_CAPITAL_SNIPER) || DEFAULT_BALANCE,
+    AGGRESSIVE: Number(process.env.PAPER_CAPITAL_AGGRESSIVE) || DEFAULT_BALANCE,
+    BALANCED: Number(process.env.PAPER_CAPITAL_BALANCED) || DEFAULT_BALANCE,
+    CONSERVATIVE: Number(process.env.PAPER_CAPITAL_CONSERVATIVE) || DEFAULT_BALANCE
+};
+
+const STRATEGIES: Record<AccountName, string> = {
+    SNIPER: 'Hijack force sniper',
+    AGGRESSIVE: 'Operator (aggressive)',
+    BALANCED: 'Operator (balanced)',
+    CONSERVATIVE: 'Operator (conservative, long only)'
+};
+
+const SNAPSHOT_MS = Number(process.env.EQUITY_SNAPSHOT_MS) || 60_000;
+
+export interface PortfolioPosition {
+    tradeId: number;
+    ticker: string;
+    side: PositionSide;
+    quantity: number;
+    entryPrice: number;
+    markPrice: number;
+    marketValue: number;      // Signed: negative for shorts
+    unrealizedPnL: number;
+    openedAt: Date;
+}
+
+export interface BuyingPowerCheck {
+    allowed: boolean;
+    reason: string;
+    buyingPower: number;
+}
+
+export interface StrategyStanding {
+    rank: number;
+    account: AccountName;
+    strategy: string;
+    startingBalance: number;
+    equity: number;
+    returnPercent: number;
+    realizedPnL: number;
+    unrealizedPnL: number;
+    fees: number;
+    trades: number;
+    winRate: number;
+    openPositions: number;
+    maxDrawdownPercent: number;   // From equity snapshots
+}
+
+// Trade fields the ledger needs to book a fill
+interface FillTrade {
+    id: number;
+    ticker: string;
+    side: PositionSide;
+    quantity: number;
+}
+
+const accounts: Map<AccountName, PaperAccount> = new Map();
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const PortfolioService = {
+    // Ensure every account exists; trades from before the ledger go to SNIPER
+    init: async () => {
+        try {
+            for (const name of ACCOUNT_NAMES) {
+                accounts.set(name, await PaperLedgerModel.createAccount(name, STARTING_BALANCES[name]));
+            }
+            const adopted = await PaperLedgerModel.adoptUnassignedTrades(accounts.get('SNIPER')!.id);
+            if (adopted > 0) console.log(`[Portfolio] 📒 Back-filled ledger for ${adopted} existing paper trade(s)`);
+            console.log(`[Portfolio] 💼 Paper accounts ready: ${ACCOUNT_NAMES.map(n => `${n} $${accounts.get(n)!.startingBalance}`).join(', ')}`);
+        } catch (err) {
+            console.error('[Portfolio] Failed to load paper accounts:', err);
+        }
+    },
+
+    getAccountId: (name: AccountName): number | null => accounts.get(name)?.id ?? null,
+
+    // 1. MARK TO MARKET
+    getPositions: async (name: AccountName): Promise<PortfolioPosition[]> => {
+        const account = accounts.get(name);
+        if (!account) return [];
+
+        const result = await query(
+            `SELECT id, ticker, side, quantity, entry_price, opened_at FROM paper_trades WHERE account_id = $1 AND status = 'OPEN'`,
+            [account.id]
+        );
+
+        const positions: PortfolioPosition[] = [];
+        for (const row of result.rows) {
+            const side: PositionSide = row.side === 'SHORT' ? 'SHORT' : 'LONG';
+            const sign = sideSign(side);
+            const quantity = Number(row.quantity);
+            const entryPrice = Number(row.entry_price);
+            const markPrice = await MarketDataModel.getLatestPrice(row.ticker) || entryPrice;
+
+            positions.push({
+                tradeId: row.id,
+                ticker: row.ticker,
+                side,
+                quantity,
+                entryPrice,
+                markPrice,
+                marketValue: sign * quantity * markPrice,
+                unrealizedPnL: sign * (markPrice - entryPrice) * quantity,
+                openedAt: new Date(row.opened_at)
+            });
+        }
+        return positions;
+    },
+
+    // Cash, equity and margin right now
+    getPortfolio: async (name: AccountName) => {
+        const account = accounts.get(name);
+        if (!account) return null;
+
+        const [totals, positions, realized] = await Promise.all([
+            PaperLedgerModel.getTotals(account.id),
+            PortfolioService.getPositions(name),
+            query(`SELECT COALESCE(SUM(profit), 0) AS pnl FROM paper_trades WHERE account_id = $1 AND status = 'CLOSED'`, [account.id])
+        ]);
+
+        const marginRequirement = ConfigService.getMarginRequirement();
+        const positionsValue = positions.reduce((sum, p) => sum + p.marketValue, 0);
+        const equity = totals.cash + positionsValue;
+        const marginUsed = positions.reduce((sum, p) => sum + Math.abs(p.marketValue), 0) * marginRequirement;
+        const freeMargin = equity - marginUsed;
+
+        return {
+            account: account.name,
+            strategy: STRATEGIES[name],
+            startingBalance: account.startingBalance,
+            cash: round(totals.cash),
+            positionsValue: round(positionsValue),
+            equity: round(equity),
+            marginUsed: round(marginUsed),
+            freeMargin: round(freeMargin),
+            buyingPower: round(Math.max(0, freeMargin) / marginRequirement),
+            realizedPnL: round(Number(realized.rows[0].pnl)),
+            unrealizedPnL: round(positions.reduce((sum, p) => sum + p.unrealizedPnL, 0)),
+            fees: round(totals.fees),
+            funding: round(totals.funding),
+            returnPercent: round(((equity - totals.deposits) / totals.deposits) * 100),
+            positions
+        };
+    },
+
+    // 2. BUYING POWER: Can the account carry another position of this size?
+    checkBuyingPower: async (name: AccountName, notionalUsd: number): Promise<BuyingPowerCheck> => {
+        const portfolio = await PortfolioService.getPortfolio(name);
+        if (!portfolio) {
+            return { allowed: false, reason: `Paper account ${name} not loaded`, buyingPower: 0 };
+        }
+
+        const fee = notionalUsd * VENUE_FEES[ConfigService.getExecutionVenue()].takerBps / 10_000;
+        const required = notionalUsd * ConfigService.getMarginRequirement() + fee;
+        if (required > portfolio.freeMargin) {
+            return {
+                allowed: false,
+                reason: `Insufficient buying power in ${name}: need $${required.toFixed(2)} margin, $${Math.max(0, portfolio.freeMargin).toFixed(2)} free`,
+                buyingPower: portfolio.buyingPower
+            };
+        }
+        return { allowed: true, reason: 'OK', buyingPower: portfolio.buyingPower };
+    },
+
+    // 3. FILLS: Price a fill on the configured venue (live book when fresh)
+    quoteFill: (ticker: string, side: FillSide, refPrice: number, quantity: number, liquidity: Liquidity = 'taker'): FillCost => {
+        const model = ConfigService.getCostModel();
+        const metrics = OrderBookService.getMetrics(ticker, model.venue);
+        const book = metrics
+            ? { spreadBps: metrics.spreadBps, depthUsd: side === 'buy' ? metrics.askDepth1PctUsd : metrics.bidDepth1PctUsd }
+            : null;
+        return estimateFill(side, refPrice, quantity, model, liquidity, book);
+    },
+
+    // Book an entry or exit at its fill price plus its fee (exits settle
+    // funding first). The trade's own account_id decides where it lands.
+    // Pass the transaction the trade row is written in: a position must never
+    // exist without its cash having moved. Errors propagate.
+    recordFill: async (accountId: number, trade: FillTrade, fill: FillCost, action: 'OPEN' | 'CLOSE', db: Query = query) => {
+        if (action === 'CLOSE') await PortfolioService.accrueFunding(accountId, trade.id, db);
+
+        const direction = action === 'OPEN' ? -1 : 1;   // Opening a long pays, closing it receives
+        const verb = action === 'OPEN'
+            ? (trade.side === 'SHORT' ? 'Sell short' : 'Buy')
+            : (trade.side === 'SHORT' ? 'Buy to cover' : 'Sell');
+        const costBps = fill.halfSpreadBps + fill.slippageBps;
+
+        const entries: LedgerEntry[] = [{
+            accountId,
+            tradeId: trade.id,
+            type: 'FILL',
+            ticker: trade.ticker,
+            amount: direction * sideSign(trade.side) * fill.notional,
+            note: `${verb} ${trade.quantity.toPrecision(6)} @ $${fill.fillPrice.toPrecision(8)} (tick $${fill.refPrice}, ${costBps.toFixed(1)} bps ${fill.source} spread+slippage)`
+        }];
+
+        if (fill.fee > 0) {
+            entries.push({
+                accountId,
+                tradeId: trade.id,
+                type: 'FEE',
+                ticker: trade.ticker,
+                amount: -fill.fee,
+                note: `${ConfigService.getExecutionVenue()} ${fill.liquidity} ${fill.feeBps} bps on $${fill.notional.toFixed(2)}`
+            });
+        }
+
+        await PaperLedgerModel.addEntries(entries, db);
+    },
+
+    // 4. FUNDING: Longs pay the hourly rate on their notional, shorts receive
+    // it (perpetual-style); charged from the last accrual up to now. Runs in
+    // the caller's transaction (its own if none) with the trades locked, so
+    // the scheduled run and a close can't both charge the same interval.
+    accrueFunding: async (accountId: number, tradeId?: number, db?: Query): Promise<void> => {
+        const ratePerHour = ConfigService.getFundingRatePerHour() / 100;
+        if (ratePerHour === 0) return;
+        if (!db) return transaction(tx => PortfolioService.accrueFunding(accountId, tradeId, tx));
+
+        // Read after the lock: a statement from before it wouldn't see the
+        // other transaction's entries
+        const now = (await PaperLedgerModel.lockOpenTrades(accountId, tradeId, db)).getTime();
+        const due = await PaperLedgerModel.getFundingDue(accountId, db);
+        const entries: LedgerEntry[] = [];
+
+        for (const trade of due) {
+            if (tradeId !== undefined && trade.id !== tradeId) continue;
+
+            const hours = (now - trade.fundedThrough.getTime()) / 3_600_000;
+            if (hours <= 0) continue;
+
+            const mark = await MarketDataModel.getLatestPrice(trade.ticker);
+            if (mark === 0) continue;
+
+            const side: PositionSide = trade.side === 'SHORT' ? 'SHORT' : 'LONG';
+            const amount = -sideSign(side) * trade.quantity * mark * ratePerHour * hours;
+            entries.push({
+                accountId,
+                tradeId: trade.id,
+                type: 'FUNDING',
+                ticker: trade.ticker,
+                amount,
+                note: `${(hours * 60).toFixed(1)}m @ ${ConfigService.getFundingRatePerHour()}%/h`
+            });
+        }
+
+        await PaperLedgerModel.addEntries(entries, db);
+    },
+
+    // 5. EQUITY CURVE (?hours=24; hourly points past 2 days, daily past 30)
+    getEquityCurve: async (name: AccountName, hours: number = 24): Promise<EquitySnapshot[]> => {
+        const account = accounts.get(name);
+        if (!account) return [];
+        const bucket = hours > 24 * 30 ? 'day' : hours > 48 ? 'hour' : 'minute';
+        return PaperLedgerModel.getEquityCurve(account.id, hours, bucket);
+    },
+
+    getLedger: async (name: AccountName, limit: number = 50) => {
+        const account = accounts.get(name);
+        return account ? PaperLedgerModel.getRecentEntries(account.id, limit) : [];
+    },
+
+    // 6. STRATEGY LEADERBOARD: Every account ranked by return
+    getLeaderboard: async (): Promise<StrategyStanding[]> => {
+        const ids = ACCOUNT_NAMES.filter(n => accounts.has(n)).map(n => accounts.get(n)!.id);
+        const [tradeStats, drawdowns] = await Promise.all([
+            PaperLedgerModel.getClosedTradeStats(ids),
+            PaperLedgerModel.getMaxDrawdowns(ids)
+        ]);
+
+        const standings: Omit<StrategyStanding, 'rank'>[] = [];
+        for (const name of ACCOUNT_NAMES) {
+            const account = accounts.get(name);
+            const portfolio = await PortfolioService.getPortfolio(name);
+            if (!account || !portfolio) continue;
+
+            const stats = tradeStats.get(account.id) || { trades: 0, wins: 0 };
+            standings.push({
+                account: name,
+                strategy: STRATEGIES[name],
+                startingBalance: account.startingBalance,
+                equity: portfolio.equity,
+                returnPercent: portfolio.returnPercent,
+                realizedPnL: portfolio.realizedPnL,
+                unrealizedPnL: portfolio.unrealizedPnL,
+                fees: portfolio.fees,
+                trades: stats.trades,
+                winRate: stats.trades > 0 ? Math.round((stats.wins / stats.trades) * 1000) / 10 : 0,
+                openPositions: portfolio.positions.length,
+                maxDrawdownPercent: round(drawdowns.get(account.id) || 0)
+            });
+        }
+
+        return standings
+            .sort((a, b) => b.returnPercent - a.returnPercent)
+            .map((s, i) => ({ rank: i + 1, ...s }));
+    },
+
+    // SCHEDULED JOB: accrue funding, then snapshot equity for every account
+    start: () => {
+        if (timer) return;
+
+        const run = async () => {
+            if (running) return;
+            running = true;
+            try {
+                for (const [name, account] of accounts) {
+                    await PortfolioService.accrueFunding(account.id);
+                    const portfolio = await PortfolioService.getPortfolio(name);
+                    if (!portfolio) continue;
+
+                    await PaperLedgerModel.insertSnapshot(account.id, {
+                        cash: portfolio.cash,
+                        positionsValue: portfolio.positionsValue,
+                        equity: portfolio.equity,
+                        marginUsed: portfolio.marginUsed,
+                        openPositions: portfolio.positions.length
+                    });
+                }
+            } catch (err) {
+                console.error('[Portfolio] Snapshot error:', err);
+            } finally {
+                running = false;
+            }
+        };
+
+        run();
+        timer = setInterval(run, SNAPSHOT_MS);
+        console.log(`[Portfolio] ⏱️ Snapshotting paper equity every ${SNAPSHOT_MS / 1000}s`);
+    },
+
+    stop: () => {
+        if (timer) clearInterval(timer);
+        timer = null;
+    }
+};
@@ -0,0 +1,43 @@
+import { query } from '../../shared/db';
+import { ConfigService } from '../../shared/config.service';
+import {
+    ATR_PERIOD, KELLY_LOOKBACK_TRADES, averageTrueRange, sizePosition, SizingDecision, summarizeHistory, TradeHistory
+} from '../../shared/position-sizing.util';
+import { CandleService } from '../analytics/candle.service';
+import { PortfolioService, AccountName } from './portfolio.service';
+
+// POSITION SIZING SERVICE
+// Gathers what the configured sizing method needs for one strategy account
+// (equity from its ledger, the ticker's ATR from candles, Kelly stats from its
+// own closed trades) and sizes the entry. Lookups a method doesn't use are skipped.
+
+export const PositionSizingService = {
+    size: async (account: AccountName, ticker: string, price: number, fixedUsd: number): Promise<SizingDecision> => {
+        const config = ConfigService.getSizingConfig();
+        if (config.method === 'fixed') {
+            return sizePosition(config, { price, equity: 0, fixedUsd });
+        }
+
+        const portfolio = await PortfolioService.getPortfolio(account);
+        const equity = portfolio?.equity ?? 0;
+
+        const atr = config.method === 'volatility'
+            ? averageTrueRange(await CandleService.getCandles(ticker, config.atrTimeframe, ATR_PERIOD + 1))
+            : null;
+        const history = config.method === 'kelly' ? await PositionSizingService.getHistory(account) : null;
+
+        return sizePosition(config, { price, equity, fixedUsd, atr, history });
+    },
+
+    // Win rate and payoff over the account's most recent closed trades
+    getHistory: async (account: AccountName): Promise<TradeHistory> => {
+        const result = await query(`
+            SELECT profit FROM paper_trades
+            WHERE account_id = $1 AND status = 'CLOSED' AND profit IS NOT NULL
+            ORDER BY closed_at DESC
+            LIMIT $2
+        `, [PortfolioService.getAccountId(account), KELLY_LOOKBACK_TRADES]);
+
+        return summarizeHistory(result.rows.map(row => Number(row.profit)));
+    }
+};
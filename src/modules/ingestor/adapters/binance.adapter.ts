@@ -0,0 +1,56 @@
+import WebSocket from 'ws';
+import { ExchangeAdapter, NormalizedTick, toStorageTicker } from '../exchange.adapter';
+
+// BINANCE ADAPTER
+// Raw `<symbol>@trade` streams. USDT pairs are stored against the USD ticker.
+// No depth: Binance diff-depth needs a REST snapshot to be usable, so the
+// order book is left to Coinbase/Kraken.
+
+const QUOTE = 'USDT';
+
+export const BinanceAdapter: ExchangeAdapter = {
+    venue: 'binance',
+    url: 'wss://stream.binance.com:9443/ws',
+
+    toProductId: (symbol: string) => `${symbol.toUpperCase()}${QUOTE}`,
+
+    connect: () => new WebSocket(BinanceAdapter.url),
+
+    subscribe: (ws: WebSocket, productIds: string[]) => {
+        ws.send(JSON.stringify({
+            method: 'SUBSCRIBE',
+            params: productIds.map(p => `${p.toLowerCase()}@trade`),
+            id: 1
+        }));
+    },
+
+    unsubscribe: (ws: WebSocket, productIds: string[]) => {
+        ws.send(JSON.stringify({
+            method: 'UNSUBSCRIBE',
+            params: productIds.map(p => `${p.toLowerCase()}@trade`),
+            id: 2
+        }));
+    },
+
+    normalize: (message: any): NormalizedTick[] => {
+        if (message.e !== 'trade' || typeof message.s !== 'string') return [];
+
+        const price = parseFloat(message.p);
+        if (!Number.isFinite(price) || !message.s.endsWith(QUOTE)) return [];
+
+        const baseTicker = message.s.slice(0, -QUOTE.length); // BTCUSDT -> BTC
+
+        return [{
+            venue: 'binance',
+            ticker: toStorageTicker(baseTicker),
+            baseTicker,
+            productId: message.s,
+            price,
+            size: parseFloat(message.q) || 1.0,
+            // m = buyer is maker, so the taker sold
+            side: message.m ? 'sell' : 'buy',
+            tradeId: message.t !== undefined ? String(message.t) : undefined,
+            time: message.T ? new Date(message.T) : new Date()
+        }];
+    }
+};
@@ -0,0 +1,114 @@
+import WebSocket from 'ws';
+import { BookUpdate, ExchangeAdapter, FeedHeartbeat, NormalizedTick, SubscribeOptions, toStorageTicker } from '../exchange.adapter';
+
+// COINBASE EXCHANGE ADAPTER
+// Public ws-feed, `matches` channel. One message per fill, and trade ids are
+// contiguous per product - a jump means we missed trades. (`ticker` batches
+// cascading matches, so its trade ids skip and can't be used for gap checks.)
+// `heartbeat` reports the last trade id once a second, even for quiet products.
+// Depth comes from `level2_batch`: same snapshot/l2update messages as `level2`,
+// batched every 50ms, and available without authentication.
+
+export const CoinbaseAdapter: ExchangeAdapter = {
+    venue: 'coinbase',
+    url: 'wss://ws-feed.exchange.coinbase.com',
+
+    toProductId: (symbol: string) => `${symbol.toUpperCase()}-USD`,
+
+    connect: () => new WebSocket(CoinbaseAdapter.url),
+
+    subscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => {
+        ws.send(JSON.stringify({
+            type: 'subscribe',
+            product_ids: productIds,
+            channels: options.orderBook
+                ? ['matches', 'heartbeat', 'level2_batch']
+                : ['matches', 'heartbeat']
+        }));
+    },
+
+    unsubscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => {
+        ws.send(JSON.stringify({
+            type: 'unsubscribe',
+            product_ids: productIds,
+            channels: options.orderBook
+                ? ['matches', 'heartbeat', 'level2_batch']
+                : ['matches', 'heartbeat']
+        }));
+    },
+
+    normalize: (message: any): NormalizedTick[] => {
+        // last_match is replayed on subscribe; duplicates are dropped by feed health
+        if ((message.type !== 'match' && message.type !== 'last_match') || !message.product_id) return [];
+
+        const price = parseFloat(message.price);
+        if (!Number.isFinite(price)) return [];
+
+        const baseTicker = message.product_id.split('-')[0]; // BTC-USD -> BTC
+
+        return [{
+            venue: 'coinbase',
+            ticker: toStorageTicker(baseTicker),
+            baseTicker,
+            productId: message.product_id,
+            price,
+            size: parseFloat(message.size || '1.0'),
+            // Match side is the maker's; flip it to the taker side
+            side: message.side === 'buy' ? 'sell' : message.side === 'sell' ? 'buy' : undefined,
+            tradeId: message.trade_id !== undefined ? String(message.trade_id) : undefined,
+            sequence: typeof message.sequence === 'number' ? message.sequence : undefined,
+            time: message.time ? new Date(message.time) : new Date()
+        }];
+    },
+
+    normalizeBook: (message: any): BookUpdate[] => {
+        if (!message.product_id) return [];
+        const baseTicker = message.product_id.split('-')[0];
+        const base = {
+            venue: 'coinbase' as const,
+            ticker: toStorageTicker(baseTicker),
+            productId: message.product_id
+        };
+
+        if (message.type === 'snapshot') {
+            return [{
+                ...base,
+                type: 'snapshot',
+                bids: (message.bids || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+                asks: (message.asks || []).map((l: string[]) => [parseFloat(l[0]), parseFloat(l[1])]),
+                time: new Date()
+            }];
+        }
+
+        if (message.type === 'l2update') {
+            const bids: [number, number][] = [];
+            const asks: [number, number][] = [];
+            for (const [side, price, size] of message.changes || []) {
+                (side === 'buy' ? bids : asks).push([parseFloat(price), parseFloat(size)]);
+            }
+            return [{
+                ...base,
+                type: 'update',
+                bids,
+                asks,
+                time: message.time ? new Date(message.time) : new Date()
+            }];
+        }
+
+        return [];
+    },
+
+    normalizeHeartbeat: (message: any): FeedHeartbeat[] => {
+        if (message.type !== 'heartbeat' || !message.product_id) return [];
+        const lastTradeId = Number(message.last_trade_id);
+
+        return [{
+            venue: 'coinbase',
+            ticker: toStorageTicker(message.product_id.split('-')[0]),
+            productId: message.product_id,
+            sequence: typeof message.sequence === 'number' ? message.sequence : undefined,
+            lastTradeId: Number.isFinite(lastTradeId) ? lastTradeId : undefined,
+            time: message.time ? new Date(message.time) : new Date()
+        }];
+    }
+};
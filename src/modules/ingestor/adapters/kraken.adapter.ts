@@ -0,0 +1,87 @@
+import WebSocket from 'ws';
+import { BookUpdate, ExchangeAdapter, NormalizedTick, SubscribeOptions, toStorageTicker } from '../exchange.adapter';
+
+// KRAKEN ADAPTER
+// WebSocket v2, `trade` channel. Trades arrive batched in a `data` array.
+// Depth comes from the `book` channel, capped at KRAKEN_BOOK_DEPTH levels per side.
+
+export const KRAKEN_BOOK_DEPTH = 100;
+
+export const KrakenAdapter: ExchangeAdapter = {
+    venue: 'kraken',
+    url: 'wss://ws.kraken.com/v2',
+
+    toProductId: (symbol: string) => `${symbol.toUpperCase()}/USD`,
+
+    connect: () => new WebSocket(KrakenAdapter.url),
+
+    subscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => {
+        ws.send(JSON.stringify({
+            method: 'subscribe',
+            params: { channel: 'trade', symbol: productIds }
+        }));
+
+        if (options.orderBook) {
+            ws.send(JSON.stringify({
+                method: 'subscribe',
+                params: { channel: 'book', symbol: productIds, depth: KRAKEN_BOOK_DEPTH }
+            }));
+        }
+    },
+
+    unsubscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => {
+        ws.send(JSON.stringify({
+            method: 'unsubscribe',
+            params: { channel: 'trade', symbol: productIds }
+        }));
+
+        if (options.orderBook) {
+            ws.send(JSON.stringify({
+                method: 'unsubscribe',
+                params: { channel: 'book', symbol: productIds, depth: KRAKEN_BOOK_DEPTH }
+            }));
+        }
+    },
+
+    normalize: (message: any): NormalizedTick[] => {
+        if (message.channel !== 'trade' || !Array.isArray(message.data)) return [];
+
+        const ticks: NormalizedTick[] = [];
+        for (const trade of message.data) {
+            const price = Number(trade.price);
+            if (!trade.symbol || !Number.isFinite(price)) continue;
+
+            const baseTicker = trade.symbol.split('/')[0]; // BTC/USD -> BTC
+            ticks.push({
+                venue: 'kraken',
+                ticker: toStorageTicker(baseTicker),
+                baseTicker,
+                productId: trade.symbol,
+                price,
+                size: Number(trade.qty) || 1.0,
+                side: trade.side === 'buy' || trade.side === 'sell' ? trade.side : undefined,
+                tradeId: trade.trade_id !== undefined ? String(trade.trade_id) : undefined,
+                time: trade.timestamp ? new Date(trade.timestamp) : new Date()
+            });
+        }
+        return ticks;
+    },
+
+    normalizeBook: (message: any): BookUpdate[] => {
+        if (message.channel !== 'book' || !Array.isArray(message.data)) return [];
+        if (message.type !== 'snapshot' && message.type !== 'update') return [];
+
+        return message.data
+            .filter((book: any) => typeof book.symbol === 'string')
+            .map((book: any): BookUpdate => ({
+                venue: 'kraken',
+                ticker: toStorageTicker(book.symbol.split('/')[0]),
+                productId: book.symbol,
+                type: message.type,
+                bids: (book.bids || []).map((l: any) => [Number(l.price), Number(l.qty)]),
+                asks: (book.asks || []).map((l: any) => [Number(l.price), Number(l.qty)]),
+                depth: KRAKEN_BOOK_DEPTH,
+                time: book.timestamp ? new Date(book.timestamp) : new Date()
+            }));
+    }
+};
@@ -0,0 +1,77 @@
+import WebSocket from 'ws';
+
+// EXCHANGE ADAPTERS
+// Every venue speaks its own websocket dialect. An adapter knows how to reach
+// the venue, which product ids to ask for, and how to turn its trade messages
+// into the one tick shape the rest of the pipeline understands.
+
+export type Venue = 'coinbase' | 'kraken' | 'binance';
+
+export interface NormalizedTick {
+    venue: Venue;
+    ticker: string;          // Storage format: BTC-USD -> BTCUSD
+    baseTicker: string;      // BTC
+    productId: string;       // Venue-native id (BTC-USD, BTC/USD, BTCUSDT)
+    price: number;
+    size: number;
+    side?: 'buy' | 'sell';   // Taker side
+    tradeId?: string;
+    sequence?: number;       // Venue sequence number (if the feed has one)
+    time: Date;              // Exchange timestamp
+}
+
+// Level-2 depth: [price, size] levels. A size of 0 removes the level.
+export interface BookUpdate {
+    venue: Venue;
+    ticker: string;
+    productId: string;
+    type: 'snapshot' | 'update';
+    bids: [number, number][];
+    asks: [number, number][];
+    depth?: number;              // Subscribed levels per side: trim to this after every update
+    time: Date;
+}
+
+// Liveness beacon for a product that may not be trading. Lets us tell a quiet
+// market from a dead feed, and check the last trade id against what we received.
+export interface FeedHeartbeat {
+    venue: Venue;
+    ticker: string;
+    productId: string;
+    sequence?: number;
+    lastTradeId?: number;
+    time: Date;
+}
+
+export interface SubscribeOptions {
+    orderBook: boolean;      // Also subscribe to level-2 depth
+}
+
+export interface ExchangeAdapter {
+    venue: Venue;
+    url: string;
+
+    // Map a base symbol (BTC) to this venue's product id, or null if not listed
+    toProductId: (symbol: string) => string | null;
+
+    // Open a socket to the venue
+    connect: () => WebSocket;
+
+    // Send the subscribe message(s) for the given product ids
+    subscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => void;
+
+    // Drop product ids from a live socket (asset disabled at runtime)
+    unsubscribe: (ws: WebSocket, productIds: string[], options: SubscribeOptions) => void;
+
+    // Raw message -> zero or more ticks (some venues batch trades)
+    normalize: (message: any) => NormalizedTick[];
+
+    // Raw message -> book snapshot/update. Venues without a usable depth feed omit this.
+    normalizeBook?: (message: any) => BookUpdate[];
+
+    // Raw message -> per-product heartbeats, for venues that publish them
+    normalizeHeartbeat?: (message: any) => FeedHeartbeat[];
+}
+
+// Every venue is stored against the same USD ticker so the leaderboard can merge them
+export const toStorageTicker = (baseTicker: string): string => `${baseTicker}USD`;
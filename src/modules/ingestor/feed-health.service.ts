@@ -0,0 +1,284 @@
+import { FeedHeartbeat, NormalizedTick, Venue } from './exchange.adapter';
+import { TelegramService } from '../notifications/telegram.service';
+
+// FEED HEALTH SERVICE
+// Knows whether the market data we're acting on is complete and current.
+// - Per product: last tick age, trade-id gaps (missed trades), out-of-order/duplicate drops
+// - Per venue: connection state, reconnects, parse errors, time since last message
+// - Stale detection: a silent socket gets recycled, a silent product gets flagged
+// - Reconnect delay: exponential backoff with jitter, reset once ticks or heartbeats flow again
+
+interface ProductHealth {
+    venue: Venue;
+    ticker: string;
+    productId: string;
+    lastTickAt: number | null;
+    lastHeartbeatAt: number | null;
+    lastSequence: number | null;
+    lastTradeId: number | null;
+    heartbeatTradeId: number | null;   // Last trade id the venue said it published
+    ticks: number;
+    gaps: number;
+    missedTrades: number;
+    outOfOrder: number;
+    stale: boolean;
+}
+
+interface VenueHealth {
+    venue: Venue;
+    connected: boolean;
+    connectedAt: number | null;
+    lastMessageAt: number | null;
+    reconnects: number;
+    consecutiveFailures: number;
+    nextReconnectMs: number | null;
+    parseErrors: number;
+    stale: boolean;
+}
+
+export type FeedStatus = 'healthy' | 'degraded' | 'down';
+
+const VENUE_STALE_MS = (Number(process.env.FEED_STALE_SECONDS) || 30) * 1000;
+const PRODUCT_STALE_MS = (Number(process.env.FEED_PRODUCT_STALE_SECONDS) || 300) * 1000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+const CHECK_INTERVAL_MS = 5000;
+
+const venues: Map<Venue, VenueHealth> = new Map();
+const products: Map<string, ProductHealth> = new Map(); // `${venue}:${productId}`
+
+let checkTimer: NodeJS.Timeout | null = null;
+
+const getVenue = (venue: Venue): VenueHealth => {
+    let health = venues.get(venue);
+    if (!health) {
+        health = {
+            venue,
+            connected: false,
+            connectedAt: null,
+            lastMessageAt: null,
+            reconnects: 0,
+            consecutiveFailures: 0,
+            nextReconnectMs: null,
+            parseErrors: 0,
+            stale: false
+        };
+        venues.set(venue, health);
+    }
+    return health;
+};
+
+const getProduct = (venue: Venue, productId: string, ticker: string): ProductHealth => {
+    const key = `${venue}:${productId}`;
+    let health = products.get(key);
+    if (!health) {
+        health = {
+            venue,
+            ticker,
+            productId,
+            lastTickAt: null,
+            lastHeartbeatAt: null,
+            lastSequence: null,
+            lastTradeId: null,
+            heartbeatTradeId: null,
+            ticks: 0,
+            gaps: 0,
+            missedTrades: 0,
+            outOfOrder: 0,
+            stale: false
+        };
+        products.set(key, health);
+    }
+    return health;
+};
+
+const toTradeId = (tradeId?: string): number | null => {
+    if (tradeId === undefined) return null;
+    const id = Number(tradeId);
+    return Number.isInteger(id) ? id : null;
+};
+
+const recordGap = (product: ProductHealth, missed: number) => {
+    product.gaps++;
+    product.missedTrades += missed;
+    console.warn(`[FeedHealth] ⚠️ ${product.venue} ${product.productId}: gap of ${missed} trade(s)`);
+};
+
+const ageSeconds = (at: number | null, now: number): number | null =>
+    at === null ? null : Math.round((now - at) / 1000);
+
+export const FeedHealthService = {
+    start: () => {
+        if (checkTimer) return;
+        checkTimer = setInterval(() => FeedHealthService.checkStale(), CHECK_INTERVAL_MS);
+    },
+
+    stop: () => {
+        if (checkTimer) clearInterval(checkTimer);
+        checkTimer = null;
+    },
+
+    // Forget products no longer subscribed on a venue, so they don't go stale
+    retainProducts: (venue: Venue, productIds: string[]) => {
+        for (const [key, product] of products) {
+            if (product.venue === venue && !productIds.includes(product.productId)) products.delete(key);
+        }
+    },
+
+    onConnect: (venue: Venue) => {
+        const health = getVenue(venue);
+        health.connected = true;
+        health.connectedAt = Date.now();
+        health.lastMessageAt = Date.now();
+        health.nextReconnectMs = null;
+        health.stale = false;
+    },
+
+    // Returns how long to wait before reconnecting
+    onDisconnect: (venue: Venue): number => {
+        const health = getVenue(venue);
+        health.connected = false;
+        health.stale = false;   // The replacement socket gets a fresh watchdog window
+        health.reconnects++;
+
+        const exponential = BACKOFF_BASE_MS * Math.pow(2, health.consecutiveFailures);
+        const jitter = Math.random() * BACKOFF_BASE_MS;
+        const delay = Math.min(BACKOFF_MAX_MS, exponential + jitter);
+
+        health.consecutiveFailures++;
+        health.nextReconnectMs = Math.round(delay);
+        return health.nextReconnectMs;
+    },
+
+    onMessage: (venue: Venue) => {
+        const health = getVenue(venue);
+        health.lastMessageAt = Date.now();
+    },
+
+    onParseError: (venue: Venue) => {
+        getVenue(venue).parseErrors++;
+    },
+
+    // Returns false for a duplicate/out-of-order tick that should be dropped
+    onTick: (tick: NormalizedTick): boolean => {
+        const product = getProduct(tick.venue, tick.productId, tick.ticker);
+        const tradeId = toTradeId(tick.tradeId);
+
+        if (tick.sequence !== undefined && product.lastSequence !== null && tick.sequence <= product.lastSequence) {
+            product.outOfOrder++;
+            return false;
+        }
+        if (tradeId !== null && product.lastTradeId !== null) {
+            if (tradeId <= product.lastTradeId) {
+                product.outOfOrder++;
+                return false;
+            }
+            if (tradeId > product.lastTradeId + 1) {
+                recordGap(product, tradeId - product.lastTradeId - 1);
+            }
+        }
+
+        if (tick.sequence !== undefined) product.lastSequence = tick.sequence;
+        if (tradeId !== null) product.lastTradeId = tradeId;
+        product.lastTickAt = Date.now();
+        product.ticks++;
+        // Data is flowing again - the next drop starts backoff from scratch. Acks and
+        // error frames don't count, or a venue that accepts then drops us never backs off
+        getVenue(tick.venue).consecutiveFailures = 0;
+        return true;
+    },
+
+    // The venue published trades up to heartbeatTradeId one beat ago; if we still
+    // haven't seen them, they were lost. Checking the previous beat gives in-flight
+    // trades a second to arrive.
+    onHeartbeat: (heartbeat: FeedHeartbeat) => {
+        const product = getProduct(heartbeat.venue, heartbeat.productId, heartbeat.ticker);
+        product.lastHeartbeatAt = Date.now();
+        getVenue(heartbeat.venue).consecutiveFailures = 0;
+
+        if (product.heartbeatTradeId !== null && product.lastTradeId !== null
+            && product.lastTradeId < product.heartbeatTradeId) {
+            recordGap(product, product.heartbeatTradeId - product.lastTradeId);
+            product.lastTradeId = product.heartbeatTradeId;
+        }
+
+        if (heartbeat.lastTradeId !== undefined) product.heartbeatTradeId = heartbeat.lastTradeId;
+    },
+
+    isVenueStale: (venue: Venue): boolean => getVenue(venue).stale,
+
+    checkStale: () => {
+        const now = Date.now();
+
+        for (const health of venues.values()) {
+            const silent = health.connected && health.lastMessageAt !== null
+                && now - health.lastMessageAt > VENUE_STALE_MS;
+
+            if (silent && !health.stale) {
+                health.stale = true;
+                console.warn(`[FeedHealth] 💀 ${health.venue} feed STALE - no messages for ${VENUE_STALE_MS / 1000}s`);
+                TelegramService.sendMessage(
+                    `⚠️ *FEED STALE*: ${health.venue} has sent nothing for ${VENUE_STALE_MS / 1000}s. Reconnecting.`
+                );
+            } else if (!silent && health.connected && health.stale) {
+                health.stale = false;
+            }
+        }
+
+        const newlyStale: string[] = [];
+        for (const product of products.values()) {
+            // A heartbeat means the product is quiet, not that the feed is dead
+            const lastSeen = Math.max(product.lastTickAt || 0, product.lastHeartbeatAt || 0);
+            const stale = lastSeen > 0 && now - lastSeen > PRODUCT_STALE_MS;
+
+            if (stale && !product.stale) newlyStale.push(`${product.productId} (${product.venue})`);
+            product.stale = stale;
+        }
+
+        if (newlyStale.length > 0) {
+            console.warn(`[FeedHealth] ⚠️ Stale products: ${newlyStale.join(', ')}`);
+            TelegramService.sendMessage(
+                `⚠️ *STALE PRODUCTS*: no data for ${PRODUCT_STALE_MS / 1000}s\n${newlyStale.join('\n')}`
+            );
+        }
+    },
+
+    getStatus: () => {
+        const now = Date.now();
+        const venueList = Array.from(venues.values());
+        const productList = Array.from(products.values());
+
+        let status: FeedStatus = 'healthy';
+        if (venueList.length === 0 || venueList.every(v => !v.connected || v.stale)) {
+            status = 'down';
+        } else if (venueList.some(v => !v.connected || v.stale) || productList.some(p => p.stale)) {
+            status = 'degraded';
+        }
+
+        return {
+            status,
+            venues: venueList.map(v => ({
+                venue: v.venue,
+                connected: v.connected,
+                stale: v.stale,
+                uptimeSeconds: v.connected ? ageSeconds(v.connectedAt, now) : null,
+                lastMessageAgeSeconds: ageSeconds(v.lastMessageAt, now),
+                reconnects: v.reconnects,
+                nextReconnectMs: v.nextReconnectMs,
+                parseErrors: v.parseErrors
+            })),
+            products: productList.map(p => ({
+                venue: p.venue,
+                productId: p.productId,
+                ticker: p.ticker,
+                stale: p.stale,
+                lastTickAgeSeconds: ageSeconds(p.lastTickAt, now),
+                lastHeartbeatAgeSeconds: ageSeconds(p.lastHeartbeatAt, now),
+                ticks: p.ticks,
+                gaps: p.gaps,
+                missedTrades: p.missedTrades,
+                outOfOrder: p.outOfOrder
+            }))
+        };
+    }
+};
@@ -1,68 +1,205 @@
 import WebSocket from 'ws';
-import { query } from '../../shared/db';
 import { AlertsService } from '../notifications/alerts.service';
+import { CandleService } from '../analytics/candle.service';
+import { ExchangeAdapter, NormalizedTick, Venue } from './exchange.adapter';
+import { CoinbaseAdapter } from './adapters/coinbase.adapter';
+import { KrakenAdapter } from './adapters/kraken.adapter';
+import { BinanceAdapter } from './adapters/binance.adapter';
+import { TickBufferService } from './tick-buffer.service';
+import { OrderBookService } from './order-book.service';
+import { FeedHealthService } from './feed-health.service';
+import { TickRecorderService } from './tick-recorder.service';
+import { TickReplayService } from './tick-replay.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { LeaderboardStreamService } from '../sentiment/leaderboard-stream.service';
+import { PaperOrderService } from '../execution/paper-order.service';
+import { MockExchangeClient } from '../execution/clients/mock.client';
+
+const ADAPTERS: Record<Venue, ExchangeAdapter> = {
+    coinbase: CoinbaseAdapter,
+    kraken: KrakenAdapter,
+    binance: BinanceAdapter
+};
+
+// Which venues to stream, e.g. INGEST_VENUES=coinbase,kraken (default: coinbase only)
+const getEnabledVenues = (): Venue[] => {
+    const requested = (process.env.INGEST_VENUES || 'coinbase')
+        .split(',')
+        .map(v => v.trim().toLowerCase())
+        .filter(Boolean);
+
+    return requested.filter((v): v is Venue => v in ADAPTERS);
+};
+
+// Level-2 depth is on unless INGEST_ORDER_BOOK=false
+const isOrderBookEnabled = (): boolean => process.env.INGEST_ORDER_BOOK !== 'false';
+
+// Live socket per venue and what it's subscribed to
+const connections: Map<Venue, { ws: WebSocket; productIds: string[] }> = new Map();
 
 export const IngestorService = {
     startIngestion: () => {
-        const wsUrl = 'wss://ws-feed.exchange.coinbase.com';
-        
-        // THE DRAGNET: Expanded Asset List (Top 20 Volatile Assets on Coinbase)
-        const assets = [
-            'BTC-USD', 'ETH-USD', 'SOL-USD', 'DOGE-USD', // The Majors
-            'SHIB-USD', 'AVAX-USD', 'LINK-USD', 'UNI-USD', 'MATIC-USD', // The Alts
-            'LTC-USD', 'XRP-USD', 'ADA-USD', 'DOT-USD', 'BCH-USD', // The Classics
-            'PEPE-USD', 'SUI-USD', 'APT-USD', 'ARB-USD', 'OP-USD' // The New Guard
-        ];
+        // REPLAY MODE: no sockets, the recorded file is the market
+        if (process.env.REPLAY_FILE) {
+            IngestorService.startReplay(process.env.REPLAY_FILE);
+            return;
+        }
 
-        console.log(`[Ingestor] 🟢 Connecting to Coinbase Stream for ${assets.length} assets...`);
+        const venues = getEnabledVenues();
+        if (venues.length === 0) {
+            console.error('[Ingestor] 💀 No valid venues in INGEST_VENUES. Nothing to stream.');
+            return;
+        }
 
-        const ws = new WebSocket(wsUrl);
+        TickBufferService.start();
+        FeedHealthService.start();
 
-        ws.on('open', () => {
-            console.log('[Ingestor] ✅ CONNECTED! Subscribing to market feed...');
-            const msg = {
-                type: "subscribe",
-                product_ids: assets,
-                channels: ["ticker"]
-            };
-            ws.send(JSON.stringify(msg));
+        if (process.env.RECORD_TICKS_DIR) {
+            TickRecorderService.start(process.env.RECORD_TICKS_DIR);
+        }
+
+        for (const venue of venues) {
+            IngestorService.connectVenue(ADAPTERS[venue]);
+        }
+
+        // Assets added/disabled at runtime: adjust subscriptions in place
+        AssetRegistryService.onChange(() => IngestorService.resubscribe());
+    },
+
+    // Diff each open socket's subscriptions against the registry
+    resubscribe: () => {
+        const options = { orderBook: isOrderBookEnabled() };
+
+        for (const [venue, connection] of connections) {
+            // Sockets that aren't open pick up the new list when they reconnect
+            if (connection.ws.readyState !== WebSocket.OPEN) continue;
+
+            const adapter = ADAPTERS[venue];
+            const wanted = AssetRegistryService.getProductIds(adapter);
+            const added = wanted.filter(p => !connection.productIds.includes(p));
+            const removed = connection.productIds.filter(p => !wanted.includes(p));
+
+            if (added.length > 0) adapter.subscribe(connection.ws, added, options);
+            if (removed.length > 0) {
+                adapter.unsubscribe(connection.ws, removed, options);
+                FeedHealthService.retainProducts(venue, wanted);
+                OrderBookService.retainProducts(venue, wanted);
+            }
+            connection.productIds = wanted;
+
+            if (added.length > 0 || removed.length > 0) {
+                console.log(`[Ingestor] 🔄 ${venue}: +${added.length} / -${removed.length} products`);
+            }
+        }
+    },
+
+    // Feed a recording through handleTick instead of the exchanges
+    startReplay: (file: string) => {
+        TickBufferService.start();
+
+        TickReplayService.replay({
+            file,
+            speed: TickReplayService.parseSpeed(process.env.REPLAY_SPEED),
+            retime: process.env.REPLAY_RETIME === 'true',
+            onTick: IngestorService.handleTick
+        }).catch(err => {
+            console.error(`[Ingestor] 💀 Replay of ${file} failed:`, err.message);
         });
+    },
 
-        ws.on('message', async (data: string) => {
-            try {
-                const message = JSON.parse(data);
-                if (message.type !== 'ticker') return;
+    // One socket per venue; each reconnects on its own
+    connectVenue: (adapter: ExchangeAdapter) => {
+        console.log(`[Ingestor] 🟢 Connecting to ${adapter.venue} stream for ${AssetRegistryService.getProductIds(adapter).length} assets...`);
 
-                // Normalize Ticker: BTC-USD -> BTCUSD
-                const ticker = message.product_id.replace('-', ''); 
-                const price = parseFloat(message.price);
-                const volume = parseFloat(message.last_size || '1.0');
+        const ws = adapter.connect();
+        const connection = { ws, productIds: [] as string[] };
+        connections.set(adapter.venue, connection);
 
-                // Feed price to AlertsService for price alerts (BTC format without USD)
-                const baseTicker = message.product_id.split('-')[0]; // BTC-USD -> BTC
-                AlertsService.getInstance().updatePrice(baseTicker, price);
+        // Watchdog: a socket that stays open but goes silent never fires 'close' on its own
+        const watchdog = setInterval(() => {
+            if (FeedHealthService.isVenueStale(adapter.venue)) {
+                console.warn(`[Ingestor] 💀 ${adapter.venue} feed stale. Terminating socket...`);
+                ws.terminate();
+            }
+        }, 5000);
 
-                // SILENCE: We removed the console.log pulse check to save CPU/Logs.
+        ws.on('open', () => {
+            console.log(`[Ingestor] ✅ ${adapter.venue} CONNECTED! Subscribing to market feed...`);
+            FeedHealthService.onConnect(adapter.venue);
+            // Read the registry now, not at connect time - it may have changed meanwhile
+            connection.productIds = AssetRegistryService.getProductIds(adapter);
+            FeedHealthService.retainProducts(adapter.venue, connection.productIds);
+            adapter.subscribe(ws, connection.productIds, { orderBook: isOrderBookEnabled() });
+        });
 
-                const sql = `
-                    INSERT INTO sentiment_metrics (ticker, sentiment_score, volume, time) 
-                    VALUES ($1, $2, $3, NOW())
-                `;
-                
-                await query(sql, [ticker, price, volume]);
+        ws.on('message', (data: string) => {
+            FeedHealthService.onMessage(adapter.venue);
+            try {
+                const message = JSON.parse(data);
+                const ticks = adapter.normalize(message);
+                for (const tick of ticks) {
+                    IngestorService.handleTick(tick);
+                }
+
+                if (adapter.normalizeBook) {
+                    for (const update of adapter.normalizeBook(message)) {
+                        OrderBookService.apply(update);
+                    }
+                }
 
+                if (adapter.normalizeHeartbeat) {
+                    for (const heartbeat of adapter.normalizeHeartbeat(message)) {
+                        FeedHealthService.onHeartbeat(heartbeat);
+                    }
+                }
             } catch (err) {
-                // Ignore parsing errors
+                // Counted, not logged - a malformed message shouldn't flood the logs
+                FeedHealthService.onParseError(adapter.venue);
             }
         });
 
         ws.on('error', (err) => {
-            console.error('[Ingestor] 💀 CONNECTION ERROR:', err.message);
+            console.error(`[Ingestor] 💀 ${adapter.venue} CONNECTION ERROR:`, err.message);
         });
 
         ws.on('close', () => {
-            console.log('[Ingestor] ⚠️ Disconnected. Restarting in 5s...');
-            setTimeout(() => IngestorService.startIngestion(), 5000);
+            clearInterval(watchdog);
+            const delay = FeedHealthService.onDisconnect(adapter.venue);
+            console.log(`[Ingestor] ⚠️ ${adapter.venue} disconnected. Restarting in ${(delay / 1000).toFixed(1)}s...`);
+            // Books are stale the moment the socket drops; the next snapshot rebuilds them
+            OrderBookService.clearVenue(adapter.venue);
+            setTimeout(() => IngestorService.connectVenue(adapter), delay);
         });
-    }
-};
\ No newline at end of file
+    },
+
+    // Every normalized tick, whatever the venue, goes through here
+    handleTick: (tick: NormalizedTick) => {
+        // Sequence/trade-id tracking; duplicates (e.g. replayed last_match) stop here
+        if (!FeedHealthService.onTick(tick)) return;
+
+        // Feed price to AlertsService for price alerts (BTC format without USD)
+        AlertsService.getInstance().updatePrice(tick.baseTicker, tick.price);
+
+        // SILENCE: We removed the console.log pulse check to save CPU/Logs.
+
+        // Raw capture for replay (no-op unless RECORD_TICKS_DIR is set)
+        TickRecorderService.record(tick);
+
+        // Batched write - the buffer flushes on size/time thresholds
+        TickBufferService.enqueue(tick);
+
+        // Roll into OHLCV candles
+        CandleService.onTick(tick);
+
+        // Incremental force / leaderboard windows
+        LeaderboardStreamService.onTick(tick);
+
+        // Match resting paper orders (limit, stop, bracket legs)
+        PaperOrderService.onTick(tick);
+
+        // Fill orders resting on the mock exchange (LIVE_EXCHANGE=mock)
+        MockExchangeClient.onTick(tick);
+    },
+
+    getEnabledVenues
+};
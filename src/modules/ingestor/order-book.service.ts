@@ -0,0 +1,173 @@
+import { BookUpdate, Venue } from './exchange.adapter';
+
+// ORDER BOOK SERVICE
+// Level-2 books per venue/product, rebuilt from snapshot + incremental updates.
+// From the book we read the herd's resting intent: where the bids and asks are
+// stacked, how wide the spread is and how much size sits within 1% of mid.
+
+interface Book {
+    venue: Venue;
+    ticker: string;
+    productId: string;
+    bids: Map<number, number>;   // price -> size
+    asks: Map<number, number>;
+    updatedAt: number;
+}
+
+export interface OrderBookMetrics {
+    ticker: string;
+    venue: Venue;
+    bestBid: number;
+    bestAsk: number;
+    mid: number;
+    spread: number;
+    spreadBps: number;
+    bidDepth1Pct: number;        // Base units within 1% below mid
+    askDepth1Pct: number;        // Base units within 1% above mid
+    bidDepth1PctUsd: number;
+    askDepth1PctUsd: number;
+    imbalance: number;           // -1 (all asks) .. +1 (all bids), within 1% of mid
+    topImbalance: number;        // Same, best TOP_LEVELS levels only
+    levels: { bids: number; asks: number };
+    updatedAt: Date;
+}
+
+const TOP_LEVELS = 10;
+const DEPTH_BAND = 0.01;             // 1% of mid
+const STALE_AFTER_MS = 30 * 1000;    // A book we haven't heard from in 30s is not trusted
+
+// Key: `${venue}:${ticker}`
+const books: Map<string, Book> = new Map();
+
+const applyLevels = (side: Map<number, number>, levels: [number, number][]) => {
+    for (const [price, size] of levels) {
+        if (!Number.isFinite(price)) continue;
+        if (!size || size <= 0) side.delete(price);
+        else side.set(price, size);
+    }
+};
+
+// Drop everything past the best `depth` levels (best = highest bid / lowest ask).
+// Venues that send a fixed-depth book stop updating levels that fall out of it.
+const truncate = (side: Map<number, number>, depth: number, descending: boolean) => {
+    if (side.size <= depth) return;
+    const prices = Array.from(side.keys()).sort((a, b) => descending ? b - a : a - b);
+    for (const price of prices.slice(depth)) side.delete(price);
+};
+
+const imbalanceOf = (bid: number, ask: number): number =>
+    bid + ask > 0 ? (bid - ask) / (bid + ask) : 0;
+
+export const OrderBookService = {
+    apply: (update: BookUpdate) => {
+        const key = `${update.venue}:${update.ticker}`;
+        let book = books.get(key);
+
+        if (update.type === 'snapshot') {
+            book = {
+                venue: update.venue,
+                ticker: update.ticker,
+                productId: update.productId,
+                bids: new Map(),
+                asks: new Map(),
+                updatedAt: 0
+            };
+            books.set(key, book);
+        } else if (!book) {
+            // Updates before the first snapshot can't be trusted - wait for one
+            return;
+        }
+
+        applyLevels(book.bids, update.bids);
+        applyLevels(book.asks, update.asks);
+        if (update.depth) {
+            truncate(book.bids, update.depth, true);
+            truncate(book.asks, update.depth, false);
+        }
+        book.updatedAt = update.time.getTime();
+    },
+
+    // Books are rebuilt from a fresh snapshot after a reconnect
+    clearVenue: (venue: Venue) => {
+        for (const [key, book] of books) {
+            if (book.venue === venue) books.delete(key);
+        }
+    },
+
+    // Drop books for products no longer subscribed on a venue
+    retainProducts: (venue: Venue, productIds: string[]) => {
+        for (const [key, book] of books) {
+            if (book.venue === venue && !productIds.includes(book.productId)) books.delete(key);
+        }
+    },
+
+    computeMetrics: (book: Book): OrderBookMetrics | null => {
+        const bids = Array.from(book.bids.entries()).sort((a, b) => b[0] - a[0]);
+        const asks = Array.from(book.asks.entries()).sort((a, b) => a[0] - b[0]);
+        if (bids.length === 0 || asks.length === 0) return null;
+
+        const bestBid = bids[0][0];
+        const bestAsk = asks[0][0];
+        const mid = (bestBid + bestAsk) / 2;
+        const spread = bestAsk - bestBid;
+
+        let bidDepth = 0, askDepth = 0, bidDepthUsd = 0, askDepthUsd = 0;
+        for (const [price, size] of bids) {
+            if (price < mid * (1 - DEPTH_BAND)) break;
+            bidDepth += size;
+            bidDepthUsd += price * size;
+        }
+        for (const [price, size] of asks) {
+            if (price > mid * (1 + DEPTH_BAND)) break;
+            askDepth += size;
+            askDepthUsd += price * size;
+        }
+
+        const topBid = bids.slice(0, TOP_LEVELS).reduce((sum, [, size]) => sum + size, 0);
+        const topAsk = asks.slice(0, TOP_LEVELS).reduce((sum, [, size]) => sum + size, 0);
+
+        return {
+            ticker: book.ticker,
+            venue: book.venue,
+            bestBid,
+            bestAsk,
+            mid,
+            spread,
+            spreadBps: mid > 0 ? (spread / mid) * 10000 : 0,
+            bidDepth1Pct: bidDepth,
+            askDepth1Pct: askDepth,
+            bidDepth1PctUsd: bidDepthUsd,
+            askDepth1PctUsd: askDepthUsd,
+            imbalance: imbalanceOf(bidDepthUsd, askDepthUsd),
+            topImbalance: imbalanceOf(topBid, topAsk),
+            levels: { bids: bids.length, asks: asks.length },
+            updatedAt: new Date(book.updatedAt)
+        };
+    },
+
+    // Freshest book for a ticker (optionally pinned to one venue)
+    getMetrics: (ticker: string, venue?: Venue): OrderBookMetrics | null => {
+        const symbol = ticker.toUpperCase().replace('-', '');
+        const normalized = symbol.endsWith('USD') ? symbol : `${symbol}USD`;
+        const now = Date.now();
+
+        let freshest: Book | null = null;
+        for (const book of books.values()) {
+            if (book.ticker !== normalized) continue;
+            if (venue && book.venue !== venue) continue;
+            if (now - book.updatedAt > STALE_AFTER_MS) continue;
+            if (!freshest || book.updatedAt > freshest.updatedAt) freshest = book;
+        }
+
+        return freshest ? OrderBookService.computeMetrics(freshest) : null;
+    },
+
+    getAllMetrics: (): OrderBookMetrics[] => {
+        const now = Date.now();
+        return Array.from(books.values())
+            .filter(book => now - book.updatedAt <= STALE_AFTER_MS)
+            .map(book => OrderBookService.computeMetrics(book))
+            .filter((m): m is OrderBookMetrics => m !== null)
+            .sort((a, b) => Math.abs(b.imbalance) - Math.abs(a.imbalance));
+    }
+};
@@ -0,0 +1,146 @@
+import { MarketDataModel } from '../market/market-data.model';
+import { NormalizedTick } from './exchange.adapter';
+
+// TICK WRITE BUFFER
+// Ticks are queued in memory and written as one multi-row INSERT per flush
+// instead of one INSERT per websocket message. If the database is down the
+// queue keeps growing up to MAX_BACKLOG rows, then the oldest ticks are dropped.
+// The batch being written is out of the queue while it's in flight (trimming
+// can't shift it), and goes back to the front if the write has to be retried.
+
+const MAX_BATCH_SIZE = 500;        // Rows per INSERT
+const FLUSH_INTERVAL_MS = 1000;    // Flush at least once a second
+const MAX_BACKLOG = 50_000;        // ~a few minutes of all venues during an outage
+
+interface TickBufferStats {
+    backlogDepth: number;      // Rows waiting to be written
+    rowsWritten: number;
+    droppedRows: number;       // Evicted because the backlog was full
+    failedRows: number;        // Rejected by the database (bad data, not an outage)
+    failedFlushes: number;
+    consecutiveFailures: number;
+    lastFlushMs: number;       // Latency of the last successful flush
+    avgFlushMs: number;
+    lastFlushAt: string | null;
+    lastError: string | null;
+}
+
+let backlog: NormalizedTick[] = [];
+let flushing = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+const stats: TickBufferStats = {
+    backlogDepth: 0,
+    rowsWritten: 0,
+    droppedRows: 0,
+    failedRows: 0,
+    failedFlushes: 0,
+    consecutiveFailures: 0,
+    lastFlushMs: 0,
+    avgFlushMs: 0,
+    lastFlushAt: null,
+    lastError: null
+};
+
+// Connection-level failures are worth retrying; anything else means the rows are bad
+const isTransientError = (err: any): boolean => {
+    const code: string = err?.code || '';
+    return code.startsWith('08') ||     // connection_exception
+        code.startsWith('57P') ||       // admin shutdown / cannot connect now
+        code === '53300' ||             // too_many_connections
+        ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE'].includes(code) ||
+        /timeout|terminated|Connection/i.test(err?.message || '');
+};
+
+export const TickBufferService = {
+    start: () => {
+        if (flushTimer) return;
+        flushTimer = setInterval(() => {
+            TickBufferService.flush().catch(() => {});
+        }, FLUSH_INTERVAL_MS);
+    },
+
+    stop: async () => {
+        if (flushTimer) {
+            clearInterval(flushTimer);
+            flushTimer = null;
+        }
+        await TickBufferService.flush();
+    },
+
+    enqueue: (tick: NormalizedTick) => {
+        backlog.push(tick);
+        TickBufferService.trim();
+
+        if (backlog.length >= MAX_BATCH_SIZE && !flushing) {
+            TickBufferService.flush().catch(() => {});
+        }
+    },
+
+    // Bounded: shed the oldest ticks rather than run out of memory
+    trim: () => {
+        if (backlog.length > MAX_BACKLOG) {
+            const overflow = backlog.length - MAX_BACKLOG;
+            backlog.splice(0, overflow);
+            stats.droppedRows += overflow;
+        }
+        stats.backlogDepth = backlog.length;
+    },
+
+    // Write everything queued, one batch at a time
+    flush: async () => {
+        if (flushing) return;
+        flushing = true;
+
+        try {
+            while (backlog.length > 0) {
+                const batch = backlog.splice(0, MAX_BATCH_SIZE);
+                const ok = await TickBufferService.writeBatch(batch);
+                if (!ok) {
+                    // Database unavailable - back to the front for next time
+                    backlog = batch.concat(backlog);
+                    TickBufferService.trim();
+                    break;
+                }
+            }
+        } finally {
+            stats.backlogDepth = backlog.length;
+            flushing = false;
+        }
+    },
+
+    // Returns false only if the batch should be retried later
+    writeBatch: async (batch: NormalizedTick[]): Promise<boolean> => {
+        const start = Date.now();
+
+        try {
+            await MarketDataModel.insertTrades(batch);
+
+            const elapsed = Date.now() - start;
+            stats.rowsWritten += batch.length;
+            stats.lastFlushMs = elapsed;
+            stats.avgFlushMs = stats.avgFlushMs === 0 ? elapsed : Math.round(stats.avgFlushMs * 0.9 + elapsed * 0.1);
+            stats.lastFlushAt = new Date().toISOString();
+            stats.consecutiveFailures = 0;
+            return true;
+        } catch (err: any) {
+            stats.failedFlushes++;
+            stats.consecutiveFailures++;
+            stats.lastError = err?.message || String(err);
+
+            if (isTransientError(err)) {
+                if (stats.consecutiveFailures === 1) {
+                    console.error(`[TickBuffer] ⚠️ Database unavailable, holding ${backlog.length + batch.length} ticks:`, stats.lastError);
+                }
+                return false;
+            }
+
+            // Bad rows: discard this batch so it can't block the queue forever
+            stats.failedRows += batch.length;
+            console.error(`[TickBuffer] 💀 Dropped batch of ${batch.length} ticks:`, stats.lastError);
+            return true;
+        }
+    },
+
+    getStats: (): TickBufferStats => ({ ...stats, backlogDepth: backlog.length })
+};
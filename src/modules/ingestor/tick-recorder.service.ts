@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { NormalizedTick } from './exchange.adapter';
+
+// TICK RECORDER
+// Writes every normalized tick to newline-delimited JSON, one file per UTC day
+// (ticks-2026-01-31.ndjson). The files are the input for TickReplayService:
+// capture a hijack live, reproduce it offline.
+
+let recordDir: string | null = null;
+let stream: fs.WriteStream | null = null;
+let currentDay: string | null = null;
+let recorded = 0;
+
+const openStream = (day: string) => {
+    if (stream) stream.end();
+    const file = path.join(recordDir as string, `ticks-${day}.ndjson`);
+    stream = fs.createWriteStream(file, { flags: 'a' });
+    stream.on('error', (err) => {
+        console.error('[Recorder] ❌ Write failed, recording stopped:', err.message);
+        TickRecorderService.stop();
+    });
+    currentDay = day;
+    console.log(`[Recorder] 🔴 Recording ticks to ${file}`);
+};
+
+export const TickRecorderService = {
+    start: (dir: string) => {
+        fs.mkdirSync(dir, { recursive: true });
+        recordDir = dir;
+    },
+
+    stop: () => {
+        if (stream) stream.end();
+        stream = null;
+        recordDir = null;
+        currentDay = null;
+    },
+
+    isRecording: () => recordDir !== null,
+
+    record: (tick: NormalizedTick) => {
+        if (!recordDir) return;
+
+        const day = tick.time.toISOString().slice(0, 10);
+        if (day !== currentDay) openStream(day);
+
+        stream?.write(JSON.stringify(tick) + '\n');
+        recorded++;
+    },
+
+    getStats: () => ({
+        recording: recordDir !== null,
+        dir: recordDir,
+        day: currentDay,
+        recorded
+    })
+};
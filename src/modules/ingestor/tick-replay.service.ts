@@ -0,0 +1,101 @@
+import fs from 'fs';
+import readline from 'readline';
+import { NormalizedTick } from './exchange.adapter';
+
+// TICK REPLAY
+// Streams a recorded NDJSON file back through the live pipeline, so DB writes,
+// price alerts, candles and the leaderboard all see it as if it came off the wire.
+//   speed 1  -> original pacing
+//   speed N  -> N times faster
+//   'max'    -> as fast as the pipeline takes it
+// Ticks keep their recorded timestamps, so the same file always produces the
+// same candles, forces and signals. Turn `retime` on to shift every tick so the
+// recording starts now, for views that read a NOW()-relative window. The
+// recorded spacing is kept, so at speed N the stamps run ahead of the wall
+// clock rather than bunching up into the same second.
+
+export type ReplaySpeed = number | 'max';
+
+export interface ReplayOptions {
+    file: string;
+    speed: ReplaySpeed;
+    retime: boolean;
+    onTick: (tick: NormalizedTick) => void;
+}
+
+export interface ReplayResult {
+    file: string;
+    ticks: number;
+    skipped: number;
+    durationMs: number;
+    firstTickAt: Date | null;
+    lastTickAt: Date | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const TickReplayService = {
+    // REPLAY_SPEED=10 or REPLAY_SPEED=max (default 1x)
+    parseSpeed: (raw?: string): ReplaySpeed => {
+        if (!raw) return 1;
+        if (raw.trim().toLowerCase() === 'max') return 'max';
+        const speed = Number(raw);
+        return Number.isFinite(speed) && speed > 0 ? speed : 1;
+    },
+
+    parseLine: (line: string): NormalizedTick | null => {
+        if (!line.trim()) return null;
+        try {
+            const raw = JSON.parse(line);
+            const time = new Date(raw.time);
+            if (!raw.ticker || !Number.isFinite(raw.price) || isNaN(time.getTime())) return null;
+            return { ...raw, time };
+        } catch (e) {
+            return null;
+        }
+    },
+
+    replay: async (options: ReplayOptions): Promise<ReplayResult> => {
+        const { file, speed, retime, onTick } = options;
+        const startedAt = Date.now();
+        let ticks = 0;
+        let skipped = 0;
+        let firstTickAt: Date | null = null;
+        let lastTickAt: Date | null = null;
+
+        console.log(`[Replay] ▶️ Replaying ${file} at ${speed === 'max' ? 'max speed' : `${speed}x`}...`);
+
+        const lines = readline.createInterface({
+            input: fs.createReadStream(file),
+            crlfDelay: Infinity
+        });
+
+        for await (const line of lines) {
+            const tick = TickReplayService.parseLine(line);
+            if (!tick) {
+                if (line.trim()) skipped++;
+                continue;
+            }
+
+            if (!firstTickAt) firstTickAt = tick.time;
+            lastTickAt = tick.time;
+
+            // Hold each tick until its (scaled) offset from the first one
+            if (speed !== 'max') {
+                const due = (tick.time.getTime() - firstTickAt.getTime()) / speed;
+                const wait = due - (Date.now() - startedAt);
+                if (wait > 0) await sleep(wait);
+            }
+
+            onTick(retime ? { ...tick, time: new Date(tick.time.getTime() - firstTickAt.getTime() + startedAt) } : tick);
+            ticks++;
+
+            // Let the event loop breathe (buffer flushes, HTTP) at max speed
+            if (speed === 'max' && ticks % 1000 === 0) await sleep(0);
+        }
+
+        const result = { file, ticks, skipped, durationMs: Date.now() - startedAt, firstTickAt, lastTickAt };
+        console.log(`[Replay] ⏹️ Done: ${ticks} ticks in ${(result.durationMs / 1000).toFixed(1)}s (${skipped} unreadable lines skipped)`);
+        return result;
+    }
+};
@@ -0,0 +1,207 @@
+import { query } from '../../shared/db';
+import { NormalizedTick } from '../ingestor/exchange.adapter';
+
+// MARKET DATA MODEL
+// The one place that reads and writes raw trades (market_trades).
+// Prices used to live in sentiment_metrics.sentiment_score and every caller
+// aliased it back to `price`; sentiment_metrics now only holds real
+// news/social sentiment (see SentimentModel).
+
+export interface MarketTrade {
+    ticker: string;
+    venue: string;
+    price: number;
+    size: number;
+    side: 'buy' | 'sell' | null;
+    tradeId: string | null;
+    time: Date;
+}
+
+const toTrade = (row: any): MarketTrade => ({
+    ticker: row.ticker,
+    venue: row.venue,
+    price: Number(row.price),
+    size: Number(row.size),
+    side: row.side || null,
+    tradeId: row.trade_id || null,
+    time: new Date(row.time)
+});
+
+const TRADE_COLUMNS = 'ticker, venue, price, size, side, trade_id, time';
+
+export const MarketDataModel = {
+    // 1. WRITE: One statement per batch, no matter the size.
+    // Trades we already have (same venue + trade id) are skipped.
+    insertTrades: async (batch: NormalizedTick[]) => {
+        await query(`
+            INSERT INTO market_trades (ticker, venue, price, size, side, trade_id, time)
+            SELECT * FROM UNNEST($1::text[], $2::text[], $3::numeric[], $4::numeric[], $5::text[], $6::text[], $7::timestamptz[])
+            ON CONFLICT (venue, ticker, trade_id) WHERE trade_id IS NOT NULL DO NOTHING
+        `, [
+            batch.map(t => t.ticker),
+            batch.map(t => t.venue),
+            batch.map(t => t.price),
+            batch.map(t => t.size),
+            batch.map(t => t.side || null),
+            batch.map(t => t.tradeId || null),
+            batch.map(t => t.time.toISOString())
+        ]);
+    },
+
+    // 2. Last N trades for one asset, oldest first
+    getRecentTrades: async (ticker: string, limit: number = 100): Promise<MarketTrade[]> => {
+        const result = await query(`
+            SELECT ${TRADE_COLUMNS}
+            FROM market_trades
+            WHERE ticker = $1
+            ORDER BY time DESC
+            LIMIT $2
+        `, [ticker, limit]);
+
+        return result.rows.map(toTrade).reverse();
+    },
+
+    // 3. Every trade in the last few minutes, all assets (the leaderboard window).
+    // Pass a venue to look at one exchange only; otherwise venues are merged.
+    getMarketWindow: async (venue?: string, minutes: number = 3): Promise<MarketTrade[]> => {
+        const result = await query(`
+            SELECT ${TRADE_COLUMNS}
+            FROM market_trades
+            WHERE time >= NOW() - make_interval(mins => $2)
+              AND ($1::text IS NULL OR venue = $1)
+            ORDER BY time ASC
+        `, [venue || null, minutes]);
+
+        return result.rows.map(toTrade);
+    },
+
+    // 4. One asset's trades over a trailing window, oldest first (optionally capped to the newest N)
+    getTradesSince: async (ticker: string, minutes: number, limit?: number): Promise<MarketTrade[]> => {
+        const result = await query(`
+            SELECT ${TRADE_COLUMNS}
+            FROM market_trades
+            WHERE ticker = $1 AND time >= NOW() - make_interval(mins => $2)
+            ORDER BY time DESC
+            ${limit ? 'LIMIT $3' : ''}
+        `, limit ? [ticker, minutes, limit] : [ticker, minutes]);
+
+        return result.rows.map(toTrade).reverse();
+    },
+
+    // 5. Historical range for backtests
+    getTradesBetween: async (startDate: Date, endDate: Date, tickers?: string[], venues?: string[]): Promise<MarketTrade[]> => {
+        let sql = `
+            SELECT ${TRADE_COLUMNS}
+            FROM market_trades
+            WHERE time >= $1 AND time <= $2
+        `;
+        const params: any[] = [startDate.toISOString(), endDate.toISOString()];
+
+        if (tickers && tickers.length > 0) {
+            params.push(tickers);
+            sql += ` AND ticker = ANY($${params.length})`;
+        }
+
+        if (venues && venues.length > 0) {
+            params.push(venues);
+            sql += ` AND venue = ANY($${params.length})`;
+        }
+
+        sql += ` ORDER BY time ASC`;
+
+        const result = await query(sql, params);
+        return result.rows.map(toTrade);
+    },
+
+    // 6. Latest traded price (0 if we've never seen the asset)
+    getLatestPrice: async (ticker: string): Promise<number> => {
+        const result = await query(`
+            SELECT price FROM market_trades
+            WHERE ticker = $1
+            ORDER BY time DESC
+            LIMIT 1
+        `, [ticker]);
+
+        return result.rows.length > 0 ? Number(result.rows[0].price) : 0;
+    },
+
+    // 7. Assets that traded in the last N minutes
+    getActiveTickers: async (minutes: number): Promise<string[]> => {
+        const result = await query(`
+            SELECT DISTINCT ticker FROM market_trades
+            WHERE time >= NOW() - make_interval(mins => $1)
+        `, [minutes]);
+
+        return result.rows.map((r: any) => r.ticker);
+    },
+
+    // 8. Most traded assets (by trade count) over the last N hours
+    getMostTradedTickers: async (hours: number, limit: number = 10): Promise<string[]> => {
+        const result = await query(`
+            SELECT ticker, COUNT(*) AS cnt
+            FROM market_trades
+            WHERE time >= NOW() - make_interval(hours => $1)
+            GROUP BY ticker
+            ORDER BY cnt DESC
+            LIMIT $2
+        `, [hours, limit]);
+
+        return result.rows.map((r: any) => r.ticker);
+    },
+
+    // 9. Volume per asset over the last N minutes (heatmap)
+    getVolumeByTicker: async (minutes: number, limit: number = 10): Promise<{ ticker: string; total_vol: number }[]> => {
+        const result = await query(`
+            SELECT ticker, SUM(size) AS total_vol
+            FROM market_trades
+            WHERE time >= NOW() - make_interval(mins => $1)
+            GROUP BY ticker
+            ORDER BY total_vol DESC
+            LIMIT $2
+        `, [minutes, limit]);
+
+        return result.rows.map((r: any) => ({ ticker: r.ticker, total_vol: Number(r.total_vol) }));
+    },
+
+    // 10. Raw trades for CSV export, newest first
+    getTradesForExport: async (hours: number): Promise<MarketTrade[]> => {
+        const result = await query(`
+            SELECT ${TRADE_COLUMNS}
+            FROM market_trades
+            WHERE time >= NOW() - make_interval(hours => $1)
+            ORDER BY time DESC
+        `, [hours]);
+
+        return result.rows.map(toTrade);
+    },
+
+    // 11. Roll closed buckets of raw trades into the candles table.
+    // Raw trades are the source of truth, so existing candles are overwritten.
+    rollupCandles: async (timeframe: string, bucketSeconds: number, lookback: string, before: Date): Promise<number> => {
+        const result = await query(`
+            INSERT INTO candles (ticker, timeframe, bucket_start, open, high, low, close, volume, trade_count)
+            SELECT
+                ticker,
+                $1,
+                to_timestamp(floor(extract(epoch FROM time) / $2) * $2) AS bucket,
+                (array_agg(price ORDER BY time ASC))[1],
+                MAX(price),
+                MIN(price),
+                (array_agg(price ORDER BY time DESC))[1],
+                SUM(size),
+                COUNT(*)
+            FROM market_trades
+            WHERE time >= NOW() - $3::interval AND time < $4
+            GROUP BY ticker, bucket
+            ON CONFLICT (ticker, timeframe, bucket_start) DO UPDATE SET
+                open = EXCLUDED.open,
+                high = EXCLUDED.high,
+                low = EXCLUDED.low,
+                close = EXCLUDED.close,
+                volume = EXCLUDED.volume,
+                trade_count = EXCLUDED.trade_count
+        `, [timeframe, bucketSeconds, lookback, before.toISOString()]);
+
+        return result.rowCount || 0;
+    }
+};
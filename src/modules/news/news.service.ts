@@ -1,4 +1,6 @@
 import Parser from 'rss-parser';
+import { SentimentModel, SentimentRow } from '../sentiment/sentiment.model';
+import { AssetRegistryService } from '../assets/asset-registry.service';
 
 const parser = new Parser();
 
@@ -15,29 +17,6 @@ const PANIC_WORDS = [
     'bearish', 'tank', 'drop', 'fall', 'lose', 'warning', 'risk'
 ];
 
-// Asset keyword mapping (detect which coin the article is about)
-const ASSET_KEYWORDS: Record<string, string[]> = {
-    'BTC': ['bitcoin', 'btc'],
-    'ETH': ['ethereum', 'eth', 'ether'],
-    'SOL': ['solana', 'sol'],
-    'DOGE': ['dogecoin', 'doge'],
-    'PEPE': ['pepe'],
-    'XRP': ['xrp', 'ripple'],
-    'ADA': ['cardano', 'ada'],
-    'AVAX': ['avalanche', 'avax'],
-    'LINK': ['chainlink', 'link'],
-    'DOT': ['polkadot', 'dot'],
-    'SHIB': ['shiba', 'shib'],
-    'LTC': ['litecoin', 'ltc'],
-    'BCH': ['bitcoin cash', 'bch'],
-    'MATIC': ['polygon', 'matic'],
-    'UNI': ['uniswap', 'uni'],
-    'ARB': ['arbitrum', 'arb'],
-    'OP': ['optimism'],
-    'SUI': ['sui'],
-    'APT': ['aptos', 'apt']
-};
-
 // Memory Cache (To avoid hitting feeds too often)
 interface NarrativeData {
     score: number;
@@ -64,7 +43,12 @@ export const NewsService = {
             'https://decrypt.co/feed'
         ];
 
+        // Asset keyword mapping (detect which coin the article is about)
+        const assetKeywords = AssetRegistryService.getNewsKeywords();
+
         let articlesProcessed = 0;
+        // Per-asset tally of this scan's recent articles (persisted below)
+        const scanScores: Record<string, { total: number; count: number }> = {};
 
         for (const url of feeds) {
             try {
@@ -77,7 +61,7 @@ export const NewsService = {
 
                     // 1. Detect Asset
                     let detectedTicker = '';
-                    for (const [ticker, keywords] of Object.entries(ASSET_KEYWORDS)) {
+                    for (const [ticker, keywords] of Object.entries(assetKeywords)) {
                         for (const keyword of keywords) {
                             if (fullText.includes(keyword)) {
                                 detectedTicker = ticker;
@@ -103,6 +87,10 @@ export const NewsService = {
                     const ageInHours = (Date.now() - pubDate.getTime()) / (1000 * 60 * 60);
 
                     if (ageInHours < 2) {
+                        if (!scanScores[detectedTicker]) scanScores[detectedTicker] = { total: 0, count: 0 };
+                        scanScores[detectedTicker].total += score;
+                        scanScores[detectedTicker].count++;
+
                         // Only update if this is more recent or has stronger signal
                         const existing = narrativeCache[detectedTicker];
                         if (!existing || pubDate > existing.timestamp || Math.abs(score) > Math.abs(existing.score)) {
@@ -122,6 +110,17 @@ export const NewsService = {
         }
         
         console.log(`[News] ✅ Scan complete. ${articlesProcessed} relevant articles cached.`);
+
+        // Persist average headline sentiment per asset
+        const rows: SentimentRow[] = Object.entries(scanScores).map(([ticker, tally]) => ({
+            ticker: `${ticker}USD`,
+            score: tally.total / tally.count,
+            volume: tally.count,
+            source: 'news'
+        }));
+        SentimentModel.insertScores(rows).catch(err =>
+            console.error('[News] ⚠️ Failed to store sentiment:', err?.message || err)
+        );
     },
 
     // Public getter for the Controller
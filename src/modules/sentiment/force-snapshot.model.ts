@@ -0,0 +1,67 @@
+import { query } from '../../shared/db';
+
+// force_snapshots: one row per ticker per timeframe per MTF job run
+
+export type Trend = 'UP' | 'DOWN' | 'FLAT';
+
+export interface ForceSnapshot {
+    ticker: string;           // Storage format: BTCUSD
+    timeframe: string;        // '1m', '5m', '15m', '1h'
+    force: number;
+    trend: Trend;
+    price: number;
+    volume: number;           // Average trade size over the timeframe's window
+    time: Date;
+}
+
+export const ForceSnapshotModel = {
+    // 1. Record a job run in one statement
+    insertSnapshots: async (rows: Omit<ForceSnapshot, 'time'>[]) => {
+        if (rows.length === 0) return;
+
+        await query(`
+            INSERT INTO force_snapshots (ticker, timeframe, hijack_force, trend, price, volume, recorded_at)
+            SELECT tk, tf, f, tr, p, v, NOW()
+            FROM UNNEST($1::text[], $2::text[], $3::float8[], $4::text[], $5::numeric[], $6::numeric[])
+                AS x(tk, tf, f, tr, p, v)
+        `, [
+            rows.map(r => r.ticker),
+            rows.map(r => r.timeframe),
+            rows.map(r => r.force),
+            rows.map(r => r.trend),
+            rows.map(r => r.price),
+            rows.map(r => r.volume)
+        ]);
+    },
+
+    // 2. One ticker's series, oldest first (optionally a single timeframe)
+    getHistory: async (ticker: string, hours: number = 24, timeframe?: string): Promise<ForceSnapshot[]> => {
+        const result = await query(`
+            SELECT ticker, timeframe, hijack_force, trend, price, volume, recorded_at
+            FROM force_snapshots
+            WHERE ticker = $1
+              AND recorded_at >= NOW() - make_interval(hours => $2)
+              AND ($3::text IS NULL OR timeframe = $3)
+            ORDER BY recorded_at ASC
+        `, [ticker, hours, timeframe || null]);
+
+        return result.rows.map(row => ({
+            ticker: row.ticker,
+            timeframe: row.timeframe,
+            force: Number(row.hijack_force),
+            trend: (row.trend || 'FLAT') as Trend,
+            price: Number(row.price),
+            volume: Number(row.volume),
+            time: new Date(row.recorded_at)
+        }));
+    },
+
+    // 3. Retention
+    deleteOlderThan: async (days: number): Promise<number> => {
+        const result = await query(
+            `DELETE FROM force_snapshots WHERE recorded_at < NOW() - make_interval(days => $1)`,
+            [days]
+        );
+        return result.rowCount || 0;
+    }
+};
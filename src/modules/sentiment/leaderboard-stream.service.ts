@@ -0,0 +1,349 @@
+import { MarketDataModel } from '../market/market-data.model';
+import { NormalizedTick } from '../ingestor/exchange.adapter';
+import { TelegramService } from '../notifications/telegram.service';
+import { PaperService } from '../execution/paper.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { ForceNormalizerService, ForceThresholds } from '../analytics/force-normalizer.service';
+import { ConfigService } from '../../shared/config.service';
+import { DEFAULT_MIN_SPACING_SECONDS, SpacedPoint, secondDerivative } from '../../shared/finite-difference.util';
+import { PriceFilter, SmoothingState, smoothStep } from '../../shared/signal-filters.util';
+
+// LEADERBOARD STREAM
+// The Panopticon, computed as ticks arrive instead of per request. Each ticker
+// keeps a rolling 3-minute window of burst-merged points (see
+// finite-difference.util); every tick updates the smoothed price (the filter
+// picked in ConfigService), acceleration, force and the running log-return
+// moments in O(1). On a fixed cadence the windows are
+// scored, ranked and published: WebSocket push, Telegram alerts and the paper
+// sniper all hang off that cadence. Reading the leaderboard is just returning
+// the last published snapshot.
+// Windows age against the wall clock, except under replay (REPLAY_FILE),
+// where the clock is the newest tick's time: recorded timestamps and sped-up
+// replays slide the window exactly as the original session did.
+
+export interface LeaderboardEntry {
+    ticker: string;
+    hijackForce: number;        // Raw: |S''| * log10(volume)
+    normalizedForce: number;    // z-score vs. the asset's own history
+    thresholds: ForceThresholds;
+    warmingUp: boolean;
+    latestPrice: number;
+    isHijacking: boolean;
+    venues: string[];
+}
+
+interface WindowPoint extends SpacedPoint {
+    ticks: number;              // Raw ticks merged into this point
+    logReturn: number | null;   // From the previous point (null for the oldest)
+    smoothed: SmoothingState;   // Filter output at this point
+}
+
+interface StreamWindow {
+    ticker: string;
+    points: WindowPoint[];      // Oldest first, >= DEFAULT_MIN_SPACING_SECONDS apart
+    tickCount: number;
+    sumReturns: number;
+    sumSquaredReturns: number;
+    returnCount: number;
+    acceleration: number;
+    hijackForce: number;
+    latestPrice: number;
+    latestVolume: number;
+    venues: Map<string, number>; // venue -> last tick (seconds)
+    committedT: number;          // Newest point's time when force history last took an observation
+}
+
+const WINDOW_SECONDS = 3 * 60;
+const MIN_TICKS = 3;
+const PUSH_INTERVAL_MS = Number(process.env.LEADERBOARD_PUSH_MS) || 2000;
+const REPLAYING = !!process.env.REPLAY_FILE;
+
+// Key: ticker (all venues merged) or `${venue}:${ticker}`
+const windows: Map<string, StreamWindow> = new Map();
+
+let leaderboard: LeaderboardEntry[] = [];
+let venueLeaderboards: Map<string, LeaderboardEntry[]> = new Map();
+let publishedAt: Date | null = null;
+let publishTimer: NodeJS.Timeout | null = null;
+let sniperBusy = false;
+let activeFilter: PriceFilter = ConfigService.getPriceFilter();
+let newestTickT = -Infinity;    // Seconds; the window clock under replay
+
+const createWindow = (ticker: string): StreamWindow => ({
+    ticker,
+    points: [],
+    tickCount: 0,
+    sumReturns: 0,
+    sumSquaredReturns: 0,
+    returnCount: 0,
+    acceleration: 0,
+    hijackForce: 0,
+    latestPrice: 0,
+    latestVolume: 0,
+    venues: new Map(),
+    committedT: -Infinity
+});
+
+const addReturn = (w: StreamWindow, r: number | null, sign: 1 | -1) => {
+    if (r === null) return;
+    w.sumReturns += sign * r;
+    w.sumSquaredReturns += sign * r * r;
+    w.returnCount += sign;
+};
+
+const logReturn = (from: number, to: number): number | null =>
+    from > 0 && to > 0 ? Math.log(to / from) : null;
+
+const smoothAt = (w: StreamWindow, index: number): SmoothingState =>
+    smoothStep(activeFilter, index > 0 ? w.points[index - 1].smoothed : null, w.points, index);
+
+// S'' from the newest three smoothed points
+const updateAcceleration = (w: StreamWindow) => {
+    const n = w.points.length;
+    const at = (i: number): SpacedPoint => ({ value: w.points[i].smoothed.value, t: w.points[i].t });
+    w.acceleration = n >= 3 ? secondDerivative(at(n - 3), at(n - 2), at(n - 1)) ?? 0 : 0;
+
+    const safeVolume = w.latestVolume > 1 ? Math.log10(w.latestVolume) : 0;
+    w.hijackForce = Math.abs(w.acceleration) * safeVolume;
+};
+
+// Filter changed at runtime: re-smooth every window from its raw points
+const resmooth = () => {
+    for (const w of windows.values()) {
+        for (let i = 0; i < w.points.length; i++) w.points[i].smoothed = smoothAt(w, i);
+        updateAcceleration(w);
+    }
+};
+
+const ingest = (key: string, ticker: string, venue: string, price: number, size: number, time: Date) => {
+    const t = time.getTime() / 1000;
+    if (!Number.isFinite(t) || !Number.isFinite(price)) return;
+    if (t > newestTickT) newestTickT = t;
+
+    let w = windows.get(key);
+    if (!w) {
+        w = createWindow(ticker);
+        windows.set(key, w);
+    }
+
+    // Older than the newest point (late venue, out-of-order delivery): it would
+    // overwrite a newer price, so it's dropped
+    const last = w.points[w.points.length - 1];
+    if (last && t < last.t) return;
+
+    if (last && t - last.t < DEFAULT_MIN_SPACING_SECONDS) {
+        // Same burst: the point keeps its time and takes the newest price
+        addReturn(w, last.logReturn, -1);
+        last.value = price;
+        last.ticks++;
+        last.logReturn = w.points.length > 1 ? logReturn(w.points[w.points.length - 2].value, price) : null;
+        addReturn(w, last.logReturn, 1);
+    } else {
+        const point: WindowPoint = {
+            value: price,
+            t,
+            ticks: 1,
+            logReturn: last ? logReturn(last.value, price) : null,
+            smoothed: { value: price, variance: 0, t }
+        };
+        w.points.push(point);
+        addReturn(w, point.logReturn, 1);
+    }
+
+    const newest = w.points.length - 1;
+    w.points[newest].smoothed = smoothAt(w, newest);
+
+    w.tickCount++;
+    w.latestPrice = price;
+    w.latestVolume = size;
+    w.venues.set(venue, t);
+
+    // Only the newest three points move S''
+    updateAcceleration(w);
+};
+
+// Drop points older than the window; returns false once the window is empty
+const evict = (w: StreamWindow, nowSeconds: number): boolean => {
+    const cutoff = nowSeconds - WINDOW_SECONDS;
+
+    while (w.points.length > 0 && w.points[0].t < cutoff) {
+        const oldest = w.points.shift()!;
+        w.tickCount -= oldest.ticks;
+
+        // The new oldest point no longer has a predecessor in the window
+        const head = w.points[0];
+        if (head) {
+            addReturn(w, head.logReturn, -1);
+            head.logReturn = null;
+        }
+    }
+
+    for (const [venue, seen] of w.venues) {
+        if (seen < cutoff) w.venues.delete(venue);
+    }
+
+    if (w.points.length === 0) return false;
+
+    if (w.points.length < 3) {
+        w.acceleration = 0;
+        w.hijackForce = 0;
+    }
+    return true;
+};
+
+const volatilityOf = (w: StreamWindow): number => {
+    if (w.returnCount < 2) return 0;
+    const mean = w.sumReturns / w.returnCount;
+    return Math.sqrt(Math.max(0, w.sumSquaredReturns / w.returnCount - mean * mean));
+};
+
+const score = (w: StreamWindow, commit: boolean): LeaderboardEntry => {
+    const normalized = ForceNormalizerService.evaluate(w.ticker, {
+        acceleration: w.acceleration,
+        volume: w.latestVolume,
+        price: w.latestPrice,
+        volatility: volatilityOf(w)
+    }, commit);
+
+    // THRESHOLD: raw > 0.05, or N sigma above the asset's norm
+    const isHijacking = ConfigService.getForceMode() === 'normalized'
+        ? !normalized.warmingUp && normalized.normalizedForce >= ConfigService.getEntryZScore()
+        : w.hijackForce > 0.05;
+
+    return {
+        ticker: w.ticker,
+        hijackForce: w.hijackForce,
+        normalizedForce: normalized.normalizedForce,
+        thresholds: normalized.thresholds,
+        warmingUp: normalized.warmingUp,
+        latestPrice: w.latestPrice,
+        isHijacking,
+        venues: Array.from(w.venues.keys())
+    };
+};
+
+// Normalized mode ranks by z-score so BTC doesn't win on price alone
+const rank = (entries: LeaderboardEntry[]) => {
+    if (ConfigService.getForceMode() === 'normalized') {
+        entries.sort((a, b) => (b.normalizedForce - a.normalizedForce) || (b.hijackForce - a.hijackForce));
+    } else {
+        entries.sort((a, b) => b.hijackForce - a.hijackForce);
+    }
+    return entries;
+};
+
+export const LeaderboardStreamService = {
+    // Seed the windows from the last few minutes in the DB, then publish on a
+    // cadence. A replay brings its own history: seeding newer DB rows would
+    // make every replayed tick look out of order.
+    start: async () => {
+        if (publishTimer) return;
+
+        if (!REPLAYING) {
+            try {
+                const trades = await MarketDataModel.getMarketWindow(undefined, WINDOW_SECONDS / 60);
+                for (const trade of trades) {
+                    ingest(trade.ticker, trade.ticker, trade.venue, trade.price, trade.size, trade.time);
+                    ingest(`${trade.venue}:${trade.ticker}`, trade.ticker, trade.venue, trade.price, trade.size, trade.time);
+                }
+                console.log(`[Leaderboard] 🌱 Seeded ${trades.length} trades`);
+            } catch (err: any) {
+                console.error('[Leaderboard] ⚠️ Seed failed, starting empty:', err?.message || err);
+            }
+        }
+
+        publishTimer = setInterval(() => LeaderboardStreamService.publish(), PUSH_INTERVAL_MS);
+        console.log(`[Leaderboard] 📡 Streaming every ${PUSH_INTERVAL_MS}ms`);
+    },
+
+    stop: () => {
+        if (publishTimer) clearInterval(publishTimer);
+        publishTimer = null;
+    },
+
+    // Called by the ingestor for every accepted tick
+    onTick: (tick: NormalizedTick) => {
+        ingest(tick.ticker, tick.ticker, tick.venue, tick.price, tick.size, tick.time);
+        ingest(`${tick.venue}:${tick.ticker}`, tick.ticker, tick.venue, tick.price, tick.size, tick.time);
+    },
+
+    // Score every window, cache the snapshot and fire the side effects
+    publish: () => {
+        if (ConfigService.getPriceFilter() !== activeFilter) {
+            activeFilter = ConfigService.getPriceFilter();
+            resmooth();
+            console.log(`[Leaderboard] 🎚️ Price filter: ${activeFilter}`);
+        }
+
+        const now = REPLAYING ? newestTickT : Date.now() / 1000;
+        const merged: LeaderboardEntry[] = [];
+        const byVenue: Map<string, LeaderboardEntry[]> = new Map();
+
+        for (const [key, w] of windows) {
+            if (!evict(w, now)) {
+                windows.delete(key);
+                continue;
+            }
+            if (w.tickCount < MIN_TICKS) continue;
+
+            const separator = key.indexOf(':');
+            if (separator === -1) {
+                // One observation per new point: re-scoring a quiet window
+                // mustn't count the same force into the asset's history again
+                const newestT = w.points[w.points.length - 1].t;
+                merged.push(score(w, newestT > w.committedT));
+                w.committedT = newestT;
+            } else {
+                // Venue views share the asset's history but don't update it
+                const venue = key.slice(0, separator);
+                if (!byVenue.has(venue)) byVenue.set(venue, []);
+                byVenue.get(venue)!.push(score(w, false));
+            }
+        }
+
+        leaderboard = rank(merged);
+        byVenue.forEach(rank);
+        venueLeaderboards = byVenue;
+        publishedAt = new Date();
+
+        const hijacks = leaderboard.filter(a => a.isHijacking);
+
+        // TELEGRAM (per-ticker cooldown lives in TelegramService)
+        for (const alert of hijacks) {
+            TelegramService.sendHijackAlert(alert.ticker, alert.latestPrice, alert.hijackForce);
+        }
+
+        // BROADCAST via WebSocket
+        if (WebSocketService.isReady()) {
+            WebSocketService.broadcastLeaderboard(leaderboard);
+
+            hijacks.forEach(alert => {
+                WebSocketService.broadcastHijackAlert({
+                    ticker: alert.ticker,
+                    force: alert.hijackForce,
+                    price: alert.latestPrice
+                });
+            });
+        }
+
+        // SNIPER: one evaluation at a time; a slow DB skips a beat instead of piling up
+        if (!sniperBusy && leaderboard.length > 0) {
+            sniperBusy = true;
+            PaperService.evaluateMarketState(leaderboard)
+                .catch(err => console.error('[SNIPER] Evaluation error:', err))
+                .finally(() => { sniperBusy = false; });
+        }
+    },
+
+    // O(1): the last published snapshot
+    getLeaderboard: (venue?: string): LeaderboardEntry[] =>
+        venue ? venueLeaderboards.get(venue) || [] : leaderboard,
+
+    getStats: () => ({
+        running: publishTimer !== null,
+        tickers: leaderboard.length,
+        windows: windows.size,
+        push_interval_ms: PUSH_INTERVAL_MS,
+        published_at: publishedAt?.toISOString() || null
+    })
+};
@@ -1,90 +1,204 @@
-import { query } from '../../shared/db';
+import { MarketDataModel } from '../market/market-data.model';
+import { secondDerivative } from '../../shared/finite-difference.util';
+import { CandleService, TIMEFRAME_SECONDS } from '../analytics/candle.service';
+import { ForceSnapshotModel, Trend } from './force-snapshot.model';
 
-// Timeframes in minutes
-const TIMEFRAMES = ['1m', '5m', '15m'];
+// MULTI-TIMEFRAME FORCE
+// Force on 1m/5m/15m/1h bars: S'' over each timeframe's last 3 closed candles,
+// so each timeframe only sees moves on its own scale (a few seconds' uptick
+// shows up in the next 1m bar, not in the 1h trend). A scheduled job computes every active ticker, caches the confluence table for
+// GET /mtf and appends it to force_snapshots for the history charts.
 
-// Standard Finite Difference for Acceleration
-function calculateAcceleration(data: number[]): number {
-    if (data.length < 3) return 0;
-    const i = data.length - 2;
-    return (data[i + 1] - (2 * data[i]) + data[i - 1]);
+export type MtfTimeframe = '1m' | '5m' | '15m' | '1h';
+
+export const MTF_TIMEFRAMES: Record<MtfTimeframe, number> = {
+    '1m': 1,
+    '5m': 5,
+    '15m': 15,
+    '1h': 60
+};
+
+const LOOKBACK_BARS = 3;
+// Trend needs S'' (per bar², relative to price) beyond 1bp; flatter is FLAT
+const TREND_MIN_CURVATURE = 0.0001;
+
+const INTERVAL_MS = Number(process.env.MTF_INTERVAL_MS) || 60_000;
+const RETENTION_DAYS = Number(process.env.FORCE_SNAPSHOT_RETENTION_DAYS) || 7;
+const PRUNE_EVERY_RUNS = Math.max(1, Math.round(60 * 60 * 1000 / INTERVAL_MS)); // ~hourly
+
+interface TimeframeForce {
+    force: number;
+    trend: Trend;
+    price: number;
+    volume: number;
+}
+
+export interface MtfSummary {
+    ticker: string;
+    price: number;
+    force_1m: number;
+    force_5m: number;
+    force_15m: number;
+    force_1h: number;
+    trend_1m: Trend;
+    trend_5m: Trend;
+    trend_15m: Trend;
+    trend_1h: Trend;
+    direction: Trend;         // Majority non-flat trend (FLAT on a tie)
+    agreeing: MtfTimeframe[]; // Timeframes trending in that direction
+    confluence: boolean;      // All timeframes agree
 }
 
+let latestSummary: MtfSummary[] = [];
+let computedAt: Date | null = null;
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let runs = 0;
+
+const FLAT: TimeframeForce = { force: 0, trend: 'FLAT', price: 0, volume: 0 };
+
 export const MultiTimeframeService = {
-    // Calculate force for multiple timeframes
-    calculateMultiForce: async (ticker: string) => {
-        const results: Record<string, { force: number; trend: string }> = {};
-
-        for (const tf of TIMEFRAMES) {
-            const minutes = parseInt(tf);
-            
-            const sql = `
-                SELECT sentiment_score, volume 
-                FROM sentiment_metrics 
-                WHERE ticker = $1 AND time >= NOW() - INTERVAL '${minutes * 3} minutes'
-                ORDER BY time ASC
-            `;
-            
-            const res = await query(sql, [ticker]);
-            
-            if (res.rows.length < 3) {
-                results[tf] = { force: 0, trend: 'FLAT' };
+    // Force for every timeframe from its own candles. Only the last
+    // LOOKBACK_BARS closed buckets count: missing bars (no trades) leave the
+    // timeframe FLAT rather than reaching back to stale ones.
+    calculateMultiForce: async (ticker: string): Promise<Record<MtfTimeframe, TimeframeForce>> => {
+        const now = Date.now();
+        const results = {} as Record<MtfTimeframe, TimeframeForce>;
+
+        for (const tf of Object.keys(MTF_TIMEFRAMES) as MtfTimeframe[]) {
+            const barMs = TIMEFRAME_SECONDS[tf] * 1000;
+            const current = Math.floor(now / barMs) * barMs;
+            const candles = await CandleService.getCandles(ticker, tf, LOOKBACK_BARS + 1);
+            const closed = candles.filter(c =>
+                c.time.getTime() < current && c.time.getTime() >= current - LOOKBACK_BARS * barMs
+            );
+
+            if (closed.length < LOOKBACK_BARS) {
+                results[tf] = FLAT;
                 continue;
             }
 
-            const prices = res.rows.map((r: any) => Number(r.sentiment_score));
-            const volumes = res.rows.map((r: any) => Number(r.volume));
-            
-            const accel = calculateAcceleration(prices);
-            const avgVolume = volumes.reduce((a, b) => a + b, 0) / volumes.length;
+            // Stamped at bar close, in seconds, like tick-level S''
+            const [p0, p1, p2] = closed.map(c => ({ value: c.close, t: (c.time.getTime() + barMs) / 1000 }));
+            const accel = secondDerivative(p0, p1, p2) ?? 0;
+
+            const trades = closed.reduce((sum, c) => sum + c.trades, 0);
+            const avgVolume = trades > 0 ? closed.reduce((sum, c) => sum + c.volume, 0) / trades : 0;
             const safeVolume = avgVolume > 1 ? Math.log10(avgVolume) : 0;
             const force = Math.abs(accel) * safeVolume;
 
             // Determine trend
-            let trend = 'FLAT';
-            if (accel > 0.001) trend = 'UP';
-            else if (accel < -0.001) trend = 'DOWN';
+            const curvature = p1.value > 0 ? accel * TIMEFRAME_SECONDS[tf] ** 2 / p1.value : 0;
+            let trend: Trend = 'FLAT';
+            if (curvature > TREND_MIN_CURVATURE) trend = 'UP';
+            else if (curvature < -TREND_MIN_CURVATURE) trend = 'DOWN';
 
-            results[tf] = { force, trend };
+            results[tf] = { force, trend, price: p2.value, volume: avgVolume };
         }
 
         return results;
     },
 
-    // Get aggregated view for dashboard
-    getMultiTimeframeSummary: async () => {
-        // Get unique tickers from recent data
-        const tickersRes = await query(`
-            SELECT DISTINCT ticker FROM sentiment_metrics 
-            WHERE time >= NOW() - INTERVAL '15 minutes'
-        `);
+    // Flatten one ticker's forces into a confluence row
+    toSummary: (ticker: string, forces: Record<MtfTimeframe, TimeframeForce>): MtfSummary => {
+        const timeframes = Object.keys(MTF_TIMEFRAMES) as MtfTimeframe[];
+        const up = timeframes.filter(tf => forces[tf].trend === 'UP');
+        const down = timeframes.filter(tf => forces[tf].trend === 'DOWN');
+        const direction: Trend = up.length > down.length ? 'UP' : down.length > up.length ? 'DOWN' : 'FLAT';
+        const agreeing = direction === 'UP' ? up : direction === 'DOWN' ? down : [];
 
-        const summary: any[] = [];
+        return {
+            ticker,
+            price: forces['1m'].price || forces['1h'].price,
+            force_1m: forces['1m'].force,
+            force_5m: forces['5m'].force,
+            force_15m: forces['15m'].force,
+            force_1h: forces['1h'].force,
+            trend_1m: forces['1m'].trend,
+            trend_5m: forces['5m'].trend,
+            trend_15m: forces['15m'].trend,
+            trend_1h: forces['1h'].trend,
+            direction,
+            agreeing,
+            // Confluence: All timeframes agree
+            confluence: agreeing.length === timeframes.length
+        };
+    },
+
+    // Compute every active ticker; optionally persist the run
+    computeSummary: async (persist: boolean = false): Promise<MtfSummary[]> => {
+        const tickers = await MarketDataModel.getActiveTickers(15);
+        const summary: MtfSummary[] = [];
+        const snapshots: Parameters<typeof ForceSnapshotModel.insertSnapshots>[0] = [];
 
-        for (const row of tickersRes.rows) {
-            const ticker = row.ticker;
+        for (const ticker of tickers) {
             const forces = await MultiTimeframeService.calculateMultiForce(ticker);
-            
-            summary.push({
-                ticker,
-                force_1m: forces['1m']?.force || 0,
-                force_5m: forces['5m']?.force || 0,
-                force_15m: forces['15m']?.force || 0,
-                trend_1m: forces['1m']?.trend || 'FLAT',
-                trend_5m: forces['5m']?.trend || 'FLAT',
-                trend_15m: forces['15m']?.trend || 'FLAT',
-                // Confluence: All timeframes agree
-                confluence: (
-                    forces['1m']?.trend === forces['5m']?.trend &&
-                    forces['5m']?.trend === forces['15m']?.trend &&
-                    forces['1m']?.trend !== 'FLAT'
-                )
-            });
+            summary.push(MultiTimeframeService.toSummary(ticker, forces));
+
+            for (const tf of Object.keys(MTF_TIMEFRAMES) as MtfTimeframe[]) {
+                if (forces[tf].price === 0) continue; // Not enough bars in this timeframe
+                snapshots.push({ ticker, timeframe: tf, ...forces[tf] });
+            }
         }
 
         // Sort by 1m force (most active)
         summary.sort((a, b) => b.force_1m - a.force_1m);
 
+        latestSummary = summary;
+        computedAt = new Date();
+
+        if (persist) await ForceSnapshotModel.insertSnapshots(snapshots);
+
         return summary;
+    },
+
+    // Get aggregated view for dashboard (the job's latest run, or compute now)
+    getMultiTimeframeSummary: async (): Promise<MtfSummary[]> => {
+        const fresh = computedAt && Date.now() - computedAt.getTime() < INTERVAL_MS * 2;
+        return fresh ? latestSummary : MultiTimeframeService.computeSummary();
+    },
+
+    // Latest row for one ticker from the job's cache (no query). Nothing once
+    // the job has missed two runs: a gate shouldn't pass on stale trends.
+    getCachedSummary: (ticker: string): MtfSummary | undefined => {
+        if (!computedAt || Date.now() - computedAt.getTime() > INTERVAL_MS * 2) return undefined;
+        return latestSummary.find(s => s.ticker === ticker);
+    },
+
+    getHistory: (ticker: string, hours: number = 24, timeframe?: MtfTimeframe) =>
+        ForceSnapshotModel.getHistory(ticker, hours, timeframe),
+
+    isTimeframe: (tf: string): tf is MtfTimeframe => tf in MTF_TIMEFRAMES,
+
+    // SCHEDULED JOB
+    start: () => {
+        if (timer) return;
+
+        const run = async () => {
+            if (running) return; // Previous run still going
+            running = true;
+            try {
+                const summary = await MultiTimeframeService.computeSummary(true);
+                if (++runs % PRUNE_EVERY_RUNS === 0) {
+                    const pruned = await ForceSnapshotModel.deleteOlderThan(RETENTION_DAYS);
+                    if (pruned > 0) console.log(`[MTF] 🧹 Pruned ${pruned} snapshots older than ${RETENTION_DAYS}d`);
+                }
+                const confluent = summary.filter(s => s.confluence).length;
+                if (confluent > 0) console.log(`[MTF] 📐 ${confluent}/${summary.length} tickers in full confluence`);
+            } catch (err) {
+                console.error('[MTF] Snapshot error:', err);
+            } finally {
+                running = false;
+            }
+        };
+
+        run();
+        timer = setInterval(run, INTERVAL_MS);
+        console.log(`[MTF] ⏱️ Snapshotting 1m/5m/15m/1h forces every ${INTERVAL_MS / 1000}s`);
+    },
+
+    stop: () => {
+        if (timer) clearInterval(timer);
+        timer = null;
     }
 };
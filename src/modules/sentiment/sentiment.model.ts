@@ -1,35 +1,52 @@
 import { query } from '../../shared/db';
 
+// sentiment_metrics holds real sentiment only: scores produced by the news and
+// social scanners. Raw trades live in market_trades (see MarketDataModel).
+
+export type SentimentSource = 'news' | 'social';
+
+export interface SentimentRow {
+    ticker: string;           // Storage format: BTCUSD
+    score: number;
+    volume: number;           // Articles / posts behind the score
+    source: SentimentSource;
+}
+
 export const SentimentModel = {
-    // 1. ORIGINAL: Single Asset Fetch (Keep this for deep dives)
-    getRecentSignals: async (ticker: string, limit: number = 100) => {
-        const sql = `
-            SELECT sentiment_score, volume 
-            FROM sentiment_metrics 
-            WHERE ticker = $1 
-            ORDER BY time DESC 
-            LIMIT $2;
-        `;
-        
-        const result = await query(sql, [ticker, limit]);
-        
-        return result.rows.map(row => ({
-            score: Number(row.sentiment_score),
-            volume: Number(row.volume)
-        })).reverse();
+    // 1. Record a scan's scores in one statement
+    insertScores: async (rows: SentimentRow[]) => {
+        if (rows.length === 0) return;
+
+        await query(`
+            INSERT INTO sentiment_metrics (ticker, sentiment_score, volume, source, time)
+            SELECT t, s, v, src, NOW()
+            FROM UNNEST($1::text[], $2::numeric[], $3::numeric[], $4::text[]) AS x(t, s, v, src)
+        `, [
+            rows.map(r => r.ticker),
+            rows.map(r => r.score),
+            rows.map(r => r.volume),
+            rows.map(r => r.source)
+        ]);
     },
 
-    // 2. NEW: Multi-Asset "Panopticon" Fetch
-    // Fetches ALL trades from the last 3 minutes for every coin in the DB.
-    getMarketWindow: async () => {
+    // 2. Sentiment history for one asset, oldest first
+    getHistory: async (ticker: string, hours: number = 24, source?: SentimentSource) => {
         const sql = `
-            SELECT ticker, sentiment_score, volume, time
+            SELECT sentiment_score, volume, source, time
             FROM sentiment_metrics
-            WHERE time >= NOW() - INTERVAL '3 minutes'
+            WHERE ticker = $1
+              AND time >= NOW() - make_interval(hours => $2)
+              AND ($3::text IS NULL OR source = $3)
             ORDER BY time ASC;
         `;
-        
-        const result = await query(sql);
-        return result.rows; 
+
+        const result = await query(sql, [ticker, hours, source || null]);
+
+        return result.rows.map(row => ({
+            score: Number(row.sentiment_score),
+            volume: Number(row.volume),
+            source: row.source as SentimentSource,
+            time: new Date(row.time)
+        }));
     }
-};
\ No newline at end of file
+};
@@ -1,89 +1,120 @@
 import { parentPort } from 'worker_threads';
-// 1. IMPORT TELEGRAM SERVICE
-import { TelegramService } from '../notifications/telegram.service'; 
-
-// Standard Finite Difference for Acceleration (S''(t))
-function calculateAcceleration(data: number[], h: number = 1) {
-    const acceleration: number[] = [];
-    if (data.length < 3) return [];
-    
-    for (let i = 1; i < data.length - 1; i++) {
-        const s_prev = data[i - 1];
-        const s_curr = data[i];
-        const s_next = data[i + 1];
-        
-        // Central Difference Formula
-        const secondDerivative = (s_next - (2 * s_curr) + s_prev) / (h ** 2);
-        acceleration.push(secondDerivative);
-    }
-    return acceleration;
+import { calculateAcceleration } from '../../shared/finite-difference.util';
+import { PriceFilter, smoothSeries } from '../../shared/signal-filters.util';
+import { MarketTrade } from '../market/market-data.model';
+import { BacktestConfig, BacktestResult, BacktestService, FilterComparison } from '../analytics/backtest.service';
+import { CorrelationService } from '../analytics/correlation.service';
+import { FeatureSeries, MLPredictorService, PatternMatch } from '../analytics/ml-predictor.service';
+
+// SENTIMENT WORKER
+// CPU-heavy math that would otherwise stall the event loop (and with it the
+// ingestor, price alerts and every HTTP request). Handlers are pure: data comes
+// in with the task, results go back; DB reads and side effects (Telegram,
+// paper trades) stay on the main thread. Scheduled by WorkerPoolService.
+
+export interface LeaderboardRow {
+    ticker: string;
+    hijackForce: number;
+    latestPrice: number;
+    isHijacking: boolean;
+    venues: string[];
+}
+
+// Task type -> input / result
+export interface WorkerTasks {
+    MULTI_ASSET: { input: { rawData: MarketTrade[]; filter: PriceFilter }; result: LeaderboardRow[] };
+    CORRELATION_MATRIX: { input: { series: number[][] }; result: number[][] };
+    BACKTEST: { input: { config: BacktestConfig; data: MarketTrade[] }; result: BacktestResult };
+    BACKTEST_FILTERS: { input: { config: BacktestConfig; data: MarketTrade[] }; result: FilterComparison[] };
+    ML_FEATURES: { input: { series: FeatureSeries[] }; result: PatternMatch[][] };
+}
+
+export type WorkerTaskType = keyof WorkerTasks;
+
+export interface WorkerRequest<T extends WorkerTaskType = WorkerTaskType> {
+    id: number;
+    type: T;
+    input: WorkerTasks[T]['input'];
 }
 
+export type WorkerResponse =
+    | { id: number; status: 'success'; data: unknown }
+    | { id: number; status: 'error'; error: string };
+
+export const WorkerHandlers: { [T in WorkerTaskType]: (input: WorkerTasks[T]['input']) => WorkerTasks[T]['result'] } = {
+    // Batch leaderboard over a window of trades (raw force only)
+    MULTI_ASSET: ({ rawData, filter }) => {
+        const leaderboard: LeaderboardRow[] = [];
+
+        // 1. GROUPING LOGIC
+        const groups: Record<string, { price: number, volume: number, time: Date }[]> = {};
+        const venues: Record<string, Set<string>> = {};
+
+        rawData.forEach(row => {
+            const t = row.ticker;
+            if (!groups[t]) groups[t] = [];
+            groups[t].push({
+                price: Number(row.price),
+                volume: Number(row.size),
+                time: new Date(row.time)
+            });
+
+            if (!venues[t]) venues[t] = new Set();
+            if (row.venue) venues[t].add(row.venue);
+        });
+
+        // 2. MATH LOGIC
+        for (const ticker in groups) {
+            const history = groups[ticker];
+
+            if (history.length < 3) continue;
+
+            const prices = history.map(h => ({ value: h.price, time: h.time }));
+            const accelerations = calculateAcceleration(smoothSeries(prices, filter));
+
+            const currentAccel = accelerations[accelerations.length - 1] || 0;
+            const latestVolume = history[history.length - 1].volume;
+            const latestPrice = history[history.length - 1].price;
+
+            // FORCE FORMULA: |Accel| * Log10(Volume)
+            const safeVolume = latestVolume > 1 ? Math.log10(latestVolume) : 0;
+            const hijackForce = Math.abs(currentAccel) * safeVolume;
+
+            leaderboard.push({
+                ticker,
+                hijackForce,
+                latestPrice,
+                isHijacking: hijackForce > 0.05,
+                venues: Array.from(venues[ticker])
+            });
+        }
+
+        // 3. RANKING
+        leaderboard.sort((a, b) => b.hijackForce - a.hijackForce);
+        return leaderboard;
+    },
+
+    CORRELATION_MATRIX: ({ series }) => CorrelationService.computeMatrix(series),
+
+    BACKTEST: ({ config, data }) => BacktestService.simulate(config, data),
+
+    BACKTEST_FILTERS: ({ config, data }) => BacktestService.simulateFilters(config, data),
+
+    ML_FEATURES: ({ series }) =>
+        series.map(s => MLPredictorService.detectPatterns(s.prices, s.volumes, s.times))
+};
+
 if (parentPort) {
-    parentPort.on('message', async (taskData: { type: string, rawData: any[] }) => {
+    parentPort.on('message', (task: WorkerRequest) => {
         try {
-            if (taskData.type === 'MULTI_ASSET') {
-                const { rawData } = taskData;
-                const leaderboard: any[] = [];
-
-                // 1. GROUPING LOGIC
-                const groups: Record<string, { score: number, volume: number }[]> = {};
-
-                rawData.forEach((row: any) => {
-                    const t = row.ticker;
-                    if (!groups[t]) groups[t] = [];
-                    groups[t].push({
-                        score: Number(row.sentiment_score),
-                        volume: Number(row.volume)
-                    });
-                });
-
-                // 2. MATH LOGIC
-                for (const ticker in groups) {
-                    const history = groups[ticker];
-
-                    if (history.length < 3) continue;
-
-                    const priceData = history.map(h => h.score);
-                    const accelerations = calculateAcceleration(priceData);
-
-                    const currentAccel = accelerations[accelerations.length - 1] || 0;
-                    const latestVolume = history[history.length - 1].volume;
-                    const latestPrice = history[history.length - 1].score;
-
-                    // FORCE FORMULA: |Accel| * Log10(Volume)
-                    const safeVolume = latestVolume > 1 ? Math.log10(latestVolume) : 0;
-                    const hijackForce = Math.abs(currentAccel) * safeVolume;
-
-                    // THRESHOLD: > 0.05 is a significant move. 
-                    // (0.0001 is too sensitive for Telegram)
-                    const isHijacking = hijackForce > 0.05; 
-
-                    // 3. TRIGGER TELEGRAM
-                    if (isHijacking) {
-                         // Fire and forget
-                         TelegramService.sendHijackAlert(ticker, latestPrice, hijackForce);
-                    }
-
-                    leaderboard.push({
-                        ticker,
-                        hijackForce,
-                        latestPrice,
-                        isHijacking
-                    });
-                }
-
-                // 3. RANKING
-                leaderboard.sort((a, b) => b.hijackForce - a.hijackForce);
-
-                parentPort?.postMessage({
-                    status: 'success',
-                    data: leaderboard
-                });
-            }
-
-        } catch (error) {
-            parentPort?.postMessage({ status: 'error', error });
+            const handler = WorkerHandlers[task.type] as (input: unknown) => unknown;
+            if (!handler) throw new Error(`Unknown task type: ${task.type}`);
+
+            const response: WorkerResponse = { id: task.id, status: 'success', data: handler(task.input) };
+            parentPort?.postMessage(response);
+        } catch (error: any) {
+            const response: WorkerResponse = { id: task.id, status: 'error', error: error?.message || String(error) };
+            parentPort?.postMessage(response);
         }
     });
-}
\ No newline at end of file
+}
@@ -1,3 +1,6 @@
+import { SentimentModel, SentimentRow } from './sentiment.model';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+
 // SOCIAL SENTIMENT SERVICE
 // Real-time crypto social sentiment from CryptoPanic API (free tier)
 // CryptoPanic aggregates news and social media sentiment
@@ -30,9 +33,6 @@ const MAX_POSTS = 50;
 // CryptoPanic API (free tier - no auth, limited to 5 requests/minute)
 const CRYPTOPANIC_API = 'https://cryptopanic.com/api/free/v1/posts';
 
-// Tracked tickers
-const TRACKED_TICKERS = ['BTC', 'ETH', 'SOL', 'DOGE', 'XRP', 'ADA', 'AVAX', 'LINK'];
-
 // Rate limiting
 let lastFetch = 0;
 const MIN_FETCH_INTERVAL = 15000; // 15 seconds between fetches
@@ -128,7 +128,9 @@ export const TwitterService = {
 
     // Calculate sentiment per ticker from posts
     calculateTickerSentiment: (posts: any[]) => {
-        for (const ticker of TRACKED_TICKERS) {
+        const rows: SentimentRow[] = [];
+
+        for (const ticker of AssetRegistryService.getSymbols()) {
             const tickerLower = ticker.toLowerCase();
             const tickerPosts = posts.filter(p => {
                 const title = (p.title || '').toLowerCase();
@@ -178,12 +180,19 @@ export const TwitterService = {
                 trending: total >= 3,
                 lastUpdate: Date.now()
             });
+
+            rows.push({ ticker: `${ticker}USD`, score: Math.max(-10, Math.min(10, avgScore)), volume: total, source: 'social' });
         }
+
+        // Only real posts are stored - fallback sentiment never hits the DB
+        SentimentModel.insertScores(rows).catch(err =>
+            console.error('[SOCIAL] Failed to store sentiment:', err?.message || err)
+        );
     },
 
     // Generate fallback sentiment based on market conditions
     generateFallbackSentiment: () => {
-        for (const ticker of TRACKED_TICKERS) {
+        for (const ticker of AssetRegistryService.getSymbols()) {
             // Slight random variation around neutral
             const baseScore = (Math.random() - 0.5) * 4;
             const postCount = Math.floor(Math.random() * 15) + 5; // 5-20 posts
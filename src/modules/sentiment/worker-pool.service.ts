@@ -0,0 +1,168 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { WorkerHandlers, WorkerRequest, WorkerResponse, WorkerTaskType, WorkerTasks } from './sentiment.worker';
+
+// WORKER POOL
+// Fixed set of sentiment.worker threads with a FIFO queue. Each worker runs one
+// task at a time; a task that overruns its timeout gets its worker terminated
+// and replaced, so a runaway backtest can't wedge the pool either.
+// WORKER_POOL_SIZE=0 runs every task inline on the main thread (debugging).
+
+export class WorkerTimeoutError extends Error {
+    constructor(type: WorkerTaskType, timeoutMs: number) {
+        super(`${type} timed out after ${timeoutMs}ms`);
+        this.name = 'WorkerTimeoutError';
+    }
+}
+
+interface PendingTask {
+    request: WorkerRequest;
+    timeoutMs: number;
+    resolve: (data: any) => void;
+    reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    task: PendingTask | null;
+    timer: NodeJS.Timeout | null;
+}
+
+const DEFAULT_TIMEOUTS: Record<WorkerTaskType, number> = {
+    MULTI_ASSET: 10_000,
+    CORRELATION_MATRIX: 30_000,
+    BACKTEST: Number(process.env.BACKTEST_TIMEOUT_MS) || 120_000,
+    BACKTEST_FILTERS: (Number(process.env.BACKTEST_TIMEOUT_MS) || 120_000) * 4,
+    ML_FEATURES: 30_000
+};
+
+const POOL_SIZE = process.env.WORKER_POOL_SIZE !== undefined
+    ? Math.max(0, Number(process.env.WORKER_POOL_SIZE) || 0)
+    : Math.min(4, Math.max(1, os.cpus().length - 1));
+
+// Under ts-node the worker is the .ts source and needs the same loader
+const WORKER_FILE = path.join(__dirname, `sentiment.worker${path.extname(__filename)}`);
+const WORKER_EXEC_ARGV = path.extname(__filename) === '.ts' ? ['--require', 'ts-node/register'] : undefined;
+
+const workers: PoolWorker[] = [];
+const queue: PendingTask[] = [];
+const stats = { completed: 0, failed: 0, timedOut: 0, restarted: 0 };
+let nextId = 1;
+
+const settle = (slot: PoolWorker) => {
+    if (slot.timer) clearTimeout(slot.timer);
+    const task = slot.task;
+    slot.task = null;
+    slot.timer = null;
+    return task;
+};
+
+const replace = (slot: PoolWorker) => {
+    const index = workers.indexOf(slot);
+    if (index === -1) return;
+
+    slot.worker.removeAllListeners();
+    slot.worker.terminate().catch(() => undefined);
+    workers[index] = spawn();
+    stats.restarted++;
+};
+
+const spawn = (): PoolWorker => {
+    const slot: PoolWorker = {
+        worker: new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV }),
+        task: null,
+        timer: null
+    };
+
+    slot.worker.on('message', (response: WorkerResponse) => {
+        const task = settle(slot);
+        if (!task || task.request.id !== response.id) return;
+
+        if (response.status === 'success') {
+            stats.completed++;
+            task.resolve(response.data);
+        } else {
+            stats.failed++;
+            task.reject(new Error(`${task.request.type} failed: ${response.error}`));
+        }
+        dispatch();
+    });
+
+    // A crashed worker takes its task with it; replace it and keep going
+    const onCrash = (reason: string) => {
+        console.error(`[WorkerPool] 💀 Worker died (${reason})`);
+        const task = settle(slot);
+        if (task) {
+            stats.failed++;
+            task.reject(new Error(`${task.request.type} failed: worker ${reason}`));
+        }
+        replace(slot);
+        dispatch();
+    };
+
+    slot.worker.on('error', (err) => onCrash(err.message));
+    slot.worker.on('exit', (code) => onCrash(`exited with code ${code}`));
+
+    return slot;
+};
+
+const dispatch = () => {
+    if (workers.length === 0 && POOL_SIZE > 0) {
+        for (let i = 0; i < POOL_SIZE; i++) workers.push(spawn());
+        console.log(`[WorkerPool] 🧵 Started ${POOL_SIZE} worker(s)`);
+    }
+
+    for (const slot of workers) {
+        if (queue.length === 0) return;
+        if (slot.task) continue;
+
+        const task = queue.shift()!;
+        slot.task = task;
+        slot.timer = setTimeout(() => {
+            const timedOut = settle(slot);
+            if (!timedOut) return;
+
+            stats.timedOut++;
+            console.warn(`[WorkerPool] ⏱️ ${timedOut.request.type} exceeded ${timedOut.timeoutMs}ms, recycling worker`);
+            timedOut.reject(new WorkerTimeoutError(timedOut.request.type, timedOut.timeoutMs));
+            replace(slot);
+            dispatch();
+        }, task.timeoutMs);
+
+        slot.worker.postMessage(task.request);
+    }
+};
+
+export const WorkerPoolService = {
+    // Queue a task; resolves with the handler's typed result
+    run: <T extends WorkerTaskType>(type: T, input: WorkerTasks[T]['input'], timeoutMs: number = DEFAULT_TIMEOUTS[type]): Promise<WorkerTasks[T]['result']> => {
+        if (POOL_SIZE === 0) {
+            const handler = WorkerHandlers[type] as (input: WorkerTasks[T]['input']) => WorkerTasks[T]['result'];
+            return new Promise(resolve => resolve(handler(input)));
+        }
+
+        return new Promise((resolve, reject) => {
+            queue.push({ request: { id: nextId++, type, input }, timeoutMs, resolve, reject });
+            dispatch();
+        });
+    },
+
+    getStats: () => ({
+        size: POOL_SIZE,
+        busy: workers.filter(w => w.task !== null).length,
+        queued: queue.length,
+        ...stats
+    }),
+
+    shutdown: async () => {
+        const slots = workers.splice(0);
+        for (const slot of slots) {
+            const task = settle(slot);
+            task?.reject(new Error('Worker pool shut down'));
+            slot.worker.removeAllListeners();
+        }
+        for (const task of queue.splice(0)) task.reject(new Error('Worker pool shut down'));
+        await Promise.all(slots.map(s => s.worker.terminate()));
+    }
+};
@@ -1,4 +1,5 @@
 import { TelegramService } from '../notifications/telegram.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
 
 // WHALE ALERT SERVICE
 // Monitors large crypto transfers (simulated via public API)
@@ -22,12 +23,6 @@ const MAX_CACHE_SIZE = 100;
 // Whale threshold (minimum USD value to track)
 const WHALE_THRESHOLD_USD = 1_000_000; // $1M+
 
-// Watched assets (map crypto symbols to alert)
-const WATCHED_SYMBOLS = new Set([
-    'BTC', 'ETH', 'SOL', 'DOGE', 'XRP', 'ADA', 
-    'AVAX', 'LINK', 'DOT', 'MATIC', 'UNI', 'SHIB'
-]);
-
 export const WhaleService = {
     // Start whale monitoring (simulated)
     startMonitoring: () => {
@@ -87,7 +82,9 @@ export const WhaleService = {
         // 10% chance of whale activity per check (for demo)
         if (Math.random() > 0.1) return null;
 
-        const symbols = Array.from(WATCHED_SYMBOLS);
+        // Watched assets come from the registry
+        const symbols = AssetRegistryService.getSymbols();
+        if (symbols.length === 0) return null;
         const symbol = symbols[Math.floor(Math.random() * symbols.length)];
         
         // Random whale amount between $1M and $100M
@@ -1,20 +1,56 @@
 // CONFIG SERVICE: Runtime configuration management
 // This handles kill switches, thresholds, and other runtime settings
 
+import { PriceFilter } from './signal-filters.util';
+import { CostModel } from './execution-cost.util';
+import { SizingConfig, SizingMethod } from './position-sizing.util';
+import { ExitLadder, LadderRung } from './exit-ladder.util';
+import { Venue } from '../modules/ingestor/exchange.adapter';
+import { CandleTimeframe } from '../modules/analytics/candle.service';
+
+export type ForceMode = 'raw' | 'normalized';
+
+export const FORCE_MODES: ForceMode[] = ['raw', 'normalized'];
+
+export const isForceMode = (value: unknown): value is ForceMode =>
+    typeof value === 'string' && (FORCE_MODES as string[]).includes(value);
+
 interface TradingConfig {
     killSwitch: boolean;              // Master kill switch
     paperTradingEnabled: boolean;     // Paper trading active
     liveTradingEnabled: boolean;      // Live trading active
-    entryThreshold: number;           // Hijack force entry threshold
-    exitThreshold: number;            // Momentum died threshold
+    entryThreshold: number;           // Hijack force entry threshold (raw mode / warm-up)
+    exitThreshold: number;            // Momentum died threshold (raw mode / warm-up)
+    forceMode: ForceMode;             // Trade on raw force or per-asset z-score
+    entryZScore: number;              // Normalized entry: force this many σ above the asset's norm
+    exitZScore: number;               // Normalized exit: force fell back below this many σ
+    priceFilter: PriceFilter;         // Smoothing applied to prices before S''
     stopLossPercent: number;          // Stop loss percentage
-    takeProfitPercent: number;        // Take profit percentage
+    takeProfitPercent: number;        // Take profit percentage (when there's no exit ladder)
+    exitLadder: LadderRung[];         // Scale-out targets (empty = all out at takeProfitPercent)
+    breakEvenAfterFirstTarget: boolean; // Move the stop to entry once the first rung fills
     trailingStopEnabled: boolean;     // Trailing stop active
     trailingStopPercent: number;      // Trail percentage
     trailingActivation: number;       // Activation profit %
     requireNarrative: boolean;        // Require news confirmation
+    confluenceGateEnabled: boolean;   // Require multi-timeframe agreement to enter
+    minAgreeingTimeframes: number;    // Of 1m/5m/15m/1h, how many must trend with the entry
     maxOpenPositions: number;         // Max concurrent positions
-    tradeSizeUsd: number;             // Position size
+    tradeSizeUsd: number;             // Position size (fixed sizing)
+    sizingMethod: SizingMethod;       // fixed | fractional | volatility | kelly
+    sizingEquityPercent: number;      // fractional: % of equity per position
+    sizingRiskPercent: number;        // volatility: % of equity lost over the ATR move
+    sizingAtrMultiple: number;        // volatility: ATRs to the assumed stop
+    sizingAtrTimeframe: CandleTimeframe; // volatility: candle size the ATR is taken on
+    kellyFraction: number;            // kelly: share of the full Kelly bet
+    kellyMinTrades: number;           // kelly: closed trades needed (fractional until then)
+    maxPositionPercent: number;       // Cap per position, % of equity (all but fixed)
+    executionVenue: Venue;            // Fee schedule and order book paper fills are priced on
+    halfSpreadBps: number;            // Half-spread when there's no live book (and in backtests)
+    slippageBpsPer10k: number;        // Slippage per $10k notional when there's no book depth
+    fundingRatePerHour: number;       // Paper funding %/hour: longs pay, shorts receive
+    marginRequirement: number;        // Margin per $ of position (1 = cash account, 0.5 = 2x)
+    reconcileToleranceUsd: number;    // Live books vs. exchange: USD mismatch that trips the kill switch
 }
 
 // Default configuration
@@ -24,14 +60,36 @@ const DEFAULT_CONFIG: TradingConfig = {
     liveTradingEnabled: false,
     entryThreshold: 0.08,
     exitThreshold: 0.01,
+    forceMode: 'normalized',
+    entryZScore: 2.0,
+    exitZScore: 0.5,
+    priceFilter: 'none',
     stopLossPercent: -2.0,
     takeProfitPercent: 3.0,
+    exitLadder: [],
+    breakEvenAfterFirstTarget: true,
     trailingStopEnabled: true,
     trailingStopPercent: 1.5,
     trailingActivation: 1.0,
     requireNarrative: true,
+    confluenceGateEnabled: false,
+    minAgreeingTimeframes: 3,
     maxOpenPositions: 5,
-    tradeSizeUsd: 1000
+    tradeSizeUsd: 1000,
+    sizingMethod: 'fixed',
+    sizingEquityPercent: 10,
+    sizingRiskPercent: 1,
+    sizingAtrMultiple: 2,
+    sizingAtrTimeframe: '15m',
+    kellyFraction: 0.25,
+    kellyMinTrades: 20,
+    maxPositionPercent: 25,
+    executionVenue: 'coinbase',
+    halfSpreadBps: 2,
+    slippageBpsPer10k: 5,
+    fundingRatePerHour: 0.00125,
+    marginRequirement: 1.0,
+    reconcileToleranceUsd: 5
 };
 
 // Runtime config (in-memory, persists until restart)
@@ -89,12 +147,41 @@ export const ConfigService = {
     // Get specific values (for use in other services)
     getEntryThreshold: (): number => currentConfig.entryThreshold,
     getExitThreshold: (): number => currentConfig.exitThreshold,
+    getForceMode: (): ForceMode => currentConfig.forceMode,
+    getEntryZScore: (): number => currentConfig.entryZScore,
+    getExitZScore: (): number => currentConfig.exitZScore,
+    getPriceFilter: (): PriceFilter => currentConfig.priceFilter,
     getStopLossPercent: (): number => currentConfig.stopLossPercent,
     getTakeProfitPercent: (): number => currentConfig.takeProfitPercent,
+    getExitLadder: (): ExitLadder => ({
+        rungs: currentConfig.exitLadder.map(rung => ({ ...rung })),
+        breakEvenAfterFirst: currentConfig.breakEvenAfterFirstTarget
+    }),
     getTrailingStopEnabled: (): boolean => currentConfig.trailingStopEnabled,
     getTrailingStopPercent: (): number => currentConfig.trailingStopPercent,
     getTrailingActivation: (): number => currentConfig.trailingActivation,
     getRequireNarrative: (): boolean => currentConfig.requireNarrative,
+    getConfluenceGateEnabled: (): boolean => currentConfig.confluenceGateEnabled,
+    getMinAgreeingTimeframes: (): number => currentConfig.minAgreeingTimeframes,
     getMaxOpenPositions: (): number => currentConfig.maxOpenPositions,
-    getTradeSizeUsd: (): number => currentConfig.tradeSizeUsd
+    getTradeSizeUsd: (): number => currentConfig.tradeSizeUsd,
+    getSizingConfig: (): SizingConfig => ({
+        method: currentConfig.sizingMethod,
+        equityPercent: currentConfig.sizingEquityPercent,
+        riskPercent: currentConfig.sizingRiskPercent,
+        atrMultiple: currentConfig.sizingAtrMultiple,
+        atrTimeframe: currentConfig.sizingAtrTimeframe,
+        kellyFraction: currentConfig.kellyFraction,
+        kellyMinTrades: currentConfig.kellyMinTrades,
+        maxPositionPercent: currentConfig.maxPositionPercent
+    }),
+    getExecutionVenue: (): Venue => currentConfig.executionVenue,
+    getCostModel: (): CostModel => ({
+        venue: currentConfig.executionVenue,
+        halfSpreadBps: currentConfig.halfSpreadBps,
+        slippageBpsPer10k: currentConfig.slippageBpsPer10k
+    }),
+    getFundingRatePerHour: (): number => currentConfig.fundingRatePerHour,
+    getMarginRequirement: (): number => currentConfig.marginRequirement,
+    getReconcileToleranceUsd: (): number => currentConfig.reconcileToleranceUsd
 };
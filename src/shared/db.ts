@@ -15,4 +15,25 @@ export const query = async (text: string, params?: any[]) => {
   if (duration > 100) console.log('Executed query: ' + text + ' in ' + duration + 'ms');
   return res;
 };
+
+export type Query = typeof query;
+
+// Run fn's queries on one connection inside a transaction: they all commit,
+// or (on any error, which is rethrown) none do. A connection that can't even
+// roll back is destroyed rather than handed back to the pool.
+export const transaction = async <T>(fn: (db: Query) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  let broken: Error | undefined;
+  try {
+    await client.query('BEGIN');
+    const result = await fn((text, params) => client.query(text, params));
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch((rollbackErr: Error) => { broken = rollbackErr; });
+    throw err;
+  } finally {
+    client.release(broken);
+  }
+};
 export default pool;
@@ -0,0 +1,125 @@
+import { Venue } from '../modules/ingestor/exchange.adapter';
+
+// EXECUTION COSTS
+// What a fill really costs versus the last tick price. Paper trading and the
+// backtest both price fills through here, so a strategy that only works at
+// zero cost shows up as such in both places.
+//
+//   fee        maker/taker bps of the filled notional, per venue
+//   spread     a market order crosses half the spread: from the live book
+//              when we have one, else the configured half-spread
+//   slippage   size-dependent: with book depth, eating X of the D dollars
+//              resting within 1% of mid moves the average fill ~50bps * X/D
+//              (depth spread evenly over the band); without a book, a
+//              configured bps per $10k of notional
+
+export type Liquidity = 'maker' | 'taker';
+export type FillSide = 'buy' | 'sell';
+
+export interface VenueFees {
+    makerBps: number;
+    takerBps: number;
+}
+
+// Entry-tier schedules (30-day volume under $10k)
+export const VENUE_FEES: Record<Venue, VenueFees> = {
+    coinbase: { makerBps: 40, takerBps: 60 },
+    kraken: { makerBps: 25, takerBps: 40 },
+    binance: { makerBps: 10, takerBps: 10 }
+};
+
+export const isVenue = (value: unknown): value is Venue =>
+    typeof value === 'string' && value in VENUE_FEES;
+
+export interface CostModel {
+    venue: Venue;
+    halfSpreadBps: number;        // Used when there's no live book
+    slippageBpsPer10k: number;    // Used when there's no book depth
+}
+
+// The parts of a live book the model uses (side-specific depth)
+export interface BookQuote {
+    spreadBps: number;
+    depthUsd: number;             // Resting within 1% on the side we take
+}
+
+export interface FillCost {
+    side: FillSide;
+    liquidity: Liquidity;
+    refPrice: number;             // Last tick price
+    fillPrice: number;            // After spread and slippage
+    quantity: number;
+    notional: number;             // quantity * fillPrice
+    halfSpreadBps: number;
+    slippageBps: number;
+    feeBps: number;
+    fee: number;                  // USD
+    executionCost: number;        // USD lost to spread + slippage
+    source: 'book' | 'config';
+}
+
+const BAND_SLIPPAGE_BPS = 50;     // Half of the 1% depth band
+
+// Price one fill. Makers rest inside the spread: no spread, no slippage.
+export const estimateFill = (
+    side: FillSide,
+    refPrice: number,
+    quantity: number,
+    model: CostModel,
+    liquidity: Liquidity = 'taker',
+    book?: BookQuote | null
+): FillCost => {
+    const refNotional = quantity * refPrice;
+    const useBook = !!book && book.spreadBps > 0;
+
+    let halfSpreadBps = 0;
+    let slippageBps = 0;
+    if (liquidity === 'taker') {
+        halfSpreadBps = useBook ? book!.spreadBps / 2 : model.halfSpreadBps;
+        slippageBps = useBook && book!.depthUsd > 0
+            ? BAND_SLIPPAGE_BPS * (refNotional / book!.depthUsd)
+            : model.slippageBpsPer10k * (refNotional / 10_000);
+    }
+
+    const adverse = (halfSpreadBps + slippageBps) / 10_000;
+    const fillPrice = side === 'buy' ? refPrice * (1 + adverse) : refPrice * (1 - adverse);
+    const notional = quantity * fillPrice;
+
+    const fees = VENUE_FEES[model.venue];
+    const feeBps = liquidity === 'maker' ? fees.makerBps : fees.takerBps;
+
+    return {
+        side,
+        liquidity,
+        refPrice,
+        fillPrice,
+        quantity,
+        notional,
+        halfSpreadBps,
+        slippageBps,
+        feeBps,
+        fee: notional * feeBps / 10_000,
+        executionCost: Math.abs(fillPrice - refPrice) * quantity,
+        source: useBook ? 'book' : 'config'
+    };
+};
+
+// The share of a fill that belongs to part of its quantity (fees and costs pro rata)
+export const partialFill = (fill: FillCost, quantity: number): FillCost => {
+    const share = fill.quantity > 0 ? quantity / fill.quantity : 0;
+    return {
+        ...fill,
+        quantity,
+        notional: fill.notional * share,
+        fee: fill.fee * share,
+        executionCost: fill.executionCost * share
+    };
+};
+
+// A round trip's P&L: gross at tick prices, net after spread, slippage and fees
+export const roundTripPnL = (direction: 1 | -1, entry: FillCost, exit: FillCost) => {
+    const gross = direction * (exit.refPrice - entry.refPrice) * entry.quantity;
+    const fees = entry.fee + exit.fee;
+    const executionCost = entry.executionCost + exit.executionCost;
+    return { gross, fees, executionCost, net: gross - fees - executionCost };
+};
@@ -0,0 +1,83 @@
+// EXIT LADDERS
+// Scaling out of a winner in steps instead of all at once, e.g.
+//   [{ profitPercent: 1.5, closePercent: 50 }, { profitPercent: 3, closePercent: 25 }]
+// sells half at +1.5%, a quarter at +3%, and leaves the last quarter to the
+// trailing stop / stop loss / momentum exit. closePercent is of the position
+// as it stood when the first target hit, so the legs add up the way they read.
+// With breakEvenAfterFirst the stop moves to the entry price once the first
+// target fills: the rest of the trade can no longer turn into a loser.
+// Paper trading and the backtest both step through here; pure, worker-safe.
+// An empty ladder means the old single take-profit.
+
+export interface LadderRung {
+    profitPercent: number;        // Target, % in the position's favour
+    closePercent: number;         // Share of the position to sell there
+}
+
+export interface ExitLadder {
+    rungs: LadderRung[];          // Ascending targets
+    breakEvenAfterFirst: boolean;
+}
+
+// Where a position is on its ladder
+export interface LadderState {
+    step: number;                 // Rungs already taken
+    baseQuantity: number;         // Position size the percents apply to
+    openQuantity: number;
+}
+
+export interface LadderExit {
+    step: number;                 // Rungs taken after this exit
+    quantity: number;             // To close now (capped at what's open)
+    closesAll: boolean;
+    reason: string;
+}
+
+// Rungs must climb, close something, and not close more than 100% together
+export const exitLadderError = (rungs: unknown): string | null => {
+    if (!Array.isArray(rungs)) return 'exitLadder must be an array of { profitPercent, closePercent }';
+
+    let previous = 0;
+    let total = 0;
+    for (const rung of rungs) {
+        const profit = rung?.profitPercent;
+        const close = rung?.closePercent;
+        if (typeof profit !== 'number' || !Number.isFinite(profit) || profit <= previous) {
+            return 'exitLadder profitPercent must be positive and strictly ascending';
+        }
+        if (typeof close !== 'number' || !Number.isFinite(close) || close <= 0) {
+            return 'exitLadder closePercent must be a positive number';
+        }
+        previous = profit;
+        total += close;
+    }
+
+    return total > 100 + 1e-9 ? `exitLadder closes ${total}% in total (max 100%)` : null;
+};
+
+// Every rung the price has reached since the last one taken, as one exit
+// (a gap through two targets sells both legs on the same tick)
+export const ladderExit = (ladder: ExitLadder, state: LadderState, pnlPercent: number): LadderExit | null => {
+    let step = state.step;
+    let percent = 0;
+    while (step < ladder.rungs.length && pnlPercent >= ladder.rungs[step].profitPercent) {
+        percent += ladder.rungs[step].closePercent;
+        step++;
+    }
+    if (step === state.step) return null;
+
+    const wanted = state.baseQuantity * percent / 100;
+    // Don't leave dust behind: within a rounding error of everything is everything
+    const closesAll = wanted >= state.openQuantity * (1 - 1e-9);
+    const first = state.step + 1;
+    return {
+        step,
+        quantity: closesAll ? state.openQuantity : wanted,
+        closesAll,
+        reason: `TAKE_PROFIT ${first === step ? step : `${first}-${step}`}/${ladder.rungs.length} (+${ladder.rungs[step - 1].profitPercent}%)`
+    };
+};
+
+// Stop price once the ladder has moved it to break-even (null = not armed)
+export const breakEvenStop = (ladder: ExitLadder, step: number, entryPrice: number): number | null =>
+    ladder.breakEvenAfterFirst && step > 0 ? entryPrice : null;
@@ -1,12 +1,74 @@
-export const calculateSentimentAcceleration = (data: number[], h: number = 1): number[] => {
+// FINITE DIFFERENCES ON REAL TICK TIMES
+// Ticks don't arrive on a grid: BTC prints several times a second, PEPE can go
+// quiet for a minute. Treating every gap as h = 1 makes BTC look sluggish and
+// PEPE look violent. Here spacing comes from the timestamps, in seconds, so
+// acceleration means the same thing (price / s²) for every asset.
+//
+// Non-uniform three-point stencil, with h0 = t[i] - t[i-1] and h1 = t[i+1] - t[i]:
+//   f''(t[i]) ≈ 2 * (h0 * f[i+1] - (h0 + h1) * f[i] + h1 * f[i-1]) / (h0 * h1 * (h0 + h1))
+// With h0 = h1 = h this is the usual (f[i+1] - 2f[i] + f[i-1]) / h².
+
+export interface TimedValue {
+    value: number;
+    time: Date | number | string;
+}
+
+// Fills closer together than this are one event (a sweep through the book
+// prints many trades in the same millisecond). Without merging, h -> 0 and the
+// derivative explodes.
+export const DEFAULT_MIN_SPACING_SECONDS = 1;
+
+const toSeconds = (time: Date | number | string): number =>
+    (time instanceof Date ? time.getTime() : typeof time === 'number' ? time : new Date(time).getTime()) / 1000;
+
+// Collapse bursts: each cluster is stamped with its first tick's time and
+// carries its last tick's value, so kept points are at least minSpacing apart.
+export const mergeCloseSamples = (samples: TimedValue[], minSpacingSeconds: number = DEFAULT_MIN_SPACING_SECONDS) => {
+    const merged: SpacedPoint[] = [];
+
+    for (const sample of samples) {
+        const t = toSeconds(sample.time);
+        if (!Number.isFinite(t) || !Number.isFinite(sample.value)) continue;
+
+        const last = merged[merged.length - 1];
+        if (last && t - last.t < minSpacingSeconds) {
+            last.value = sample.value;
+        } else {
+            merged.push({ value: sample.value, t });
+        }
+    }
+    return merged;
+};
+
+export interface SpacedPoint {
+    value: number;
+    t: number;          // Seconds
+}
+
+// Stencil at p1 from its two neighbours; null if the spacing is degenerate
+export const secondDerivative = (p0: SpacedPoint, p1: SpacedPoint, p2: SpacedPoint): number | null => {
+    const h0 = p1.t - p0.t;
+    const h1 = p2.t - p1.t;
+    if (h0 <= 0 || h1 <= 0) return null;
+
+    return 2 * (h0 * p2.value - (h0 + h1) * p1.value + h1 * p0.value) / (h0 * h1 * (h0 + h1));
+};
+
+// Second derivative at every interior point (samples must be oldest first)
+export const calculateAcceleration = (samples: TimedValue[], minSpacingSeconds: number = DEFAULT_MIN_SPACING_SECONDS): number[] => {
+    const points = mergeCloseSamples(samples, minSpacingSeconds);
     const acceleration: number[] = [];
-    if (data.length < 3) return [];
-    for (let i = 1; i < data.length - 1; i++) {
-        const s_prev = data[i - 1];
-        const s_curr = data[i];
-        const s_next = data[i + 1];
-        const secondDerivative = (s_next - (2 * s_curr) + s_prev) / (Math.pow(h, 2));
-        acceleration.push(secondDerivative);
+    if (points.length < 3) return [];
+
+    for (let i = 1; i < points.length - 1; i++) {
+        const value = secondDerivative(points[i - 1], points[i], points[i + 1]);
+        if (value !== null) acceleration.push(value);
     }
     return acceleration;
 };
+
+// Most recent acceleration, or 0 when there isn't enough data
+export const latestAcceleration = (samples: TimedValue[], minSpacingSeconds: number = DEFAULT_MIN_SPACING_SECONDS): number => {
+    const acceleration = calculateAcceleration(samples, minSpacingSeconds);
+    return acceleration[acceleration.length - 1] || 0;
+};
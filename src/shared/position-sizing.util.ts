@@ -0,0 +1,151 @@
+import { CandleTimeframe } from '../modules/analytics/candle.service';
+
+// POSITION SIZING
+// How big each entry is. The sniper, the operator bots and the backtest all
+// size through here; callers gather the inputs (equity, ATR, trade history)
+// and pass them in, so this stays pure and safe to run on a worker.
+//
+//   fixed        the flat dollar amount (tradeSizeUsd / positionSizeUsd)
+//   fractional   a fixed percent of current equity
+//   volatility   lose riskPercent of equity if price moves atrMultiple ATRs
+//                against us: quantity = equity * risk% / (atrMultiple * ATR)
+//   kelly        a fraction of the Kelly bet f* = W - (1 - W) / R, from the
+//                win rate W and payoff R (avg win / avg loss) of past trades
+//
+// volatility without an ATR, and kelly without enough history, fall back to
+// fractional. Every method but fixed is capped at maxPositionPercent of equity.
+
+export type SizingMethod = 'fixed' | 'fractional' | 'volatility' | 'kelly';
+
+export const SIZING_METHODS: SizingMethod[] = ['fixed', 'fractional', 'volatility', 'kelly'];
+
+export const isSizingMethod = (value: unknown): value is SizingMethod =>
+    typeof value === 'string' && (SIZING_METHODS as string[]).includes(value);
+
+export const ATR_PERIOD = 14;
+export const KELLY_LOOKBACK_TRADES = 100;   // Most recent closed trades Kelly is estimated from
+
+export interface SizingConfig {
+    method: SizingMethod;
+    equityPercent: number;        // fractional: % of equity per position
+    riskPercent: number;          // volatility: % of equity lost over the ATR move
+    atrMultiple: number;
+    atrTimeframe: CandleTimeframe;
+    kellyFraction: number;        // Share of f* actually bet (0.25 = quarter Kelly)
+    kellyMinTrades: number;       // Closed trades needed before Kelly applies
+    maxPositionPercent: number;   // Cap on any one position, % of equity
+}
+
+export interface TradeHistory {
+    trades: number;
+    winRate: number;              // 0-1
+    payoff: number;               // Average win / average loss
+}
+
+export interface SizingInputs {
+    price: number;
+    equity: number;
+    fixedUsd: number;
+    atr?: number | null;          // Price units, on atrTimeframe bars
+    history?: TradeHistory | null;
+}
+
+export interface SizingDecision {
+    method: SizingMethod;         // Method applied, after any fallback
+    notionalUsd: number;          // 0 = don't trade (no equity, no edge)
+    quantity: number;
+    rationale: string;
+}
+
+const usd = (value: number) => `$${value.toFixed(2)}`;
+
+export const sizePosition = (config: SizingConfig, inputs: SizingInputs): SizingDecision => {
+    const { price, equity, atr, history } = inputs;
+
+    let method = config.method;
+    let notional = 0;
+    let rationale = '';
+
+    const fractional = (fallback: string) => {
+        method = 'fractional';
+        notional = equity * config.equityPercent / 100;
+        rationale = `${fallback}${config.equityPercent}% of ${usd(equity)} equity`;
+    };
+
+    if (config.method === 'fixed') {
+        notional = inputs.fixedUsd;
+        rationale = `fixed ${usd(inputs.fixedUsd)}`;
+    } else if (config.method === 'fractional') {
+        fractional('');
+    } else if (config.method === 'volatility') {
+        if (atr && atr > 0) {
+            const stopDistance = config.atrMultiple * atr;
+            const risk = equity * config.riskPercent / 100;
+            notional = (risk / stopDistance) * price;
+            rationale = `risk ${config.riskPercent}% of ${usd(equity)} (${usd(risk)}) over ${config.atrMultiple}x ${config.atrTimeframe} ATR ` +
+                `${atr.toPrecision(4)} (${((stopDistance / price) * 100).toFixed(2)}% move)`;
+        } else {
+            fractional(`no ${config.atrTimeframe} ATR yet, `);
+        }
+    } else {
+        const trades = history?.trades ?? 0;
+        if (!history || trades < config.kellyMinTrades || !(history.payoff > 0)) {
+            fractional(`${trades}/${config.kellyMinTrades} trades for Kelly, `);
+        } else {
+            const kelly = history.winRate - (1 - history.winRate) / history.payoff;
+            const stats = `W ${(history.winRate * 100).toFixed(1)}%, R ${history.payoff.toFixed(2)} over ${trades} trades`;
+            if (kelly <= 0) {
+                notional = 0;
+                rationale = `Kelly f* ${kelly.toFixed(3)} <= 0 (${stats}): no edge`;
+            } else {
+                notional = equity * config.kellyFraction * kelly;
+                rationale = `${config.kellyFraction}x Kelly f* ${kelly.toFixed(3)} of ${usd(equity)} (${stats})`;
+            }
+        }
+    }
+
+    const cap = equity * config.maxPositionPercent / 100;
+    if (method !== 'fixed' && notional > cap) {
+        notional = cap;
+        rationale += `, capped at ${config.maxPositionPercent}% of equity`;
+    }
+
+    notional = Math.max(0, notional);
+    return {
+        method,
+        notionalUsd: notional,
+        quantity: price > 0 ? notional / price : 0,
+        rationale: `${rationale} = ${usd(notional)}`
+    };
+};
+
+// Wilder's true range averaged over the last `period` bars (oldest first)
+export const averageTrueRange = (bars: { high: number; low: number; close: number }[], period: number = ATR_PERIOD): number | null => {
+    if (bars.length < period + 1) return null;
+
+    const recent = bars.slice(-(period + 1));
+    let sum = 0;
+    for (let i = 1; i < recent.length; i++) {
+        const previousClose = recent[i - 1].close;
+        sum += Math.max(
+            recent[i].high - recent[i].low,
+            Math.abs(recent[i].high - previousClose),
+            Math.abs(recent[i].low - previousClose)
+        );
+    }
+    return sum / period;
+};
+
+// Win rate and payoff from closed trades' net P&L
+export const summarizeHistory = (pnls: number[]): TradeHistory => {
+    const wins = pnls.filter(p => p > 0);
+    const losses = pnls.filter(p => p <= 0);
+    const avgWin = wins.length > 0 ? wins.reduce((a, b) => a + b, 0) / wins.length : 0;
+    const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length) : 0;
+
+    return {
+        trades: pnls.length,
+        winRate: pnls.length > 0 ? wins.length / pnls.length : 0,
+        payoff: avgLoss > 0 ? avgWin / avgLoss : wins.length > 0 ? Infinity : 0
+    };
+};
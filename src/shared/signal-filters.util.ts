@@ -0,0 +1,130 @@
+import { mergeCloseSamples, SpacedPoint, TimedValue } from './finite-difference.util';
+
+// PRICE SMOOTHING FILTERS
+// A second derivative amplifies noise: one off-by-a-tick print swings S'' as
+// much as a real move. These filters smooth the (burst-merged) price series
+// before acceleration is taken. All of them are causal - each point only sees
+// itself and what came before - so the live leaderboard, which smooths tick by
+// tick, and the backtest, which smooths its trailing history, agree exactly,
+// and a backtest can't peek at the future.
+//
+//   ema     time-aware EMA: alpha = 1 - exp(-dt / tau)
+//   savgol  Savitzky–Golay: least-squares quadratic over the trailing points,
+//           evaluated at the newest one (fit on real timestamps)
+//   kalman  1D random-walk Kalman filter; noise is relative to price so the
+//           same settings work for BTC and SHIB
+
+export type PriceFilter = 'none' | 'ema' | 'savgol' | 'kalman';
+
+export const PRICE_FILTERS: PriceFilter[] = ['none', 'ema', 'savgol', 'kalman'];
+
+export const isPriceFilter = (value: unknown): value is PriceFilter =>
+    typeof value === 'string' && (PRICE_FILTERS as string[]).includes(value);
+
+const EMA_TAU_SECONDS = 5;
+const SAVGOL_WINDOW = 7;                 // Points
+const SAVGOL_ORDER = 2;
+const KALMAN_PROCESS_NOISE = 1e-8;       // Relative variance per second (~0.01% / √s)
+const KALMAN_MEASUREMENT_NOISE = 1e-8;   // Relative variance per print (~0.01% bounce)
+
+// Filter output at one point, plus what the next step needs
+export interface SmoothingState {
+    value: number;
+    variance: number;   // Kalman estimate variance (0 for the others)
+    t: number;          // Seconds
+}
+
+// Least-squares polynomial through the points, evaluated at tEval
+const polyFitAt = (points: SpacedPoint[], order: number, tEval: number): number | null => {
+    const span = Math.max(points[points.length - 1].t - points[0].t, 1e-9);
+    const size = order + 1;
+
+    // Normal equations on scaled time (keeps the matrix well-conditioned)
+    const a: number[][] = Array.from({ length: size }, () => new Array(size + 1).fill(0));
+    for (const p of points) {
+        const x = (p.t - tEval) / span;
+        const powers = [1];
+        for (let k = 1; k <= 2 * order; k++) powers.push(powers[k - 1] * x);
+        for (let row = 0; row < size; row++) {
+            for (let col = 0; col < size; col++) a[row][col] += powers[row + col];
+            a[row][size] += powers[row] * p.value;
+        }
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < size; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < size; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < size; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= size; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    const coeffs = new Array(size).fill(0);
+    for (let row = size - 1; row >= 0; row--) {
+        let sum = a[row][size];
+        for (let k = row + 1; k < size; k++) sum -= a[row][k] * coeffs[k];
+        coeffs[row] = sum / a[row][row];
+    }
+
+    // x = 0 at tEval, so the value is the constant term
+    return coeffs[0];
+};
+
+// Smooth points[index] given the state at points[index - 1] (null at the start)
+export const smoothStep = (filter: PriceFilter, previous: SmoothingState | null, points: SpacedPoint[], index: number): SmoothingState => {
+    const { value, t } = points[index];
+
+    switch (filter) {
+        case 'ema': {
+            if (!previous) return { value, variance: 0, t };
+            const alpha = 1 - Math.exp(-Math.max(t - previous.t, 0) / EMA_TAU_SECONDS);
+            return { value: previous.value + alpha * (value - previous.value), variance: 0, t };
+        }
+
+        case 'savgol': {
+            const window = points.slice(Math.max(0, index - SAVGOL_WINDOW + 1), index + 1);
+            const order = Math.min(SAVGOL_ORDER, window.length - 1);
+            const fitted = order > 0 ? polyFitAt(window, order, t) : value;
+            return { value: fitted ?? value, variance: 0, t };
+        }
+
+        case 'kalman': {
+            const r = KALMAN_MEASUREMENT_NOISE * value * value;
+            if (!previous) return { value, variance: r, t };
+
+            // Predict (random walk grows with elapsed time), then update
+            const q = KALMAN_PROCESS_NOISE * value * value * Math.max(t - previous.t, 0);
+            const predicted = previous.variance + q;
+            const gain = predicted / (predicted + r);
+            return {
+                value: previous.value + gain * (value - previous.value),
+                variance: (1 - gain) * predicted,
+                t
+            };
+        }
+
+        default:
+            return { value, variance: 0, t };
+    }
+};
+
+// Merge bursts, then smooth the whole series (oldest first). The output is
+// ready for calculateAcceleration.
+export const smoothSeries = (samples: TimedValue[], filter: PriceFilter): TimedValue[] => {
+    const points = mergeCloseSamples(samples);
+    const smoothed: TimedValue[] = [];
+    let state: SmoothingState | null = null;
+
+    for (let i = 0; i < points.length; i++) {
+        state = smoothStep(filter, state, points, i);
+        smoothed.push({ value: state.value, time: state.t * 1000 });
+    }
+    return smoothed;
+};